@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseAlertmanagerPayload } from './alertmanager.js';
+
+describe('parseAlertmanagerPayload', () => {
+  it('fans a grouped notification out into one entry per alert', () => {
+    const alerts = parseAlertmanagerPayload({
+      receiver: 'lineu',
+      status: 'firing',
+      externalURL: 'http://alertmanager:9093',
+      groupLabels: { alertname: 'HighErrorRate' },
+      alerts: [
+        {
+          status: 'firing',
+          labels: { alertname: 'HighErrorRate', service: 'checkout', env: 'production' },
+          annotations: { summary: 'Error rate above 5% on checkout' },
+          startsAt: '2024-01-15T10:30:00Z',
+          generatorURL: 'http://prometheus:9090/graph?g0.expr=...',
+        },
+        {
+          status: 'resolved',
+          labels: { alertname: 'HighErrorRate', service: 'payments', env: 'production' },
+          annotations: { description: 'Error rate back to normal' },
+        },
+      ],
+    });
+
+    expect(alerts).toHaveLength(2);
+    expect(alerts![0].labels).toEqual({ alertname: 'HighErrorRate', service: 'checkout', env: 'production' });
+    expect(alerts![0].payload.receiver).toBe('lineu');
+    expect(alerts![0].event).toEqual({
+      source: 'alertmanager',
+      exceptionType: 'HighErrorRate',
+      message: 'Error rate above 5% on checkout',
+      frames: [],
+      environment: 'production',
+      tags: { alertname: 'HighErrorRate', service: 'checkout', env: 'production' },
+      url: 'http://prometheus:9090/graph?g0.expr=...',
+      alertState: 'firing',
+    });
+    expect(alerts![1].event.message).toBe('Error rate back to normal');
+    expect(alerts![1].event.alertState).toBe('resolved');
+  });
+
+  it('prefers Grafana panel links over the generator URL', () => {
+    const alerts = parseAlertmanagerPayload({
+      orgId: 1,
+      status: 'firing',
+      alerts: [{
+        labels: { alertname: 'DiskFull' },
+        generatorURL: 'https://grafana/alerting/grafana/abc/view',
+        panelURL: 'https://grafana/d/xyz?viewPanel=2',
+      }],
+    });
+
+    expect(alerts![0].event.url).toBe('https://grafana/d/xyz?viewPanel=2');
+    // Alert status falls back to the notification status
+    expect(alerts![0].event.alertState).toBe('firing');
+    expect(alerts![0].event.message).toBe('DiskFull');
+  });
+
+  it('returns null when there are no alerts', () => {
+    expect(parseAlertmanagerPayload({ status: 'firing' })).toBeNull();
+    expect(parseAlertmanagerPayload({ alerts: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import type { ErrorEvent } from '../types.js';
+import { isObject, asString, type JsonObject } from './utils.js';
+
+export interface ParsedAlert {
+  // The individual alert, with the receiver and external URL of its notification
+  payload: Record<string, unknown>;
+  labels: Record<string, string>;
+  event: ErrorEvent;
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!isObject(value)) return result;
+  for (const [key, v] of Object.entries(value)) {
+    const s = asString(v);
+    if (s !== undefined) result[key] = s;
+  }
+  return result;
+}
+
+function parseAlert(notification: JsonObject, alert: JsonObject): ParsedAlert {
+  const labels = toStringRecord(alert.labels);
+  const annotations = toStringRecord(alert.annotations);
+  const status = asString(alert.status) ?? asString(notification.status);
+
+  return {
+    payload: {
+      ...alert,
+      receiver: notification.receiver,
+      externalURL: notification.externalURL,
+    },
+    labels,
+    event: {
+      source: 'alertmanager',
+      exceptionType: labels.alertname,
+      message: annotations.summary ?? annotations.description ?? annotations.message ?? labels.alertname,
+      frames: [],
+      environment: labels.environment ?? labels.env,
+      tags: labels,
+      // Grafana adds panel/dashboard links; Alertmanager only has the generator (Prometheus) URL
+      url: asString(alert.panelURL) ?? asString(alert.dashboardURL) ?? asString(alert.generatorURL),
+      alertState: status === 'resolved' ? 'resolved' : 'firing',
+    },
+  };
+}
+
+/**
+ * Parses a Prometheus Alertmanager or Grafana alerting webhook notification
+ * ({ receiver, status, alerts: [{ status, labels, annotations, ... }] }) into
+ * one entry per alert. Returns null when the payload is not recognized.
+ */
+export function parseAlertmanagerPayload(payload: Record<string, unknown>): ParsedAlert[] | null {
+  if (!Array.isArray(payload.alerts)) return null;
+
+  const alerts = payload.alerts.filter(isObject);
+  if (alerts.length === 0) return null;
+
+  return alerts.map(alert => parseAlert(payload, alert));
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { parseGenericPayload } from './generic.js';
+
+describe('parseGenericPayload', () => {
+  it('extracts the exception type, message and frames from a textual stack', () => {
+    const event = parseGenericPayload({
+      message: 'TypeError: Cannot read properties of undefined',
+      stack: 'TypeError: Cannot read properties of undefined\n    at loadProfile (/app/src/user.ts:42:11)',
+      service: 'api',
+    });
+
+    expect(event).toEqual({
+      source: 'generic',
+      exceptionType: 'TypeError',
+      message: 'Cannot read properties of undefined',
+      frames: [{ file: '/app/src/user.ts', function: 'loadProfile', line: 42, column: 11, inApp: true }],
+      environment: undefined,
+      tags: { service: 'api' },
+    });
+  });
+
+  it('reads nested error objects', () => {
+    const event = parseGenericPayload({ error: { name: 'TimeoutError', message: 'Request timed out' } });
+
+    expect(event?.exceptionType).toBe('TimeoutError');
+    expect(event?.message).toBe('Request timed out');
+    expect(event?.frames).toEqual([]);
+  });
+
+  it('returns null when the payload does not describe an error', () => {
+    expect(parseGenericPayload({ status: 'degraded', region: 'us-east-1' })).toBeNull();
+  });
+});
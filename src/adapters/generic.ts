@@ -0,0 +1,77 @@
+import type { ErrorEvent } from '../types.js';
+import { parseStackTrace } from '../lib/stacktrace.js';
+import { isObject, asString } from './utils.js';
+
+// "TypeError: message" / "ActiveRecord::RecordNotFound: message"
+const TYPED_MESSAGE = /^([A-Z][\w.:$]*(?:Error|Exception|Fault))\s*:\s*([\s\S]*)$/;
+
+function splitTypedMessage(text: string | undefined): { type?: string; message?: string } {
+  if (!text) return {};
+  const match = text.match(TYPED_MESSAGE);
+  return match ? { type: match[1], message: match[2].trim() || undefined } : { message: text };
+}
+
+function firstDefined(...values: unknown[]): unknown {
+  return values.find(v => v !== undefined && v !== null);
+}
+
+/**
+ * Best-effort extraction of an ErrorEvent from an arbitrary JSON payload,
+ * looking at common field names (message, error, exception, stack, ...).
+ * Returns null when nothing that identifies an error is found.
+ */
+export function parseGenericPayload(payload: Record<string, unknown>): ErrorEvent | null {
+  const error = isObject(payload.error) ? payload.error : {};
+  const exception = isObject(payload.exception) ? payload.exception : {};
+
+  const stack = firstDefined(
+    payload.stack, payload.stacktrace, payload.stack_trace, payload.backtrace,
+    error.stack, error.stacktrace, error.backtrace,
+    exception.stack, exception.stacktrace,
+  );
+  const frames = typeof stack === 'string' || Array.isArray(stack)
+    ? parseStackTrace(stack as string | string[])
+    : [];
+
+  const explicitType = asString(firstDefined(
+    exception.type, exception.class, error.type, error.class, error.name, payload.errorClass, payload.error_class,
+  ));
+  const text = asString(firstDefined(
+    payload.message,
+    typeof payload.error === 'string' ? payload.error : undefined,
+    error.message, exception.message, exception.value,
+  ));
+  const typed = splitTypedMessage(text);
+
+  // The first line of a textual stack usually repeats "Type: message"
+  const stackHeader = typeof stack === 'string' ? stack.split('\n')[0].trim().match(TYPED_MESSAGE) : null;
+
+  const exceptionType = explicitType ?? typed.type ?? stackHeader?.[1];
+  const message = typed.message ?? (stackHeader?.[2].trim() || undefined);
+
+  if (!exceptionType && !message && frames.length === 0) {
+    return null;
+  }
+
+  const tags: Record<string, string> = {};
+  const service = asString(firstDefined(payload.service, payload.app, payload.application));
+  if (service) tags.service = service;
+
+  return {
+    source: 'generic',
+    exceptionType,
+    message,
+    frames,
+    environment: asString(firstDefined(payload.environment, payload.env)),
+    tags,
+  };
+}
+
+/**
+ * The part of a generic event used for grouping: events with stack frames are
+ * grouped by their stack, others keep the whole-payload fingerprint so
+ * free-form payloads (alerts, logs) are not regrouped by their message.
+ */
+export function genericGroupingEvent(event: ErrorEvent | null | undefined): ErrorEvent | undefined {
+  return event && event.frames.length > 0 ? event : undefined;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseNewRelicPayload } from './newrelic.js';
+
+describe('parseNewRelicPayload', () => {
+  it('parses the default workflow webhook template', () => {
+    const event = parseNewRelicPayload({
+      id: 'f1e2d3c4',
+      issueUrl: 'https://radar-api.service.newrelic.com/accounts/1/issues/f1e2d3c4',
+      title: 'checkout-api: Error rate above 5%',
+      priority: 'CRITICAL',
+      impactedEntities: ['checkout-api'],
+      totalIncidents: 1,
+      state: 'ACTIVATED',
+      trigger: 'STATE_CHANGE',
+      createdAt: 1705314600000,
+      alertPolicyNames: ['Production'],
+      alertConditionNames: ['High error rate'],
+    });
+
+    expect(event).toEqual({
+      source: 'newrelic',
+      exceptionType: undefined,
+      message: 'checkout-api: Error rate above 5%',
+      frames: [],
+      environment: undefined,
+      tags: {
+        service: 'checkout-api',
+        condition: 'High error rate',
+        policy: 'Production',
+        priority: 'CRITICAL',
+        issue_id: 'f1e2d3c4',
+      },
+      url: 'https://radar-api.service.newrelic.com/accounts/1/issues/f1e2d3c4',
+      alertState: 'firing',
+    });
+  });
+
+  it('parses workflow templates using raw variables and maps CLOSED to resolved', () => {
+    const event = parseNewRelicPayload({
+      issueId: 'abc',
+      issuePageUrl: 'https://one.newrelic.com/alerts-ai/issues/abc',
+      state: 'CLOSED',
+      annotations: { title: ['Database connections exhausted'] },
+      entitiesData: { names: ['orders-db'] },
+      accumulations: { conditionName: ['Connection pool'], policyName: ['DB'] },
+    });
+
+    expect(event?.message).toBe('Database connections exhausted');
+    expect(event?.tags.service).toBe('orders-db');
+    expect(event?.url).toBe('https://one.newrelic.com/alerts-ai/issues/abc');
+    expect(event?.alertState).toBe('resolved');
+  });
+
+  it('parses Errors Inbox payloads with stack trace', () => {
+    const event = parseNewRelicPayload({
+      entity: { name: 'billing-worker', guid: 'MXxBUE18' },
+      errorGroup: {
+        name: 'ActiveRecord::RecordNotFound',
+        message: "Couldn't find Invoice with 'id'=42",
+        url: 'https://one.newrelic.com/errors-inbox/group/123',
+        state: 'UNRESOLVED',
+      },
+      stackTrace: [
+        "app/services/invoice_service.rb:17:in `find_invoice'",
+        "/usr/local/bundle/gems/activerecord-7.1.0/lib/active_record/core.rb:253:in `find'",
+      ],
+      environment: 'production',
+    });
+
+    expect(event?.exceptionType).toBe('ActiveRecord::RecordNotFound');
+    expect(event?.message).toBe("Couldn't find Invoice with 'id'=42");
+    expect(event?.tags.service).toBe('billing-worker');
+    expect(event?.environment).toBe('production');
+    expect(event?.url).toBe('https://one.newrelic.com/errors-inbox/group/123');
+    expect(event?.alertState).toBe('firing');
+    expect(event?.frames).toEqual([
+      { file: 'app/services/invoice_service.rb', function: 'find_invoice', line: 17, column: undefined, inApp: true },
+      {
+        file: '/usr/local/bundle/gems/activerecord-7.1.0/lib/active_record/core.rb',
+        function: 'find',
+        line: 253,
+        column: undefined,
+        inApp: false,
+      },
+    ]);
+  });
+
+  it('parses flattened Errors Inbox fields', () => {
+    const event = parseNewRelicPayload({
+      entityName: 'api',
+      errorClass: 'TypeError',
+      errorMessage: 'x is undefined',
+      stackTrace: 'TypeError: x is undefined\n    at handler (/app/src/handler.js:10:5)',
+      errorGroupUrl: 'https://one.newrelic.com/errors-inbox/group/9',
+    });
+
+    expect(event?.exceptionType).toBe('TypeError');
+    expect(event?.frames[0]).toMatchObject({ file: '/app/src/handler.js', function: 'handler', line: 10 });
+    expect(event?.url).toBe('https://one.newrelic.com/errors-inbox/group/9');
+  });
+
+  it('returns null for payloads that are not New Relic notifications', () => {
+    expect(parseNewRelicPayload({ message: 'hello' })).toBeNull();
+  });
+});
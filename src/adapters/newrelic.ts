@@ -0,0 +1,95 @@
+import type { AlertState, ErrorEvent } from '../types.js';
+import { parseStackTrace } from '../lib/stacktrace.js';
+import { isObject, asString, firstString, type JsonObject } from './utils.js';
+
+// Workflow issue states; everything except CLOSED means the issue is still open
+const CLOSED_STATES = new Set(['CLOSED', 'RESOLVED']);
+
+function parseAlertState(state: unknown): AlertState | undefined {
+  const value = asString(state)?.toUpperCase();
+  if (!value) return undefined;
+  return CLOSED_STATES.has(value) ? 'resolved' : 'firing';
+}
+
+function parseStack(stack: unknown): ErrorEvent['frames'] {
+  if (typeof stack === 'string') return parseStackTrace(stack);
+  if (Array.isArray(stack)) return parseStackTrace(stack.filter(l => typeof l === 'string'));
+  return [];
+}
+
+function putTag(tags: Record<string, string>, key: string, value: unknown): void {
+  const v = firstString(value);
+  if (v !== undefined) tags[key] = v;
+}
+
+/**
+ * Errors Inbox notifications describe a single error group:
+ * { entity: { name }, errorGroup: { name, message, url, state }, stackTrace }
+ * Flattened variants (errorClass, errorMessage, entityName) are accepted too.
+ */
+function fromErrorsInbox(payload: JsonObject): ErrorEvent {
+  const group = isObject(payload.errorGroup) ? payload.errorGroup : {};
+  const error = isObject(payload.error) ? payload.error : {};
+  const entity = isObject(payload.entity) ? payload.entity : {};
+
+  const tags: Record<string, string> = {};
+  putTag(tags, 'service', entity.name ?? payload.entityName ?? payload.appName);
+  putTag(tags, 'entity_guid', entity.guid ?? payload.entityGuid);
+  putTag(tags, 'occurrences', payload.occurrences);
+
+  return {
+    source: 'newrelic',
+    exceptionType: asString(payload.errorClass) ?? asString(error.class) ?? asString(group.name),
+    message: asString(payload.errorMessage) ?? asString(error.message) ?? asString(group.message) ?? asString(payload.title),
+    frames: parseStack(payload.stackTrace ?? payload.stack_trace ?? error.stack),
+    environment: asString(payload.environment),
+    tags,
+    url: asString(group.url) ?? asString(payload.errorGroupUrl) ?? asString(payload.issueUrl) ?? asString(payload.url),
+    alertState: parseAlertState(group.state ?? payload.state),
+  };
+}
+
+/**
+ * Workflow notifications, either the default webhook template
+ * ({ issueUrl, title, state, impactedEntities, alertConditionNames, ... })
+ * or custom templates using raw variables ({ issuePageUrl, entitiesData, accumulations, ... }).
+ */
+function fromWorkflow(payload: JsonObject): ErrorEvent {
+  const entities = isObject(payload.entitiesData) ? payload.entitiesData : {};
+  const accumulations = isObject(payload.accumulations) ? payload.accumulations : {};
+  const annotations = isObject(payload.annotations) ? payload.annotations : {};
+
+  const tags: Record<string, string> = {};
+  putTag(tags, 'service', payload.impactedEntities ?? entities.names);
+  putTag(tags, 'condition', payload.alertConditionNames ?? accumulations.conditionName);
+  putTag(tags, 'policy', payload.alertPolicyNames ?? accumulations.policyName);
+  putTag(tags, 'priority', payload.priority);
+  putTag(tags, 'issue_id', payload.id ?? payload.issueId);
+
+  return {
+    source: 'newrelic',
+    exceptionType: asString(payload.errorClass),
+    message: firstString(payload.title) ?? firstString(annotations.title),
+    frames: parseStack(payload.stackTrace),
+    environment: asString(payload.environment),
+    tags,
+    url: asString(payload.issueUrl) ?? asString(payload.issuePageUrl),
+    alertState: parseAlertState(payload.state),
+  };
+}
+
+/**
+ * Parses New Relic workflow notifications and Errors Inbox payloads into
+ * a canonical ErrorEvent. Returns null when the payload is not recognized.
+ */
+export function parseNewRelicPayload(payload: Record<string, unknown>): ErrorEvent | null {
+  if (isObject(payload.errorGroup) || payload.errorClass || (isObject(payload.error) && payload.error.class)) {
+    return fromErrorsInbox(payload);
+  }
+
+  if (payload.issueUrl || payload.issuePageUrl || payload.issueId || (payload.state && payload.title)) {
+    return fromWorkflow(payload);
+  }
+
+  return null;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { parseSentryPayload } from './sentry.js';
+
+const sentryEvent = {
+  event_id: 'a1b2c3d4e5f6',
+  title: "TypeError: Cannot read properties of undefined (reading 'id')",
+  environment: 'production',
+  release: 'api@2.4.1',
+  web_url: 'https://sentry.io/organizations/acme/issues/123/events/a1b2c3d4e5f6/',
+  tags: [['server_name', 'web-1'], ['level', 'error']],
+  exception: {
+    values: [
+      {
+        type: 'TypeError',
+        value: "Cannot read properties of undefined (reading 'id')",
+        stacktrace: {
+          frames: [
+            { filename: 'node:internal/process', function: 'processTicksAndRejections', lineno: 95, in_app: false },
+            { filename: 'src/routes/users.ts', function: 'getUser', lineno: 18, colno: 4, in_app: true },
+            { filename: 'src/services/user.ts', function: 'loadProfile', lineno: 42, colno: 21, in_app: true },
+          ],
+        },
+      },
+    ],
+  },
+};
+
+describe('parseSentryPayload', () => {
+  it('parses integration platform event alerts into a canonical event', () => {
+    const event = parseSentryPayload({
+      action: 'triggered',
+      data: { event: sentryEvent, triggered_rule: 'Production errors' },
+    });
+
+    expect(event).toEqual({
+      source: 'sentry',
+      exceptionType: 'TypeError',
+      message: "Cannot read properties of undefined (reading 'id')",
+      frames: [
+        { file: 'src/services/user.ts', function: 'loadProfile', line: 42, column: 21, inApp: true },
+        { file: 'src/routes/users.ts', function: 'getUser', line: 18, column: 4, inApp: true },
+        { file: 'node:internal/process', function: 'processTicksAndRejections', line: 95, column: undefined, inApp: false },
+      ],
+      environment: 'production',
+      release: 'api@2.4.1',
+      tags: { server_name: 'web-1', level: 'error' },
+      url: 'https://sentry.io/organizations/acme/issues/123/events/a1b2c3d4e5f6/',
+    });
+  });
+
+  it('parses legacy issue alert webhooks and falls back to the issue URL', () => {
+    const { web_url: _webUrl, ...eventWithoutUrl } = sentryEvent;
+    const event = parseSentryPayload({
+      project: 'api',
+      url: 'https://sentry.io/organizations/acme/issues/123/',
+      event: { ...eventWithoutUrl, tags: [{ key: 'browser', value: 'Chrome' }] },
+    });
+
+    expect(event?.url).toBe('https://sentry.io/organizations/acme/issues/123/');
+    expect(event?.tags).toEqual({ browser: 'Chrome' });
+    expect(event?.frames[0].function).toBe('loadProfile');
+  });
+
+  it('uses the last exception in a chained exception', () => {
+    const event = parseSentryPayload({
+      event: {
+        exception: {
+          values: [
+            { type: 'ConnectionError', value: 'ECONNRESET' },
+            { type: 'QueryFailedError', value: 'Query failed' },
+          ],
+        },
+      },
+    });
+
+    expect(event?.exceptionType).toBe('QueryFailedError');
+    expect(event?.message).toBe('Query failed');
+    expect(event?.frames).toEqual([]);
+  });
+
+  it('falls back to logentry message when there is no exception', () => {
+    const event = parseSentryPayload({
+      event_id: 'abc',
+      logentry: { formatted: 'Payment provider returned 502' },
+      release: { version: 'billing@1.0.0' },
+    });
+
+    expect(event?.exceptionType).toBeUndefined();
+    expect(event?.message).toBe('Payment provider returned 502');
+    expect(event?.release).toBe('billing@1.0.0');
+  });
+
+  it('parses issue resource webhooks from issue metadata', () => {
+    const event = parseSentryPayload({
+      action: 'created',
+      data: {
+        issue: {
+          id: '123',
+          title: 'ValueError: invalid literal',
+          metadata: { type: 'ValueError', value: 'invalid literal' },
+          web_url: 'https://sentry.io/organizations/acme/issues/123/',
+        },
+      },
+    });
+
+    expect(event).toEqual({
+      source: 'sentry',
+      exceptionType: 'ValueError',
+      message: 'invalid literal',
+      frames: [],
+      tags: {},
+      url: 'https://sentry.io/organizations/acme/issues/123/',
+    });
+  });
+
+  it('returns null for payloads that are not Sentry events', () => {
+    expect(parseSentryPayload({ action: 'created', data: { installation: { uuid: 'x' } } })).toBeNull();
+    expect(parseSentryPayload({ error: 'TypeError' })).toBeNull();
+  });
+});
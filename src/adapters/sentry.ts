@@ -0,0 +1,134 @@
+import type { ErrorEvent, StackFrame } from '../types.js';
+import { isObject, asString, type JsonObject } from './utils.js';
+
+/**
+ * Finds the Sentry event inside the known webhook envelopes:
+ * - Integration platform alerts: { action, data: { event } }
+ * - Integration platform errors: { action, data: { error } }
+ * - Legacy webhook plugin / issue alerts: { project, url, event }
+ * - Raw event payloads: { event_id, exception, ... }
+ */
+function findEvent(payload: JsonObject): JsonObject | undefined {
+  const data = payload.data;
+  if (isObject(data)) {
+    if (isObject(data.event)) return data.event;
+    if (isObject(data.error)) return data.error;
+  }
+  if (isObject(payload.event)) return payload.event;
+  if (payload.exception || payload.event_id) return payload;
+  return undefined;
+}
+
+function getExceptionValues(event: JsonObject): JsonObject[] {
+  const exception = event.exception ?? event['sentry.interfaces.Exception'];
+  if (Array.isArray(exception)) return exception.filter(isObject);
+  if (isObject(exception) && Array.isArray(exception.values)) {
+    return exception.values.filter(isObject);
+  }
+  return [];
+}
+
+function parseFrames(stacktrace: unknown): StackFrame[] {
+  if (!isObject(stacktrace) || !Array.isArray(stacktrace.frames)) return [];
+
+  // Sentry lists frames oldest first; canonical events keep the most recent call first
+  return stacktrace.frames
+    .filter(isObject)
+    .map(frame => ({
+      file: asString(frame.filename) ?? asString(frame.abs_path) ?? asString(frame.module),
+      function: asString(frame.function),
+      line: typeof frame.lineno === 'number' ? frame.lineno : undefined,
+      column: typeof frame.colno === 'number' ? frame.colno : undefined,
+      inApp: typeof frame.in_app === 'boolean' ? frame.in_app : undefined,
+    }))
+    .reverse();
+}
+
+function parseTags(tags: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  if (Array.isArray(tags)) {
+    for (const tag of tags) {
+      // Tags come as [key, value] pairs or { key, value } objects
+      const [key, value] = Array.isArray(tag) ? tag : isObject(tag) ? [tag.key, tag.value] : [];
+      const k = asString(key);
+      const v = asString(value);
+      if (k && v !== undefined) result[k] = v;
+    }
+  } else if (isObject(tags)) {
+    for (const [key, value] of Object.entries(tags)) {
+      const v = asString(value);
+      if (v !== undefined) result[key] = v;
+    }
+  }
+
+  return result;
+}
+
+function parseRelease(release: unknown): string | undefined {
+  if (isObject(release)) return asString(release.version);
+  return asString(release);
+}
+
+function fromEvent(payload: JsonObject, event: JsonObject): ErrorEvent {
+  const values = getExceptionValues(event);
+  // The last exception in the chain is the one that was actually raised
+  const main = values[values.length - 1];
+  const metadata = isObject(event.metadata) ? event.metadata : {};
+  const logentry = isObject(event.logentry) ? event.logentry : {};
+
+  const frames = main
+    ? parseFrames(main.stacktrace)
+    : parseFrames(event.stacktrace);
+
+  const issue = isObject(payload.data) && isObject(payload.data.issue) ? payload.data.issue : {};
+
+  return {
+    source: 'sentry',
+    exceptionType: asString(main?.type) ?? asString(metadata.type),
+    message: asString(main?.value)
+      ?? asString(metadata.value)
+      ?? asString(logentry.formatted)
+      ?? asString(event.message)
+      ?? asString(event.title),
+    frames,
+    environment: asString(event.environment),
+    release: parseRelease(event.release),
+    tags: parseTags(event.tags),
+    url: asString(event.web_url)
+      ?? asString(payload.url)
+      ?? asString(issue.web_url)
+      ?? asString(event.issue_url),
+  };
+}
+
+function fromIssue(issue: JsonObject): ErrorEvent {
+  const metadata = isObject(issue.metadata) ? issue.metadata : {};
+
+  return {
+    source: 'sentry',
+    exceptionType: asString(metadata.type),
+    message: asString(metadata.value) ?? asString(issue.title),
+    frames: [],
+    tags: {},
+    url: asString(issue.web_url) ?? asString(issue.permalink),
+  };
+}
+
+/**
+ * Parses Sentry issue-alert, event-alert and issue webhook payloads into
+ * a canonical ErrorEvent. Returns null when the payload is not recognized.
+ */
+export function parseSentryPayload(payload: Record<string, unknown>): ErrorEvent | null {
+  const event = findEvent(payload);
+  if (event) {
+    return fromEvent(payload, event);
+  }
+
+  // Issue resource webhooks only carry issue metadata, no event
+  if (isObject(payload.data) && isObject(payload.data.issue)) {
+    return fromIssue(payload.data.issue);
+  }
+
+  return null;
+}
@@ -0,0 +1,17 @@
+export type JsonObject = Record<string, unknown>;
+
+export function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim() !== '') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+// Returns the first string of an array, or the value itself when it is a string
+export function firstString(value: unknown): string | undefined {
+  if (Array.isArray(value)) return value.map(asString).find(v => v !== undefined);
+  return asString(value);
+}
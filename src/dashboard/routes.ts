@@ -5,17 +5,28 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import fs from 'fs';
 import os from 'os';
+import { routedAnalysis } from '../lib/routing.js';
+import { budgetStatus } from '../lib/budget.js';
 import type { LineuDatabase } from '../db.js';
-import type { LinearService } from '../services/linear.js';
-import type { ClaudeSessionEvent, ClaudeAnalysis } from '../types.js';
+import type { IssueTracker } from '../services/tracker.js';
+import type { ClaudeSessionEvent, ClaudeAnalysis, ErrorEvent, RoutingDecision, BudgetConfig } from '../types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Snoozes are time-boxed: at most 30 days
+const MAX_SNOOZE_HOURS = 24 * 30;
+
+export interface DashboardOptions {
+  // Spend caps shown next to the usage aggregates
+  budget?: BudgetConfig;
+}
+
 export async function registerDashboard(
   app: FastifyInstance,
   db: LineuDatabase,
-  linear: LinearService
+  tracker: IssueTracker,
+  options: DashboardOptions = {}
 ): Promise<void> {
   const dashboardUser = process.env.DASHBOARD_USER;
   const dashboardPass = process.env.DASHBOARD_PASS;
@@ -57,9 +68,20 @@ export async function registerDashboard(
       return db.getStats();
     });
 
-    // API: Recent jobs
+    // API: Recent jobs, with links to their issues in the tracker
     instance.get('/jobs', async () => {
-      return db.getRecentJobs();
+      return db.getRecentJobs().map(job => ({
+        ...job,
+        issue_url: job.linear_identifier ? tracker.issueUrl(job.linear_identifier) : null,
+      }));
+    });
+
+    // API: Analysis tokens and cost per day, team and category, with the budget status
+    instance.get('/usage', async () => {
+      return {
+        ...db.getUsageSummary(),
+        budget: budgetStatus(options.budget, db.getSpend()),
+      };
     });
 
     // API: Timeline (jobs per hour, last 24h)
@@ -100,12 +122,78 @@ export async function registerDashboard(
 
       return {
         ...job,
+        issue_url: job.linear_identifier ? tracker.issueUrl(job.linear_identifier) : null,
         session,
         analysis: job.analysis ? JSON.parse(job.analysis) : null,
+        event: job.event ? JSON.parse(job.event) : null,
+        routing: job.routing ? JSON.parse(job.routing) : null,
+        snooze: db.getActiveSnooze(job.fingerprint) ?? null,
+        usage: db.getJobUsage(jobId),
       };
     });
 
-    // API: Create Linear issue from dry-run job
+    // API: How often a fingerprint fires (count, hourly buckets, environments, hosts)
+    instance.get<{ Params: { hash: string } }>('/fingerprints/:hash/occurrences', async (request, reply) => {
+      const occurrences = db.getOccurrences(request.params.hash);
+      if (!occurrences) {
+        return reply.status(404).send({ error: 'Fingerprint not found' });
+      }
+      return occurrences;
+    });
+
+    // API: Suppress a fingerprint's events for a number of hours
+    instance.post<{ Params: { hash: string }; Body: { hours?: unknown; reason?: unknown } | undefined }>(
+      '/fingerprints/:hash/snooze',
+      async (request, reply) => {
+        const { hours, reason } = request.body ?? {};
+        if (typeof hours !== 'number' || !(hours > 0) || hours > MAX_SNOOZE_HOURS) {
+          return reply.status(400).send({ error: `hours must be a number between 0 and ${MAX_SNOOZE_HOURS}` });
+        }
+        if (reason !== undefined && typeof reason !== 'string') {
+          return reply.status(400).send({ error: 'reason must be a string' });
+        }
+
+        const snooze = db.snoozeFingerprint(request.params.hash, hours * 3600000, reason || undefined);
+        request.log.info({ fingerprint: snooze.fingerprint, until: snooze.until }, 'Fingerprint snoozed');
+        return reply.status(201).send(snooze);
+      }
+    );
+
+    // API: End a snooze early
+    instance.delete<{ Params: { hash: string } }>('/fingerprints/:hash/snooze', async (request, reply) => {
+      if (!db.unsnoozeFingerprint(request.params.hash)) {
+        return reply.status(404).send({ error: 'Fingerprint is not snoozed' });
+      }
+      return reply.status(204).send();
+    });
+
+    // API: Queue a failed, dead, skipped or dry-run job again, optionally with a fresh analysis
+    instance.post<{ Params: { id: string }; Body: { bypassCache?: unknown } | undefined }>(
+      '/jobs/:id/rerun',
+      async (request, reply) => {
+        const jobId = Number(request.params.id);
+        if (!Number.isInteger(jobId) || jobId <= 0) {
+          return reply.status(400).send({ error: 'Invalid job ID' });
+        }
+        const { bypassCache = false } = request.body ?? {};
+        if (typeof bypassCache !== 'boolean') {
+          return reply.status(400).send({ error: 'bypassCache must be a boolean' });
+        }
+
+        const job = db.getJob(jobId);
+        if (!job) {
+          return reply.status(404).send({ error: 'Job not found' });
+        }
+        if (!db.rerunJob(jobId, bypassCache)) {
+          return reply.status(400).send({ error: `Job with status ${job.status} cannot be re-run` });
+        }
+
+        request.log.info({ jobId, bypassCache }, 'Job queued again');
+        return reply.status(202).send({ id: jobId, status: 'pending', bypassCache });
+      }
+    );
+
+    // API: Create an issue from a dry-run job
     instance.post<{ Params: { id: string } }>('/jobs/:id/create-issue', async (request, reply) => {
       const jobId = Number(request.params.id);
       if (!Number.isInteger(jobId) || jobId <= 0) {
@@ -125,18 +213,28 @@ export async function registerDashboard(
 
       const analysis = JSON.parse(job.analysis) as ClaudeAnalysis;
       const payload = JSON.parse(job.payload) as Record<string, unknown>;
+      const event = job.event ? JSON.parse(job.event) as ErrorEvent : undefined;
 
-      // Resolve team using suggested_team from analysis
-      const team = linear.resolveTeamId(analysis.suggested_team);
+      // Team routed by the worker (dry-run jobs), or suggested_team from analysis
+      const routing = job.routing ? JSON.parse(job.routing) as RoutingDecision : undefined;
+      const teamKey = routing ? routing.team : analysis.suggested_team;
+      const team = teamKey ? tracker.findTeam(teamKey) : null;
       if (!team) {
-        return reply.status(400).send({ error: `Team "${analysis.suggested_team}" not found. Available teams may not be loaded.` });
+        return reply.status(400).send({
+          error: teamKey ? `Team "${teamKey}" not found. Available teams may not be loaded.` : 'The job has no team to file the issue in',
+        });
       }
 
       try {
-        const issue = await linear.createIssue(team.id, payload, analysis, job.fingerprint);
-
-        // CRITICAL: Atomic transaction - same behavior as normal worker
-        db.completeJobWithFingerprint(jobId, job.fingerprint, issue.id, issue.identifier, job.analysis);
+        const issue = await tracker.createIssue(
+          team.id, payload, routing ? routedAnalysis(analysis, routing) : analysis, job.fingerprint, { event, routing }
+        );
+
+        // CRITICAL: Atomic transaction - links the fingerprint like the worker does
+        if (!db.attachIssue(jobId, job.fingerprint, issue.id, issue.identifier)) {
+          request.log.warn({ jobId, issue: issue.identifier }, 'Job got an issue while this one was being created');
+          return reply.status(409).send({ error: `Job already has an issue; ${issue.identifier} was created as well` });
+        }
 
         return reply.status(201).send({
           issue: {
@@ -147,7 +245,7 @@ export async function registerDashboard(
         });
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Unknown error';
-        request.log.error({ err, jobId }, 'Failed to create Linear issue');
+        request.log.error({ err, jobId }, 'Failed to create issue');
         return reply.status(500).send({ error: `Failed to create issue: ${message}` });
       }
     });
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
 import { createDatabase, LineuDatabase } from './db.js';
 import fs from 'fs';
 import path from 'path';
@@ -222,4 +223,365 @@ describe('createDatabase', () => {
     // Hour format is YYYY-MM-DD HH:00
     expect(currentHourEntry.hour).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:00$/);
   });
+
+  it('persists the normalized event alongside the raw payload', () => {
+    const event = {
+      source: 'sentry',
+      exceptionType: 'TypeError',
+      message: 'Cannot read properties of undefined',
+      frames: [{ file: 'src/user.ts', function: 'loadProfile', line: 42 }],
+      tags: { server_name: 'web-1' },
+    };
+
+    const result = db.insertJobIfNotDuplicate({ data: { event: {} } }, 'event-hash', 7, { event });
+    expect(result.status).toBe('inserted');
+
+    // Worker receives the event with the claimed job
+    const claimed = db.claimNextJob();
+    expect(JSON.parse(claimed!.event!)).toEqual(event);
+
+    // Jobs without an adapter have no event
+    const genericId = db.insertJob({ message: 'Generic error' }, 'generic-hash');
+    expect(db.getJob(genericId)?.event).toBeNull();
+  });
+
+  it('records the lease owner and renews it only for the owning worker', () => {
+    const jobId = db.insertJob({ message: 'TypeError: undefined' }, 'lease-hash');
+
+    const claimed = db.claimNextJob('worker-a', 60000);
+    expect(claimed?.attempts).toBe(1);
+
+    const job = db.getJob(jobId);
+    expect(job?.worker_id).toBe('worker-a');
+    expect(job?.claimed_at).toBeTruthy();
+    expect(job?.lease_expires_at).toBeTruthy();
+
+    expect(db.renewLease(jobId, 'worker-a', 60000)).toBe(true);
+    expect(db.renewLease(jobId, 'worker-b', 60000)).toBe(false);
+
+    // Live leases are not released
+    expect(db.releaseExpiredLeases()).toEqual({ released: [], dead: [] });
+  });
+
+  it('returns jobs with expired or missing leases to pending and counts attempts', () => {
+    const expiredId = db.insertJob({ message: 'Crashed mid-analysis' }, 'expired-hash');
+    db.claimNextJob('crashed-worker', -1000);
+
+    // Claimed by a version without leases
+    const legacyId = db.insertJob({ message: 'Legacy processing job' }, 'legacy-hash');
+    db.markProcessing(legacyId);
+
+    expect(db.releaseExpiredLeases().released.sort()).toEqual([expiredId, legacyId]);
+    expect(db.getJob(expiredId)?.status).toBe('pending');
+    expect(db.getJob(expiredId)?.worker_id).toBeNull();
+
+    // The recovered job is claimed again as a second attempt
+    const reclaimed = db.claimNextJob('worker-b', 60000);
+    expect(reclaimed?.id).toBe(expiredId);
+    expect(reclaimed?.attempts).toBe(2);
+  });
+
+  it('marks jobs whose lease keeps expiring dead once out of attempts', () => {
+    const jobId = db.insertJob({ message: 'Crashes the worker' }, 'poison-hash');
+    db.claimNextJob('worker-a', -1000);
+    expect(db.releaseExpiredLeases(2)).toEqual({ released: [jobId], dead: [] });
+
+    db.claimNextJob('worker-b', -1000);
+    expect(db.releaseExpiredLeases(2)).toEqual({ released: [], dead: [jobId] });
+    expect(db.getJob(jobId)?.status).toBe('dead');
+    expect(db.getStats().dead).toBe(1);
+  });
+
+  it('discards the outcome of a worker whose job was reclaimed after its lease expired', () => {
+    const jobId = db.insertJob({ message: 'Slow analysis' }, 'slow-hash');
+    db.claimNextJob('worker-a', -1000);
+    expect(db.releaseExpiredLeases().released).toEqual([jobId]);
+    db.claimNextJob('worker-b');
+
+    // worker-a finishes late: it can no longer renew the lease or settle the job
+    expect(db.renewLease(jobId, 'worker-a', 60000)).toBe(false);
+    expect(db.completeJobWithFingerprint(jobId, 'slow-hash', 'issue-a', 'TEAM-1', '{}', undefined, 'worker-a')).toBe(false);
+    expect(db.markFailed(jobId, 'late failure', 'worker-a')).toBe(false);
+    expect(db.getJob(jobId)).toMatchObject({ status: 'processing', worker_id: 'worker-b', linear_issue_id: null, error: null });
+    expect(db.findFingerprint('slow-hash', 7)).toBeUndefined();
+
+    expect(db.completeJobWithFingerprint(jobId, 'slow-hash', 'issue-b', 'TEAM-2', '{}', undefined, 'worker-b')).toBe(true);
+    expect(db.getJob(jobId)).toMatchObject({ status: 'completed', linear_identifier: 'TEAM-2' });
+    // Settled jobs are not settled again
+    expect(db.markFailed(jobId, 'too late', 'worker-b')).toBe(false);
+  });
+
+  it('links the issue created from the dashboard to a completed dry-run job once', () => {
+    const jobId = db.insertJob({ message: 'Boom' }, 'dry-hash');
+    db.claimNextJob();
+    db.markCompletedDryRun(jobId, '{}');
+
+    expect(db.attachIssue(jobId, 'dry-hash', 'issue-1', 'TEAM-1')).toBe(true);
+    expect(db.attachIssue(jobId, 'dry-hash', 'issue-2', 'TEAM-2')).toBe(false);
+    expect(db.getJob(jobId)).toMatchObject({ status: 'completed', linear_identifier: 'TEAM-1' });
+    expect(db.findFingerprint('dry-hash', 7)?.linear_identifier).toBe('TEAM-1');
+  });
+
+  it('schedules retries that are not claimed before their next attempt time', () => {
+    const jobId = db.insertJob({ message: 'Linear is down' }, 'retry-hash');
+    db.claimNextJob();
+
+    db.markRetry(jobId, 'Linear API 503', 60000);
+    const job = db.getJob(jobId);
+    expect(job?.status).toBe('pending');
+    expect(job?.error).toBe('Linear API 503');
+    expect(job?.next_attempt_at).toBeTruthy();
+    expect(db.claimNextJob()).toBeUndefined();
+
+    // Due retries are claimed again
+    const dueId = db.insertJob({ message: 'Jira is down' }, 'due-hash');
+    db.claimNextJob();
+    db.markRetry(dueId, 'Jira API 503', -1000);
+    expect(db.claimNextJob()).toMatchObject({ id: dueId, attempts: 2 });
+
+    db.markDead(dueId, 'Jira API 503');
+    expect(db.getJob(dueId)?.status).toBe('dead');
+  });
+
+  it('never claims two jobs with the same fingerprint at once', () => {
+    const first = db.insertJob({ message: 'Timeout' }, 'same-hash');
+    const second = db.insertJob({ message: 'Timeout' }, 'same-hash');
+    const other = db.insertJob({ message: 'Other error' }, 'other-hash');
+
+    expect(db.claimNextJob('slot-1')?.id).toBe(first);
+    // The second slot skips the fingerprint being processed
+    expect(db.claimNextJob('slot-2')?.id).toBe(other);
+    expect(db.claimNextJob('slot-3')).toBeUndefined();
+
+    db.markFailed(first, 'boom', 'slot-1');
+    expect(db.claimNextJob('slot-3')?.id).toBe(second);
+  });
+
+  it('aggregates occurrences of a fingerprint across duplicate webhook hits', () => {
+    const event = {
+      source: 'sentry', message: 'Timeout', frames: [], environment: 'production',
+      tags: { server_name: 'web-1' },
+    };
+    db.insertJobIfNotDuplicate({ message: 'Timeout' }, 'hot-hash', 7, { event });
+    db.insertJobIfNotDuplicate({ message: 'Timeout' }, 'hot-hash', 7, { event: { ...event, tags: { server_name: 'web-2' } } });
+    db.insertJobIfNotDuplicate({ message: 'Timeout', env: 'staging', hostname: 'web-1' }, 'hot-hash', 7);
+    // Suppressed hits and resolved notifications are occurrences too
+    db.recordSuppressed({ message: 'Timeout' }, 'hot-hash', 'snoozed until tomorrow');
+    db.recordResolved({ message: 'Timeout' }, 'hot-hash');
+
+    const occurrences = db.getOccurrences('hot-hash');
+    expect(occurrences?.count).toBe(5);
+    expect(occurrences?.first_seen).toBeTruthy();
+    expect(occurrences?.last_seen).toBeTruthy();
+    expect(occurrences?.hourly).toHaveLength(1);
+    expect(occurrences?.hourly[0].count).toBe(5);
+    expect(occurrences?.environments.map(e => [e.value, e.count])).toEqual([['production', 2], ['staging', 1]]);
+    expect(occurrences?.hosts.map(h => [h.value, h.count])).toEqual([['web-1', 2], ['web-2', 1]]);
+
+    expect(db.getOccurrences('unknown-hash')).toBeUndefined();
+  });
+
+  it('lists issues with unreported occurrences until they are reported', () => {
+    const jobId = db.insertJob({ message: 'Timeout' }, 'issue-hash');
+    db.claimNextJob();
+    db.insertJob({ message: 'No issue yet' }, 'other-hash');
+    db.completeJobWithFingerprint(jobId, 'issue-hash', 'issue-1', 'TEAM-1', '{}');
+
+    // The first occurrence is described by the issue itself
+    let candidate = db.getOccurrenceUpdateCandidates().find(c => c.fingerprint === 'issue-hash');
+    expect(candidate).toMatchObject({ count: 1, notified_count: 1, hour_count: 1, linear_issue_id: 'issue-1' });
+    expect(db.getOccurrenceUpdateCandidates().map(c => c.fingerprint)).toEqual(['issue-hash']);
+
+    db.insertJobIfNotDuplicate({ message: 'Timeout', attempt: 2 }, 'issue-hash', 7);
+    candidate = db.getOccurrenceUpdateCandidates()[0];
+    expect(candidate).toMatchObject({ count: 2, notified_count: 1, hour_count: 2 });
+    expect(JSON.parse(db.getLatestOccurrence('issue-hash')!.payload)).toEqual({ message: 'Timeout', attempt: 2 });
+
+    db.markOccurrenceNotified('issue-hash', 2);
+    db.markPriorityBumped('issue-hash');
+    candidate = db.getOccurrenceUpdateCandidates()[0];
+    expect(candidate.notified_count).toBe(2);
+    expect(candidate.notified_at).toBeTruthy();
+    expect(candidate.priority_bumped_at).toBeTruthy();
+
+    // Snoozed hits are counted, but the issue is left alone until the snooze ends
+    db.snoozeFingerprint('issue-hash', 3600000);
+    db.recordSuppressed({ message: 'Timeout', attempt: 3 }, 'issue-hash', 'snoozed');
+    expect(db.getOccurrences('issue-hash')?.count).toBe(3);
+    expect(db.getOccurrenceUpdateCandidates()).toEqual([]);
+    db.unsnoozeFingerprint('issue-hash');
+    expect(db.getOccurrenceUpdateCandidates()[0]).toMatchObject({ count: 3, notified_count: 2 });
+  });
+
+  it('only deduplicates at webhook time while the issue is known to be open', () => {
+    db.insertFingerprint('fixed-hash', 'issue-1', 'TEAM-1');
+    expect(db.insertJobIfNotDuplicate({ message: 'Boom' }, 'fixed-hash', 7).status).toBe('duplicate');
+    expect(db.getFingerprintIssue('fixed-hash', 60000)?.issue_state).toBe('open');
+
+    // The worker found the issue completed: the next hit is queued for a regression check
+    db.updateIssueState('fixed-hash', 'completed');
+    const result = db.insertJobIfNotDuplicate({ message: 'Boom' }, 'fixed-hash', 7);
+    expect(result.status).toBe('inserted');
+    expect(db.getFingerprintIssue('fixed-hash', 60000)?.issue_state).toBe('completed');
+    // Stale states are not returned
+    expect(db.getFingerprintIssue('fixed-hash', 0)?.issue_state).toBeNull();
+
+    db.claimNextJob();
+    db.markRegression(result.jobId, 'fixed-hash', 'TEAM-1', true);
+    const job = db.getJob(result.jobId);
+    expect(job).toMatchObject({ status: 'regression', linear_identifier: 'TEAM-1', regression_of: 'TEAM-1' });
+    expect(db.getFingerprintIssue('fixed-hash', 60000)?.issue_state).toBe('open');
+    expect(db.getStats().regression).toBe(1);
+  });
+
+  it('deduplicates on the last known open state once it is stale, flagging it for a refresh', () => {
+    db.insertFingerprint('fixed-hash', 'issue-1', 'TEAM-1');
+
+    expect(db.insertJobIfNotDuplicate({ message: 'Boom' }, 'fixed-hash', 7, { issueStateTtl: 60000 }))
+      .toEqual({ status: 'duplicate', jobId: expect.any(Number), linear_identifier: 'TEAM-1' });
+    expect(db.insertJobIfNotDuplicate({ message: 'Boom' }, 'fixed-hash', 7, { issueStateTtl: 0 }))
+      .toEqual({ status: 'duplicate', jobId: expect.any(Number), linear_identifier: 'TEAM-1', stale_issue_id: 'issue-1' });
+
+    // States synced by the tracker webhook never go stale
+    db.syncIssue({ issueId: 'issue-1', identifier: 'TEAM-1', state: 'open', stateName: 'Todo', assignee: null, team: null, closedAt: null });
+    expect(db.insertJobIfNotDuplicate({ message: 'Boom' }, 'fixed-hash', 7, { issueStateTtl: 0 }))
+      .not.toHaveProperty('stale_issue_id');
+  });
+
+  it('deduplicates on fingerprints recorded before issue states were tracked, flagging them for a refresh', () => {
+    db.insertFingerprint('legacy-hash', 'issue-1', 'TEAM-1');
+    const raw = new Database(testDbPath);
+    raw.prepare(`UPDATE fingerprints SET issue_state = NULL, issue_state_checked_at = NULL WHERE hash = 'legacy-hash'`).run();
+    raw.close();
+
+    expect(db.insertJobIfNotDuplicate({ message: 'Boom' }, 'legacy-hash', 7, { issueStateTtl: 60000 }))
+      .toEqual({ status: 'duplicate', jobId: expect.any(Number), linear_identifier: 'TEAM-1', stale_issue_id: 'issue-1' });
+  });
+
+  it('links a fingerprint to the regression issue that replaces its completed one', () => {
+    db.insertFingerprint('fixed-hash', 'issue-1', 'TEAM-1');
+    db.updateIssueState('fixed-hash', 'completed');
+    const jobId = db.insertJob({ message: 'Boom' }, 'fixed-hash');
+    db.claimNextJob();
+
+    db.completeJobWithFingerprint(jobId, 'fixed-hash', 'issue-2', 'TEAM-2', '{}', 'TEAM-1');
+
+    expect(db.getJob(jobId)).toMatchObject({ status: 'regression', linear_identifier: 'TEAM-2', regression_of: 'TEAM-1' });
+    expect(db.getFingerprintIssue('fixed-hash', 60000)).toMatchObject({ linear_issue_id: 'issue-2', issue_state: 'open' });
+  });
+
+  it('stores the routing decision of a job as JSON', () => {
+    const jobId = db.insertJob({ message: 'Boom' }, 'routed-hash');
+    const routing = { source: 'codeowners' as const, team: 'PAY', assignee: 'maria@acme.dev', reason: '@acme/payments owns 1 of 1 affected files' };
+
+    db.setRouting(jobId, routing);
+
+    expect(JSON.parse(db.getJob(jobId)!.routing!)).toEqual(routing);
+  });
+
+  it('counts jobs skipped by routing rules', () => {
+    const jobId = db.insertJob({ message: 'Boom' }, 'skipped-hash');
+    db.claimNextJob();
+
+    db.markSkipped(jobId, '{}');
+
+    expect(db.getJob(jobId)?.status).toBe('skipped');
+    expect(db.getStats().skipped).toBe(1);
+  });
+
+  it('records suppressed events in stats and the timeline without queueing them', () => {
+    const jobId = db.recordSuppressed({ message: 'Boom' }, 'noisy-hash', 'ignore rule bots', { source: 'sentry' });
+
+    expect(db.getJob(jobId)).toMatchObject({ status: 'suppressed', suppressed_by: 'ignore rule bots', source: 'sentry' });
+    expect(db.claimNextJob()).toBeUndefined();
+    expect(db.getStats().suppressed).toBe(1);
+    expect(db.getTimeline().at(-1)).toMatchObject({ total: 1, suppressed: 1 });
+  });
+
+  it('snoozes a fingerprint until the snooze expires or is removed', () => {
+    const snooze = db.snoozeFingerprint('noisy-hash', 3600000, 'Deploy in progress');
+
+    expect(snooze).toMatchObject({ fingerprint: 'noisy-hash', reason: 'Deploy in progress' });
+    expect(db.getActiveSnooze('noisy-hash')).toEqual(snooze);
+    expect(db.getActiveSnooze('other-hash')).toBeUndefined();
+
+    // Snoozing again replaces the snooze; an expired one is no longer active
+    db.snoozeFingerprint('noisy-hash', -1000);
+    expect(db.getActiveSnooze('noisy-hash')).toBeUndefined();
+
+    db.snoozeFingerprint('noisy-hash', 3600000);
+    expect(db.unsnoozeFingerprint('noisy-hash')).toBe(true);
+    expect(db.unsnoozeFingerprint('noisy-hash')).toBe(false);
+    expect(db.getActiveSnooze('noisy-hash')).toBeUndefined();
+  });
+
+  it('caches analyses per fingerprint, commit, prompts, teams and analyzer', () => {
+    const key = {
+      fingerprint: 'abc123', headSha: 'a'.repeat(40), templateHash: 'prompt-v1', repairTemplateHash: 'repair-v1', teamsHash: 'teams-v1', analyzer: 'claude',
+    };
+
+    db.saveCachedAnalysis(key, '{"summary":"first"}', 1);
+    expect(db.getCachedAnalysis(key)).toMatchObject({ analysis: '{"summary":"first"}', job_id: 1 });
+    expect(db.getCachedAnalysis({ ...key, headSha: 'b'.repeat(40) })).toBeUndefined();
+    expect(db.getCachedAnalysis({ ...key, templateHash: 'prompt-v2' })).toBeUndefined();
+    expect(db.getCachedAnalysis({ ...key, repairTemplateHash: 'repair-v2' })).toBeUndefined();
+    expect(db.getCachedAnalysis({ ...key, teamsHash: 'teams-v2' })).toBeUndefined();
+    expect(db.getCachedAnalysis({ ...key, analyzer: 'stub' })).toBeUndefined();
+
+    // A fresh analysis replaces the cached one
+    db.saveCachedAnalysis(key, '{"summary":"second"}');
+    expect(db.getCachedAnalysis(key)).toMatchObject({ analysis: '{"summary":"second"}', job_id: null });
+  });
+
+  it('re-runs finished jobs without an issue, clearing their outcome', () => {
+    const failedId = db.insertJob({ error: 'a' }, 'fp-failed');
+    db.claimNextJob();
+    db.setCacheHit(failedId, true);
+    db.markFailed(failedId, 'Claude timed out');
+    const completedId = db.insertJob({ error: 'b' }, 'fp-completed');
+    db.claimNextJob();
+    db.completeJobWithFingerprint(completedId, 'fp-completed', 'issue-1', 'ENG-1', '{}');
+
+    expect(db.rerunJob(completedId, false)).toBe(false);
+    expect(db.rerunJob(failedId, true)).toBe(true);
+    expect(db.getJob(failedId)).toMatchObject({
+      status: 'pending', error: null, attempts: 0, cache_hit: 0, bypass_cache: 1, processed_at: null,
+    });
+    expect(db.rerunJob(failedId, false)).toBe(false);
+
+    expect(db.claimNextJob()).toMatchObject({ id: failedId, attempts: 1, bypass_cache: 1 });
+    db.setCacheHit(failedId, false);
+    expect(db.getJob(failedId)).toMatchObject({ cache_hit: 0, bypass_cache: 0 });
+  });
+
+  it('sums analysis usage per job, day, team and category', () => {
+    const usage = {
+      inputTokens: 100, outputTokens: 50, cacheReadTokens: 1000, cacheCreationTokens: 200, costUsd: 0.5, numTurns: 4, durationMs: 30000,
+    };
+    const routedId = db.insertJob({ error: 'a' }, 'fp-routed');
+    db.claimNextJob();
+    db.setRouting(routedId, { source: 'rule', team: 'ENG', reason: 'Rule matched' });
+    db.markCompletedDryRun(routedId, JSON.stringify({ category: 'database' }));
+    db.recordUsage(usage, routedId);
+    db.recordUsage({ ...usage, costUsd: 0.25, numTurns: 1 }, routedId);  // repair
+    const failedId = db.insertJob({ error: 'b' }, 'fp-failed');
+    db.recordUsage({ ...usage, costUsd: 1 }, failedId);
+    db.recordUsage({ ...usage, costUsd: 2 });  // lineu test
+
+    expect(db.getJobUsage(routedId)).toMatchObject({ jobs: 1, input_tokens: 200, cache_read_tokens: 2000, cost_usd: 0.75, num_turns: 5 });
+    expect(db.getJobUsage(999)).toMatchObject({ jobs: 0, cost_usd: 0 });
+    expect(db.getSpend()).toEqual({ today: 3.75, month: 3.75 });
+
+    // Usage from before this month counts in neither
+    const raw = new Database(testDbPath);
+    raw.prepare(`UPDATE analysis_usage SET created_at = datetime('now', '-40 days') WHERE job_id IS NULL`).run();
+    raw.close();
+
+    const summary = db.getUsageSummary();
+    expect(summary.today).toMatchObject({ jobs: 2, cost_usd: 1.75, output_tokens: 150 });
+    expect(summary.month.cost_usd).toBe(1.75);
+    expect(summary.days).toEqual([expect.objectContaining({ key: new Date().toISOString().slice(0, 10), cost_usd: 1.75 })]);
+    expect(summary.teams.map(t => [t.key, t.cost_usd])).toEqual([[null, 1], ['ENG', 0.75]]);
+    expect(summary.categories.map(c => [c.key, c.cost_usd])).toEqual([[null, 1], ['database', 0.75]]);
+  });
 });
@@ -1,68 +1,130 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
-import type { Job, ClaimedJob, DashboardJob, TimelineEntry } from './types.js';
-
-const SCHEMA = `
--- Job queue for async processing
-CREATE TABLE IF NOT EXISTS jobs (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  payload TEXT NOT NULL,
-  fingerprint TEXT NOT NULL,
-  status TEXT DEFAULT 'pending',  -- pending | processing | completed | failed | duplicate
-  error TEXT,
-  analysis TEXT,
-  linear_issue_id TEXT,
-  linear_identifier TEXT,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-  processed_at DATETIME
-);
-
-CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
-CREATE INDEX IF NOT EXISTS idx_jobs_fingerprint ON jobs(fingerprint);
-
--- Fingerprints for deduplication
-CREATE TABLE IF NOT EXISTS fingerprints (
-  hash TEXT PRIMARY KEY,
-  linear_issue_id TEXT NOT NULL,
-  linear_identifier TEXT NOT NULL,
-  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-);
-`;
+import { runMigrations } from './migrations.js';
+import { asString } from './adapters/utils.js';
+import type {
+  Job, JobStats, ClaimedJob, DashboardJob, TimelineEntry, ErrorEvent, FingerprintStrategy,
+  OccurrenceSummary, OccurrenceBucket, OccurrenceValue, OccurrenceUpdateCandidate, FingerprintIssue, IssueState,
+  IssueMirror, RoutingDecision, Snooze, AnalysisCacheKey, CachedAnalysis, AnalysisUsage, UsageTotals, UsageBreakdown,
+  UsageSummary, Spend,
+} from './types.js';
 
 export type InsertJobResult =
   | { status: 'inserted'; jobId: number }
-  | { status: 'duplicate'; jobId: number; linear_identifier?: string };
+  | { status: 'duplicate'; jobId: number; linear_identifier?: string; stale_issue_id?: string };
+
+export interface ResolvedJobResult {
+  jobId: number;
+  linear_identifier?: string;
+}
+
+export interface ReleasedLeases {
+  // Returned to pending
+  released: number[];
+  // Out of attempts: the job keeps crashing or stalling the worker
+  dead: number[];
+}
+
+export interface InsertJobOptions {
+  event?: ErrorEvent;
+  source?: string;
+  fingerprintStrategy?: FingerprintStrategy;
+  // Deduplication only: how long a checked issue state is trusted (ms)
+  issueStateTtl?: number;
+}
 
 export interface LineuDatabase {
   // Jobs
-  insertJob: (payload: Record<string, unknown>, fingerprint: string) => number;
-  insertJobIfNotDuplicate: (payload: Record<string, unknown>, fingerprint: string, windowDays: number) => InsertJobResult;
+  insertJob: (payload: Record<string, unknown>, fingerprint: string, options?: InsertJobOptions) => number;
+  insertJobIfNotDuplicate: (
+    payload: Record<string, unknown>,
+    fingerprint: string,
+    windowDays: number,
+    options?: InsertJobOptions
+  ) => InsertJobResult;
   getJob: (id: number) => Job | undefined;
   getPendingJobs: (limit: number) => Job[];
-  claimNextJob: () => ClaimedJob | undefined;
+  claimNextJob: (workerId?: string, leaseMs?: number) => ClaimedJob | undefined;
+  renewLease: (id: number, workerId: string, leaseMs: number) => boolean;
+  releaseExpiredLeases: (maxAttempts?: number) => ReleasedLeases;
   markProcessing: (id: number) => void;
-  markCompleted: (id: number, linearIssueId: string, linearIdentifier: string, analysis: string) => void;
-  markCompletedDryRun: (id: number, analysis: string) => void;
-  markFailed: (id: number, error: string) => void;
-  markDuplicate: (id: number, linearIdentifier: string) => void;
+  // Outcomes of a claimed job. Each only applies while workerId still holds the
+  // job (it is processing and was not reclaimed after its lease expired) and
+  // returns whether it did
+  markCompleted: (id: number, linearIssueId: string, linearIdentifier: string, analysis: string, workerId?: string) => boolean;
+  markCompletedDryRun: (id: number, analysis: string, workerId?: string) => boolean;
+  setRouting: (id: number, routing: RoutingDecision) => void;
+  markSkipped: (id: number, analysis: string, workerId?: string) => boolean;
+  markFailed: (id: number, error: string, workerId?: string) => boolean;
+  markRetry: (id: number, error: string, delayMs: number, workerId?: string) => boolean;
+  markDead: (id: number, error: string, workerId?: string) => boolean;
+  markDuplicate: (id: number, linearIdentifier: string, workerId?: string) => boolean;
+  markRegression: (id: number, fingerprint: string, linearIdentifier: string, reopened: boolean, workerId?: string) => boolean;
+  // Links the issue created from the dashboard for a completed dry-run job;
+  // returns false when the job already has an issue
+  attachIssue: (id: number, fingerprint: string, linearIssueId: string, linearIdentifier: string) => boolean;
+  // Records whether the analysis came from the cache and clears the job's bypass request
+  setCacheHit: (id: number, hit: boolean) => void;
+  // Queues a failed, dead, skipped or dry-run job again; returns false for any other job
+  rerunJob: (id: number, bypassCache: boolean) => boolean;
+  recordResolved: (payload: Record<string, unknown>, fingerprint: string, options?: InsertJobOptions) => ResolvedJobResult;
+  // Returns the job ID of the suppressed event
+  recordSuppressed: (
+    payload: Record<string, unknown>,
+    fingerprint: string,
+    suppressedBy: string,
+    options?: InsertJobOptions
+  ) => number;
 
   // Fingerprints
   findFingerprint: (hash: string, windowDays: number) => { linear_identifier: string } | undefined;
   findExistingByFingerprint: (hash: string, windowDays: number) => { type: 'job' | 'completed'; jobId?: number; linear_identifier?: string } | undefined;
   insertFingerprint: (hash: string, linearIssueId: string, linearIdentifier: string) => void;
+  getFingerprintIssue: (hash: string, stateTtlMs: number) => FingerprintIssue | undefined;
+  updateIssueState: (hash: string, state: IssueState) => void;
+  // Returns the fingerprints linked to the issue
+  syncIssue: (mirror: IssueMirror) => string[];
 
-  // Atomic operations
+  // Atomic operations; false (and nothing saved) when workerId no longer holds the job
   completeJobWithFingerprint: (
     jobId: number,
     fingerprint: string,
     linearIssueId: string,
     linearIdentifier: string,
-    analysis: string
-  ) => void;
+    analysis: string,
+    regressionOf?: string,
+    workerId?: string
+  ) => boolean;
+
+  // Occurrences
+  getOccurrences: (fingerprint: string) => OccurrenceSummary | undefined;
+  getOccurrenceUpdateCandidates: () => OccurrenceUpdateCandidate[];
+  getLatestOccurrence: (fingerprint: string) => Pick<Job, 'payload' | 'event'> | undefined;
+  markOccurrenceNotified: (fingerprint: string, count: number) => void;
+  markPriorityBumped: (fingerprint: string) => void;
+
+  // Snoozes
+  snoozeFingerprint: (hash: string, durationMs: number, reason?: string) => Snooze;
+  // Returns false when the fingerprint was not snoozed
+  unsnoozeFingerprint: (hash: string) => boolean;
+  getActiveSnooze: (hash: string) => Snooze | undefined;
+
+  // Analysis cache
+  getCachedAnalysis: (key: AnalysisCacheKey) => CachedAnalysis | undefined;
+  saveCachedAnalysis: (key: AnalysisCacheKey, analysis: string, jobId?: number) => void;
+
+  // Analysis usage; jobId is omitted for lineu test
+  recordUsage: (usage: AnalysisUsage, jobId?: number) => void;
+  getJobUsage: (id: number) => UsageTotals;
+  getSpend: () => Spend;
+  getUsageSummary: () => UsageSummary;
+
+  // Webhook authentication
+  recordWebhookRejection: (route: string, reason: string) => void;
 
   // Stats
-  getStats: () => { total: number; pending: number; completed: number; failed: number; duplicate: number };
+  getStats: () => JobStats;
 
   // Dashboard
   getRecentJobs: () => DashboardJob[];
@@ -71,31 +133,99 @@ export interface LineuDatabase {
   close: () => void;
 }
 
+const DEFAULT_WORKER_ID = 'local';
+const DEFAULT_LEASE_MS = 60000;
+const DEFAULT_ISSUE_STATE_TTL_MS = 300000;
+
+// SQLite date modifiers take whole seconds
+function toSeconds(ms: number): number {
+  return Math.ceil(ms / 1000);
+}
+
+interface JobColumns {
+  payload: string;
+  fingerprint: string;
+  event: string | null;
+  alert_state: string | null;
+  source: string | null;
+  fingerprint_strategy: string | null;
+}
+
+// Named statement parameters for a new job row
+function jobColumns(payload: Record<string, unknown>, fingerprint: string, options: InsertJobOptions): JobColumns {
+  return {
+    payload: JSON.stringify(payload),
+    fingerprint,
+    event: options.event ? JSON.stringify(options.event) : null,
+    alert_state: options.event?.alertState ?? null,
+    source: options.source ?? null,
+    fingerprint_strategy: options.fingerprintStrategy ?? null,
+  };
+}
+
+// Hourly occurrence buckets older than this are pruned as new hits arrive
+const OCCURRENCE_HOURS_RETENTION_DAYS = 30;
+// Environments/hosts listed per fingerprint, most frequent first
+const OCCURRENCE_VALUES_LIMIT = 10;
+// Cached analyses older than this are pruned as new ones are saved
+const ANALYSIS_CACHE_RETENTION_DAYS = 30;
+// Days covered by the dashboard usage breakdowns, today included
+const USAGE_SUMMARY_DAYS = 30;
+
+// Columns of a UsageTotals row, over analysis_usage rows aliased u
+const USAGE_TOTALS = `
+  COUNT(DISTINCT u.job_id) as jobs,
+  COALESCE(SUM(u.input_tokens), 0) as input_tokens,
+  COALESCE(SUM(u.output_tokens), 0) as output_tokens,
+  COALESCE(SUM(u.cache_read_tokens), 0) as cache_read_tokens,
+  COALESCE(SUM(u.cache_creation_tokens), 0) as cache_creation_tokens,
+  COALESCE(SUM(u.cost_usd), 0) as cost_usd,
+  COALESCE(SUM(u.num_turns), 0) as num_turns,
+  COALESCE(SUM(u.duration_ms), 0) as duration_ms
+`;
+
+interface OccurrenceDimensions {
+  environment?: string;
+  host?: string;
+}
+
+// Where the error happened, from the normalized event or common payload fields
+function occurrenceDimensions(payload: Record<string, unknown>, event?: ErrorEvent): OccurrenceDimensions {
+  const tags = event?.tags ?? {};
+  return {
+    environment: event?.environment ?? asString(payload.environment) ?? asString(payload.env),
+    host: tags.server_name ?? tags.host ?? tags.hostname ?? tags.instance
+      ?? asString(payload.host) ?? asString(payload.hostname) ?? asString(payload.server_name),
+  };
+}
+
 export function createDatabase(dbPath: string): LineuDatabase {
   // Ensure directory exists
   fs.mkdirSync(path.dirname(dbPath), { recursive: true });
 
   const db = new Database(dbPath);
   db.pragma('journal_mode = WAL');
-  db.exec(SCHEMA);
 
-  // Migration: add analysis column if missing (for existing databases)
-  const columns = db.prepare(`PRAGMA table_info(jobs)`).all() as { name: string }[];
-  if (!columns.some(c => c.name === 'analysis')) {
-    db.exec(`ALTER TABLE jobs ADD COLUMN analysis TEXT`);
+  // Bring the schema up to date (see src/migrations.ts)
+  const applied = runMigrations(db);
+  if (applied.length > 0) {
+    console.log(`[DB] Applied migrations: ${applied.map(m => `${m.version} ${m.name}`).join(', ')}`);
   }
 
   const insertJobStmt = db.prepare(`
-    INSERT INTO jobs (payload, fingerprint) VALUES (?, ?)
+    INSERT INTO jobs (payload, fingerprint, event, alert_state, source, fingerprint_strategy)
+    VALUES (@payload, @fingerprint, @event, @alert_state, @source, @fingerprint_strategy)
   `);
 
   const insertDuplicateJobStmt = db.prepare(`
-    INSERT INTO jobs (payload, fingerprint, status, linear_identifier, processed_at)
-    VALUES (?, ?, 'duplicate', ?, CURRENT_TIMESTAMP)
+    INSERT INTO jobs (payload, fingerprint, event, alert_state, source, fingerprint_strategy, status, linear_identifier, processed_at)
+    VALUES (@payload, @fingerprint, @event, @alert_state, @source, @fingerprint_strategy, 'duplicate', @linear_identifier, CURRENT_TIMESTAMP)
   `);
 
   const getJobStmt = db.prepare(`
-    SELECT id, payload, fingerprint, status, error, analysis, linear_issue_id, linear_identifier, created_at, processed_at
+    SELECT id, payload, fingerprint, status, error, analysis, event, alert_state, source, fingerprint_strategy,
+      worker_id, claimed_at, lease_expires_at, attempts, next_attempt_at, regression_of, routing, suppressed_by,
+      cache_hit, bypass_cache, linear_issue_id, linear_identifier, created_at, processed_at
     FROM jobs WHERE id = ?
   `);
 
@@ -108,34 +238,204 @@ export function createDatabase(dbPath: string): LineuDatabase {
 
   const claimNextJobStmt = db.prepare(`
     UPDATE jobs
-    SET status = 'processing'
+    SET status = 'processing',
+        worker_id = ?,
+        claimed_at = CURRENT_TIMESTAMP,
+        lease_expires_at = datetime('now', ? || ' seconds'),
+        attempts = COALESCE(attempts, 0) + 1
     WHERE id = (
       SELECT id FROM jobs
       WHERE status = 'pending'
+      AND (next_attempt_at IS NULL OR next_attempt_at <= datetime('now'))
+      -- One job per fingerprint at a time: the next one is then marked duplicate
+      AND fingerprint NOT IN (SELECT fingerprint FROM jobs WHERE status = 'processing')
       ORDER BY created_at ASC
       LIMIT 1
     )
-    RETURNING id, payload, fingerprint
+    RETURNING id, payload, fingerprint, event, attempts, bypass_cache
   `);
 
+  const renewLeaseStmt = db.prepare(`
+    UPDATE jobs SET lease_expires_at = datetime('now', ? || ' seconds')
+    WHERE id = ? AND worker_id = ? AND status = 'processing'
+  `);
+
+  // Processing jobs whose worker stopped renewing the lease, or that were
+  // claimed before leases existed (NULL lease)
+  const expiredLeaseCondition = `
+    status = 'processing'
+    AND (lease_expires_at IS NULL OR lease_expires_at < datetime('now'))
+  `;
+
+  const markExpiredDeadStmt = db.prepare(`
+    UPDATE jobs
+    SET status = 'dead', error = 'Worker lease expired ' || attempts || ' times', worker_id = NULL,
+        lease_expires_at = NULL, processed_at = CURRENT_TIMESTAMP
+    WHERE ${expiredLeaseCondition} AND attempts >= ?
+    RETURNING id
+  `);
+
+  const releaseExpiredLeasesStmt = db.prepare(`
+    UPDATE jobs
+    SET status = 'pending', worker_id = NULL, lease_expires_at = NULL
+    WHERE ${expiredLeaseCondition}
+    RETURNING id
+  `);
+
+  const releaseExpiredLeasesTx = db.transaction((maxAttempts: number): ReleasedLeases => {
+    const dead = (markExpiredDeadStmt.all(maxAttempts) as { id: number }[]).map(row => row.id);
+    const released = (releaseExpiredLeasesStmt.all() as { id: number }[]).map(row => row.id);
+    return { released, dead };
+  });
+
   const markProcessingStmt = db.prepare(`
     UPDATE jobs SET status = 'processing' WHERE id = ?
   `);
 
+  // Final updates of a claimed job: a worker whose lease expired must not
+  // overwrite the job once another worker has reclaimed it
+  const heldBy = `id = ? AND worker_id = ? AND status = 'processing'`;
+
   const markCompletedStmt = db.prepare(`
-    UPDATE jobs SET status = 'completed', linear_issue_id = ?, linear_identifier = ?, analysis = ?, processed_at = CURRENT_TIMESTAMP WHERE id = ?
+    UPDATE jobs SET status = 'completed', linear_issue_id = ?, linear_identifier = ?, analysis = ?, processed_at = CURRENT_TIMESTAMP
+    WHERE ${heldBy}
   `);
 
   const markCompletedDryRunStmt = db.prepare(`
-    UPDATE jobs SET status = 'completed', analysis = ?, processed_at = CURRENT_TIMESTAMP WHERE id = ?
+    UPDATE jobs SET status = 'completed', analysis = ?, processed_at = CURRENT_TIMESTAMP WHERE ${heldBy}
+  `);
+
+  const attachIssueStmt = db.prepare(`
+    UPDATE jobs SET linear_issue_id = ?, linear_identifier = ?
+    WHERE id = ? AND status = 'completed' AND linear_issue_id IS NULL
+  `);
+
+  const setRoutingStmt = db.prepare(`
+    UPDATE jobs SET routing = ? WHERE id = ?
+  `);
+
+  const markSkippedStmt = db.prepare(`
+    UPDATE jobs SET status = 'skipped', analysis = ?, processed_at = CURRENT_TIMESTAMP WHERE ${heldBy}
   `);
 
   const markFailedStmt = db.prepare(`
-    UPDATE jobs SET status = 'failed', error = ?, processed_at = CURRENT_TIMESTAMP WHERE id = ?
+    UPDATE jobs SET status = 'failed', error = ?, processed_at = CURRENT_TIMESTAMP WHERE ${heldBy}
+  `);
+
+  const markRetryStmt = db.prepare(`
+    UPDATE jobs
+    SET status = 'pending', error = ?, next_attempt_at = datetime('now', ? || ' seconds'),
+        worker_id = NULL, lease_expires_at = NULL
+    WHERE ${heldBy}
+  `);
+
+  const markDeadStmt = db.prepare(`
+    UPDATE jobs SET status = 'dead', error = ?, processed_at = CURRENT_TIMESTAMP WHERE ${heldBy}
   `);
 
   const markDuplicateStmt = db.prepare(`
-    UPDATE jobs SET status = 'duplicate', linear_identifier = ?, processed_at = CURRENT_TIMESTAMP WHERE id = ?
+    UPDATE jobs SET status = 'duplicate', linear_identifier = ?, processed_at = CURRENT_TIMESTAMP WHERE ${heldBy}
+  `);
+
+  const markRegressionStmt = db.prepare(`
+    UPDATE jobs SET status = 'regression', linear_identifier = ?, regression_of = ?, processed_at = CURRENT_TIMESTAMP
+    WHERE ${heldBy}
+  `);
+
+  // A new issue replacing a completed one: the job was just completed by its worker
+  const setRegressionOfStmt = db.prepare(`
+    UPDATE jobs SET status = 'regression', regression_of = ? WHERE id = ?
+  `);
+
+  const setCacheHitStmt = db.prepare(`
+    UPDATE jobs SET cache_hit = ?, bypass_cache = 0 WHERE id = ?
+  `);
+
+  // Dry-run jobs are completed without an issue
+  const rerunJobStmt = db.prepare(`
+    UPDATE jobs
+    SET status = 'pending', error = NULL, analysis = NULL, routing = NULL, cache_hit = 0, bypass_cache = ?,
+        attempts = 0, next_attempt_at = NULL, worker_id = NULL, lease_expires_at = NULL, processed_at = NULL
+    WHERE id = ?
+    AND (status IN ('failed', 'dead', 'skipped') OR (status = 'completed' AND linear_issue_id IS NULL))
+  `);
+
+  const getCachedAnalysisStmt = db.prepare(`
+    SELECT analysis, job_id, created_at FROM analysis_cache
+    WHERE fingerprint = @fingerprint AND head_sha = @headSha AND template_hash = @templateHash
+      AND repair_template_hash = @repairTemplateHash AND teams_hash = @teamsHash AND analyzer = @analyzer
+  `);
+
+  // A fresh analysis (a bypassed cache) replaces the cached one
+  const upsertCachedAnalysisStmt = db.prepare(`
+    INSERT INTO analysis_cache (fingerprint, head_sha, template_hash, repair_template_hash, teams_hash, analyzer, analysis, job_id)
+    VALUES (@fingerprint, @headSha, @templateHash, @repairTemplateHash, @teamsHash, @analyzer, @analysis, @jobId)
+    ON CONFLICT (fingerprint, head_sha, template_hash, repair_template_hash, teams_hash, analyzer) DO UPDATE SET
+      analysis = excluded.analysis,
+      job_id = excluded.job_id,
+      created_at = CURRENT_TIMESTAMP
+  `);
+
+  const pruneAnalysisCacheStmt = db.prepare(`
+    DELETE FROM analysis_cache WHERE created_at < datetime('now', '-' || ? || ' days')
+  `);
+
+  const saveCachedAnalysisTx = db.transaction((key: AnalysisCacheKey, analysis: string, jobId: number | null) => {
+    upsertCachedAnalysisStmt.run({ ...key, analysis, jobId });
+    pruneAnalysisCacheStmt.run(ANALYSIS_CACHE_RETENTION_DAYS);
+  });
+
+  const insertUsageStmt = db.prepare(`
+    INSERT INTO analysis_usage (
+      job_id, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd, num_turns, duration_ms
+    ) VALUES (
+      @jobId, @inputTokens, @outputTokens, @cacheReadTokens, @cacheCreationTokens, @costUsd, @numTurns, @durationMs
+    )
+  `);
+
+  const getJobUsageStmt = db.prepare(`
+    SELECT ${USAGE_TOTALS} FROM analysis_usage u WHERE u.job_id = ?
+  `);
+
+  // Days and months are UTC, like every timestamp in the database
+  const getSpendStmt = db.prepare(`
+    SELECT
+      COALESCE(SUM(CASE WHEN created_at >= date('now') THEN cost_usd END), 0) as today,
+      COALESCE(SUM(cost_usd), 0) as month
+    FROM analysis_usage
+    WHERE created_at >= date('now', 'start of month')
+  `);
+
+  // modifier: 'start of day' or 'start of month'
+  const getUsageSinceStmt = db.prepare(`
+    SELECT ${USAGE_TOTALS} FROM analysis_usage u WHERE u.created_at >= date('now', ?)
+  `);
+
+  const getUsageByDayStmt = db.prepare(`
+    SELECT date(u.created_at) as key, ${USAGE_TOTALS}
+    FROM analysis_usage u
+    WHERE u.created_at >= date('now', '-' || ? || ' days')
+    GROUP BY key
+    ORDER BY key ASC
+  `);
+
+  // Team the job was routed to; jobs that failed before routing have none
+  const getUsageByTeamStmt = db.prepare(`
+    SELECT json_extract(j.routing, '$.team') as key, ${USAGE_TOTALS}
+    FROM analysis_usage u
+    LEFT JOIN jobs j ON j.id = u.job_id
+    WHERE u.created_at >= date('now', '-' || ? || ' days')
+    GROUP BY key
+    ORDER BY cost_usd DESC
+  `);
+
+  const getUsageByCategoryStmt = db.prepare(`
+    SELECT json_extract(j.analysis, '$.category') as key, ${USAGE_TOTALS}
+    FROM analysis_usage u
+    LEFT JOIN jobs j ON j.id = u.job_id
+    WHERE u.created_at >= date('now', '-' || ? || ' days')
+    GROUP BY key
+    ORDER BY cost_usd DESC
   `);
 
   const findFingerprintStmt = db.prepare(`
@@ -143,6 +443,55 @@ export function createDatabase(dbPath: string): LineuDatabase {
     WHERE hash = ? AND created_at > datetime('now', '-' || ? || ' days')
   `);
 
+  // Webhook-time deduplication: issues last known to be open, even when that
+  // state is past its TTL (the caller refreshes it); anything else is queued
+  // so the worker can check the issue (regressions)
+  const findOpenFingerprintStmt = db.prepare(`
+    SELECT linear_issue_id, linear_identifier,
+      CASE
+        WHEN issue_synced_at IS NOT NULL OR issue_state_checked_at > datetime('now', '-' || ? || ' seconds')
+        THEN 0 ELSE 1
+      END as stale
+    FROM fingerprints
+    WHERE hash = ? AND created_at > datetime('now', '-' || ? || ' days')
+    -- Fingerprints from before issue states were tracked have none: treat them as open
+    AND COALESCE(issue_state, 'open') = 'open'
+  `);
+
+  const getFingerprintIssueStmt = db.prepare(`
+    SELECT hash, linear_issue_id, linear_identifier, created_at,
+      CASE
+        WHEN issue_synced_at IS NOT NULL OR issue_state_checked_at > datetime('now', '-' || ? || ' seconds')
+        THEN issue_state
+      END as issue_state
+    FROM fingerprints WHERE hash = ?
+  `);
+
+  const updateIssueStateStmt = db.prepare(`
+    UPDATE fingerprints SET issue_state = ?, issue_state_checked_at = CURRENT_TIMESTAMP WHERE hash = ?
+  `);
+
+  const syncIssueStmt = db.prepare(`
+    UPDATE fingerprints
+    SET linear_identifier = COALESCE(@identifier, linear_identifier),
+        issue_state = @state,
+        issue_state_name = @stateName,
+        issue_assignee = @assignee,
+        issue_team = @team,
+        issue_closed_at = @closedAt,
+        issue_synced_at = CURRENT_TIMESTAMP,
+        issue_state_checked_at = CURRENT_TIMESTAMP
+    WHERE linear_issue_id = @issueId
+    RETURNING hash
+  `);
+
+  // A reopened issue deduplicates again for a full window
+  const reopenFingerprintStmt = db.prepare(`
+    UPDATE fingerprints
+    SET created_at = CURRENT_TIMESTAMP, resolved_at = NULL, issue_state = 'open', issue_state_checked_at = CURRENT_TIMESTAMP
+    WHERE hash = ?
+  `);
+
   const findPendingJobByFingerprintStmt = db.prepare(`
     SELECT id FROM jobs
     WHERE fingerprint = ? AND status IN ('pending', 'processing')
@@ -151,9 +500,65 @@ export function createDatabase(dbPath: string): LineuDatabase {
     LIMIT 1
   `);
 
+  const findLinkedIssueStmt = db.prepare(`
+    SELECT linear_identifier FROM fingerprints WHERE hash = ?
+  `);
+
+  const insertResolvedJobStmt = db.prepare(`
+    INSERT INTO jobs (payload, fingerprint, event, alert_state, source, fingerprint_strategy, status, linear_identifier, processed_at)
+    VALUES (@payload, @fingerprint, @event, 'resolved', @source, @fingerprint_strategy, 'resolved', @linear_identifier, CURRENT_TIMESTAMP)
+  `);
+
+  const insertSuppressedJobStmt = db.prepare(`
+    INSERT INTO jobs (payload, fingerprint, event, alert_state, source, fingerprint_strategy, status, suppressed_by, processed_at)
+    VALUES (@payload, @fingerprint, @event, @alert_state, @source, @fingerprint_strategy, 'suppressed', @suppressed_by, CURRENT_TIMESTAMP)
+  `);
+
+  // Snoozing again replaces the previous snooze
+  const upsertSnoozeStmt = db.prepare(`
+    INSERT INTO snoozes (fingerprint, until, reason)
+    VALUES (?, datetime('now', ? || ' seconds'), ?)
+    ON CONFLICT (fingerprint) DO UPDATE SET
+      until = excluded.until,
+      reason = excluded.reason,
+      created_at = CURRENT_TIMESTAMP
+    RETURNING fingerprint, until, reason, created_at
+  `);
+
+  const deleteSnoozeStmt = db.prepare(`
+    DELETE FROM snoozes WHERE fingerprint = ?
+  `);
+
+  const getActiveSnoozeStmt = db.prepare(`
+    SELECT fingerprint, until, reason, created_at FROM snoozes
+    WHERE fingerprint = ? AND until > datetime('now')
+  `);
+
+  const markFingerprintResolvedStmt = db.prepare(`
+    UPDATE fingerprints SET resolved_at = CURRENT_TIMESTAMP WHERE hash = ?
+  `);
+
+  // A fingerprint links to its latest issue: a new issue (after the window,
+  // or a regression) replaces the previous link
   const insertFingerprintStmt = db.prepare(`
-    INSERT OR IGNORE INTO fingerprints (hash, linear_issue_id, linear_identifier)
-    VALUES (?, ?, ?)
+    INSERT INTO fingerprints (hash, linear_issue_id, linear_identifier, issue_state, issue_state_checked_at)
+    VALUES (?, ?, ?, 'open', CURRENT_TIMESTAMP)
+    ON CONFLICT (hash) DO UPDATE SET
+      linear_issue_id = excluded.linear_issue_id,
+      linear_identifier = excluded.linear_identifier,
+      created_at = CURRENT_TIMESTAMP,
+      resolved_at = NULL,
+      issue_state = 'open',
+      issue_state_checked_at = CURRENT_TIMESTAMP,
+      issue_state_name = NULL,
+      issue_assignee = NULL,
+      issue_team = NULL,
+      issue_closed_at = NULL,
+      issue_synced_at = NULL
+  `);
+
+  const markOccurrencesReportedStmt = db.prepare(`
+    UPDATE occurrences SET notified_count = count, notified_at = CURRENT_TIMESTAMP WHERE fingerprint = ?
   `);
 
   // Atomic transaction: insert fingerprint + mark job completed
@@ -162,63 +567,240 @@ export function createDatabase(dbPath: string): LineuDatabase {
     fingerprint: string,
     linearIssueId: string,
     linearIdentifier: string,
-    analysis: string
-  ) => {
+    analysis: string,
+    regressionOf: string | undefined,
+    workerId: string
+  ): boolean => {
+    if (markCompletedStmt.run(linearIssueId, linearIdentifier, analysis, jobId, workerId).changes === 0) {
+      return false;
+    }
+    if (regressionOf) {
+      setRegressionOfStmt.run(regressionOf, jobId);
+    }
+    insertFingerprintStmt.run(fingerprint, linearIssueId, linearIdentifier);
+    // The new issue already describes the occurrences so far
+    markOccurrencesReportedStmt.run(fingerprint);
+    return true;
+  });
+
+  const attachIssueTx = db.transaction((
+    jobId: number,
+    fingerprint: string,
+    linearIssueId: string,
+    linearIdentifier: string
+  ): boolean => {
+    if (attachIssueStmt.run(linearIssueId, linearIdentifier, jobId).changes === 0) {
+      return false;
+    }
     insertFingerprintStmt.run(fingerprint, linearIssueId, linearIdentifier);
-    markCompletedStmt.run(linearIssueId, linearIdentifier, analysis, jobId);
+    markOccurrencesReportedStmt.run(fingerprint);
+    return true;
+  });
+
+  const upsertOccurrenceStmt = db.prepare(`
+    INSERT INTO occurrences (fingerprint, count, first_seen, last_seen)
+    VALUES (?, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    ON CONFLICT (fingerprint) DO UPDATE SET count = count + 1, last_seen = CURRENT_TIMESTAMP
+  `);
+
+  const upsertOccurrenceHourStmt = db.prepare(`
+    INSERT INTO occurrence_hours (fingerprint, hour, count)
+    VALUES (?, strftime('%Y-%m-%d %H:00', 'now'), 1)
+    ON CONFLICT (fingerprint, hour) DO UPDATE SET count = count + 1
+  `);
+
+  const pruneOccurrenceHoursStmt = db.prepare(`
+    DELETE FROM occurrence_hours
+    WHERE fingerprint = ? AND hour < strftime('%Y-%m-%d %H:00', 'now', '-' || ? || ' days')
+  `);
+
+  const upsertOccurrenceDimensionStmt = db.prepare(`
+    INSERT INTO occurrence_dimensions (fingerprint, dimension, value, count, last_seen)
+    VALUES (?, ?, ?, 1, CURRENT_TIMESTAMP)
+    ON CONFLICT (fingerprint, dimension, value) DO UPDATE SET count = count + 1, last_seen = CURRENT_TIMESTAMP
+  `);
+
+  const getOccurrenceStmt = db.prepare(`
+    SELECT fingerprint, count, first_seen, last_seen FROM occurrences WHERE fingerprint = ?
+  `);
+
+  const getOccurrenceHoursStmt = db.prepare(`
+    SELECT hour, count FROM occurrence_hours
+    WHERE fingerprint = ? AND hour > strftime('%Y-%m-%d %H:00', 'now', '-24 hours')
+    ORDER BY hour ASC
+  `);
+
+  const getOccurrenceValuesStmt = db.prepare(`
+    SELECT value, count, last_seen FROM occurrence_dimensions
+    WHERE fingerprint = ? AND dimension = ?
+    ORDER BY count DESC, last_seen DESC
+    LIMIT ?
+  `);
+
+  // Fingerprints with an issue that either got hits since the last comment
+  // or were hit in the last hour (priority bumps)
+  const getOccurrenceUpdateCandidatesStmt = db.prepare(`
+    SELECT o.fingerprint, o.count, o.notified_count, o.notified_at, o.priority_bumped_at, o.first_seen, o.last_seen,
+      f.linear_issue_id, f.linear_identifier,
+      COALESCE((
+        SELECT h.count FROM occurrence_hours h
+        WHERE h.fingerprint = o.fingerprint AND h.hour = strftime('%Y-%m-%d %H:00', 'now')
+      ), 0) as hour_count
+    FROM occurrences o
+    JOIN fingerprints f ON f.hash = o.fingerprint
+    WHERE (o.count > o.notified_count OR o.last_seen > datetime('now', '-1 hour'))
+    -- Closed issues are left alone; a new hit on them is a regression
+    AND COALESCE(f.issue_state, 'open') = 'open'
+    -- Snoozed fingerprints keep counting, but their issue is not updated
+    AND NOT EXISTS (SELECT 1 FROM snoozes s WHERE s.fingerprint = o.fingerprint AND s.until > datetime('now'))
+  `);
+
+  const getLatestOccurrenceStmt = db.prepare(`
+    SELECT payload, event FROM jobs
+    WHERE fingerprint = ? AND status != 'resolved'
+    ORDER BY id DESC
+    LIMIT 1
+  `);
+
+  const markOccurrenceNotifiedStmt = db.prepare(`
+    UPDATE occurrences SET notified_count = ?, notified_at = CURRENT_TIMESTAMP WHERE fingerprint = ?
+  `);
+
+  const markPriorityBumpedStmt = db.prepare(`
+    UPDATE occurrences SET priority_bumped_at = CURRENT_TIMESTAMP WHERE fingerprint = ?
+  `);
+
+  // Counts a webhook hit, whether queued, duplicate, suppressed or resolved;
+  // always runs inside the transaction that records its job
+  const recordOccurrence = (fingerprint: string, dimensions: OccurrenceDimensions) => {
+    upsertOccurrenceStmt.run(fingerprint);
+    upsertOccurrenceHourStmt.run(fingerprint);
+    pruneOccurrenceHoursStmt.run(fingerprint, OCCURRENCE_HOURS_RETENTION_DAYS);
+    if (dimensions.environment) {
+      upsertOccurrenceDimensionStmt.run(fingerprint, 'environment', dimensions.environment);
+    }
+    if (dimensions.host) {
+      upsertOccurrenceDimensionStmt.run(fingerprint, 'host', dimensions.host);
+    }
+  };
+
+  const insertJobTx = db.transaction((columns: JobColumns, dimensions: OccurrenceDimensions): number => {
+    const result = insertJobStmt.run(columns);
+    recordOccurrence(columns.fingerprint, dimensions);
+    return Number(result.lastInsertRowid);
   });
 
   // Atomic transaction: check for duplicate and insert appropriately
   const insertJobIfNotDuplicateTx = db.transaction((
-    payload: string,
-    fingerprint: string,
-    windowDays: number
+    columns: JobColumns,
+    windowDays: number,
+    issueStateTtl: number,
+    dimensions: OccurrenceDimensions
   ): InsertJobResult => {
-    // Check completed fingerprints first
-    const completed = findFingerprintStmt.get(fingerprint, windowDays) as { linear_identifier: string } | undefined;
+    const { fingerprint } = columns;
+    recordOccurrence(fingerprint, dimensions);
+    // Check completed fingerprints whose issue was last known to be open first
+    const completed = findOpenFingerprintStmt.get(toSeconds(issueStateTtl), fingerprint, windowDays) as
+      { linear_issue_id: string; linear_identifier: string; stale: number } | undefined;
     if (completed) {
       // Insert as duplicate, linking to existing Linear issue
-      const result = insertDuplicateJobStmt.run(payload, fingerprint, completed.linear_identifier);
-      return { status: 'duplicate', jobId: Number(result.lastInsertRowid), linear_identifier: completed.linear_identifier };
+      const result = insertDuplicateJobStmt.run({ ...columns, linear_identifier: completed.linear_identifier });
+      return {
+        status: 'duplicate',
+        jobId: Number(result.lastInsertRowid),
+        linear_identifier: completed.linear_identifier,
+        ...(completed.stale === 1 && { stale_issue_id: completed.linear_issue_id }),
+      };
     }
     // Check pending/processing jobs
     const pending = findPendingJobByFingerprintStmt.get(fingerprint, windowDays) as { id: number } | undefined;
     if (pending) {
       // Insert as duplicate, no Linear issue yet
-      const result = insertDuplicateJobStmt.run(payload, fingerprint, null);
+      const result = insertDuplicateJobStmt.run({ ...columns, linear_identifier: null });
       return { status: 'duplicate', jobId: Number(result.lastInsertRowid) };
     }
     // No duplicate found, insert as pending
-    const result = insertJobStmt.run(payload, fingerprint);
+    const result = insertJobStmt.run(columns);
     return { status: 'inserted', jobId: Number(result.lastInsertRowid) };
   });
 
+  // Atomic transaction: record a resolved notification against its fingerprint
+  const recordResolvedTx = db.transaction((columns: JobColumns, dimensions: OccurrenceDimensions): ResolvedJobResult => {
+    const { fingerprint } = columns;
+    recordOccurrence(fingerprint, dimensions);
+    const linked = findLinkedIssueStmt.get(fingerprint) as { linear_identifier: string } | undefined;
+    const result = insertResolvedJobStmt.run({ ...columns, linear_identifier: linked?.linear_identifier ?? null });
+    markFingerprintResolvedStmt.run(fingerprint);
+    return { jobId: Number(result.lastInsertRowid), linear_identifier: linked?.linear_identifier };
+  });
+
+  const recordSuppressedTx = db.transaction((columns: JobColumns, suppressedBy: string, dimensions: OccurrenceDimensions): number => {
+    recordOccurrence(columns.fingerprint, dimensions);
+    return Number(insertSuppressedJobStmt.run({ ...columns, suppressed_by: suppressedBy }).lastInsertRowid);
+  });
+
+  const markRegressionTx = db.transaction((
+    jobId: number,
+    fingerprint: string,
+    linearIdentifier: string,
+    reopened: boolean,
+    workerId: string
+  ): boolean => {
+    if (markRegressionStmt.run(linearIdentifier, linearIdentifier, jobId, workerId).changes === 0) {
+      return false;
+    }
+    if (reopened) {
+      reopenFingerprintStmt.run(fingerprint);
+    }
+    return true;
+  });
+
+  const insertWebhookRejectionStmt = db.prepare(`
+    INSERT INTO webhook_rejections (route, reason) VALUES (?, ?)
+  `);
+
   const getStatsStmt = db.prepare(`
     SELECT
       COUNT(*) as total,
       COALESCE(SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END), 0) as pending,
       COALESCE(SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END), 0) as completed,
       COALESCE(SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END), 0) as failed,
-      COALESCE(SUM(CASE WHEN status = 'duplicate' THEN 1 ELSE 0 END), 0) as duplicate
+      COALESCE(SUM(CASE WHEN status = 'dead' THEN 1 ELSE 0 END), 0) as dead,
+      COALESCE(SUM(CASE WHEN status = 'duplicate' THEN 1 ELSE 0 END), 0) as duplicate,
+      COALESCE(SUM(CASE WHEN status = 'resolved' THEN 1 ELSE 0 END), 0) as resolved,
+      COALESCE(SUM(CASE WHEN status = 'regression' THEN 1 ELSE 0 END), 0) as regression,
+      COALESCE(SUM(CASE WHEN status = 'skipped' THEN 1 ELSE 0 END), 0) as skipped,
+      COALESCE(SUM(CASE WHEN status = 'suppressed' THEN 1 ELSE 0 END), 0) as suppressed,
+      (SELECT COUNT(*) FROM webhook_rejections) as rejected,
+      (SELECT COUNT(DISTINCT linear_issue_id) FROM fingerprints WHERE COALESCE(issue_state, 'open') = 'open') as open_issues,
+      (SELECT COUNT(DISTINCT linear_issue_id) FROM fingerprints WHERE issue_state = 'completed') as completed_issues,
+      (SELECT COUNT(DISTINCT linear_issue_id) FROM fingerprints WHERE issue_state = 'canceled') as canceled_issues
     FROM jobs
   `);
 
   const getRecentJobsStmt = db.prepare(`
     SELECT
-      id,
-      fingerprint,
-      status,
-      error,
-      linear_identifier,
-      created_at,
-      processed_at,
+      j.id,
+      j.fingerprint,
+      j.status,
+      j.error,
+      j.linear_identifier,
+      j.alert_state,
+      j.source,
+      j.fingerprint_strategy,
+      f.issue_state,
+      f.issue_state_name,
+      f.issue_assignee,
+      j.created_at,
+      j.processed_at,
       CASE
-        WHEN processed_at IS NOT NULL
-        THEN (julianday(processed_at) - julianday(created_at)) * 86400
+        WHEN j.processed_at IS NOT NULL
+        THEN (julianday(j.processed_at) - julianday(j.created_at)) * 86400
         ELSE NULL
       END as duration_seconds
-    FROM jobs
-    ORDER BY created_at DESC
+    FROM jobs j
+    LEFT JOIN fingerprints f ON f.hash = j.fingerprint
+    ORDER BY j.created_at DESC
     LIMIT 100
   `);
 
@@ -227,7 +809,8 @@ export function createDatabase(dbPath: string): LineuDatabase {
       strftime('%Y-%m-%d %H:00', created_at) as hour,
       COUNT(*) as total,
       SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
-      SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
+      SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+      SUM(CASE WHEN status = 'suppressed' THEN 1 ELSE 0 END) as suppressed
     FROM jobs
     WHERE created_at > datetime('now', '-24 hours')
     GROUP BY hour
@@ -235,32 +818,126 @@ export function createDatabase(dbPath: string): LineuDatabase {
   `);
 
   return {
-    insertJob: (payload, fingerprint) => {
-      const result = insertJobStmt.run(JSON.stringify(payload), fingerprint);
-      return Number(result.lastInsertRowid);
-    },
+    insertJob: (payload, fingerprint, options = {}) =>
+      insertJobTx(jobColumns(payload, fingerprint, options), occurrenceDimensions(payload, options.event)),
 
-    insertJobIfNotDuplicate: (payload, fingerprint, windowDays) => {
-      return insertJobIfNotDuplicateTx(JSON.stringify(payload), fingerprint, windowDays);
-    },
+    insertJobIfNotDuplicate: (payload, fingerprint, windowDays, options = {}) =>
+      insertJobIfNotDuplicateTx(
+        jobColumns(payload, fingerprint, options),
+        windowDays,
+        options.issueStateTtl ?? DEFAULT_ISSUE_STATE_TTL_MS,
+        occurrenceDimensions(payload, options.event)
+      ),
 
     getJob: (id) => getJobStmt.get(id) as Job | undefined,
 
     getPendingJobs: (limit) => getPendingJobsStmt.all(limit) as Job[],
 
-    claimNextJob: () => claimNextJobStmt.get() as ClaimedJob | undefined,
+    claimNextJob: (workerId = DEFAULT_WORKER_ID, leaseMs = DEFAULT_LEASE_MS) =>
+      claimNextJobStmt.get(workerId, toSeconds(leaseMs)) as ClaimedJob | undefined,
+
+    renewLease: (id, workerId, leaseMs) =>
+      renewLeaseStmt.run(toSeconds(leaseMs), id, workerId).changes > 0,
+
+    releaseExpiredLeases: (maxAttempts = Number.MAX_SAFE_INTEGER) => releaseExpiredLeasesTx(maxAttempts),
 
     markProcessing: (id) => markProcessingStmt.run(id),
 
-    markCompleted: (id, linearIssueId, linearIdentifier, analysis) =>
-      markCompletedStmt.run(linearIssueId, linearIdentifier, analysis, id),
+    markCompleted: (id, linearIssueId, linearIdentifier, analysis, workerId = DEFAULT_WORKER_ID) =>
+      markCompletedStmt.run(linearIssueId, linearIdentifier, analysis, id, workerId).changes > 0,
+
+    markCompletedDryRun: (id, analysis, workerId = DEFAULT_WORKER_ID) =>
+      markCompletedDryRunStmt.run(analysis, id, workerId).changes > 0,
+
+    setRouting: (id, routing) => setRoutingStmt.run(JSON.stringify(routing), id),
+
+    markSkipped: (id, analysis, workerId = DEFAULT_WORKER_ID) =>
+      markSkippedStmt.run(analysis, id, workerId).changes > 0,
+
+    markFailed: (id, error, workerId = DEFAULT_WORKER_ID) =>
+      markFailedStmt.run(error, id, workerId).changes > 0,
+
+    markRetry: (id, error, delayMs, workerId = DEFAULT_WORKER_ID) =>
+      markRetryStmt.run(error, toSeconds(delayMs), id, workerId).changes > 0,
+
+    markDead: (id, error, workerId = DEFAULT_WORKER_ID) =>
+      markDeadStmt.run(error, id, workerId).changes > 0,
+
+    markDuplicate: (id, linearIdentifier, workerId = DEFAULT_WORKER_ID) =>
+      markDuplicateStmt.run(linearIdentifier, id, workerId).changes > 0,
+
+    markRegression: (id, fingerprint, linearIdentifier, reopened, workerId = DEFAULT_WORKER_ID) =>
+      markRegressionTx(id, fingerprint, linearIdentifier, reopened, workerId),
+
+    attachIssue: (id, fingerprint, linearIssueId, linearIdentifier) =>
+      attachIssueTx(id, fingerprint, linearIssueId, linearIdentifier),
 
-    markCompletedDryRun: (id, analysis) =>
-      markCompletedDryRunStmt.run(analysis, id),
+    setCacheHit: (id, hit) => setCacheHitStmt.run(hit ? 1 : 0, id),
 
-    markFailed: (id, error) => markFailedStmt.run(error, id),
+    rerunJob: (id, bypassCache) => rerunJobStmt.run(bypassCache ? 1 : 0, id).changes > 0,
 
-    markDuplicate: (id, linearIdentifier) => markDuplicateStmt.run(linearIdentifier, id),
+    getCachedAnalysis: (key) => getCachedAnalysisStmt.get(key) as CachedAnalysis | undefined,
+
+    saveCachedAnalysis: (key, analysis, jobId) => saveCachedAnalysisTx(key, analysis, jobId ?? null),
+
+    recordUsage: (usage, jobId) => {
+      insertUsageStmt.run({ ...usage, jobId: jobId ?? null });
+    },
+
+    getJobUsage: (id) => getJobUsageStmt.get(id) as UsageTotals,
+
+    getSpend: () => getSpendStmt.get() as Spend,
+
+    getUsageSummary: () => ({
+      today: getUsageSinceStmt.get('start of day') as UsageTotals,
+      month: getUsageSinceStmt.get('start of month') as UsageTotals,
+      days: getUsageByDayStmt.all(USAGE_SUMMARY_DAYS - 1) as UsageBreakdown[],
+      teams: getUsageByTeamStmt.all(USAGE_SUMMARY_DAYS - 1) as UsageBreakdown[],
+      categories: getUsageByCategoryStmt.all(USAGE_SUMMARY_DAYS - 1) as UsageBreakdown[],
+    }),
+
+    recordResolved: (payload, fingerprint, options = {}) =>
+      recordResolvedTx(jobColumns(payload, fingerprint, options), occurrenceDimensions(payload, options.event)),
+
+    recordSuppressed: (payload, fingerprint, suppressedBy, options = {}) =>
+      recordSuppressedTx(jobColumns(payload, fingerprint, options), suppressedBy, occurrenceDimensions(payload, options.event)),
+
+    snoozeFingerprint: (hash, durationMs, reason) =>
+      upsertSnoozeStmt.get(hash, toSeconds(durationMs), reason ?? null) as Snooze,
+
+    unsnoozeFingerprint: (hash) => deleteSnoozeStmt.run(hash).changes > 0,
+
+    getActiveSnooze: (hash) => getActiveSnoozeStmt.get(hash) as Snooze | undefined,
+
+    getOccurrences: (fingerprint) => {
+      const occurrence = getOccurrenceStmt.get(fingerprint) as
+        Pick<OccurrenceSummary, 'fingerprint' | 'count' | 'first_seen' | 'last_seen'> | undefined;
+      if (!occurrence) return undefined;
+      return {
+        ...occurrence,
+        hourly: getOccurrenceHoursStmt.all(fingerprint) as OccurrenceBucket[],
+        environments: getOccurrenceValuesStmt.all(fingerprint, 'environment', OCCURRENCE_VALUES_LIMIT) as OccurrenceValue[],
+        hosts: getOccurrenceValuesStmt.all(fingerprint, 'host', OCCURRENCE_VALUES_LIMIT) as OccurrenceValue[],
+      };
+    },
+
+    getOccurrenceUpdateCandidates: () =>
+      getOccurrenceUpdateCandidatesStmt.all() as OccurrenceUpdateCandidate[],
+
+    getLatestOccurrence: (fingerprint) =>
+      getLatestOccurrenceStmt.get(fingerprint) as Pick<Job, 'payload' | 'event'> | undefined,
+
+    markOccurrenceNotified: (fingerprint, count) => {
+      markOccurrenceNotifiedStmt.run(count, fingerprint);
+    },
+
+    markPriorityBumped: (fingerprint) => {
+      markPriorityBumpedStmt.run(fingerprint);
+    },
+
+    recordWebhookRejection: (route, reason) => {
+      insertWebhookRejectionStmt.run(route, reason);
+    },
 
     findFingerprint: (hash, windowDays) =>
       findFingerprintStmt.get(hash, windowDays) as { linear_identifier: string } | undefined,
@@ -282,10 +959,20 @@ export function createDatabase(dbPath: string): LineuDatabase {
     insertFingerprint: (hash, linearIssueId, linearIdentifier) =>
       insertFingerprintStmt.run(hash, linearIssueId, linearIdentifier),
 
-    completeJobWithFingerprint: (jobId, fingerprint, linearIssueId, linearIdentifier, analysis) =>
-      completeJobWithFingerprintTx(jobId, fingerprint, linearIssueId, linearIdentifier, analysis),
+    getFingerprintIssue: (hash, stateTtlMs) =>
+      getFingerprintIssueStmt.get(toSeconds(stateTtlMs), hash) as FingerprintIssue | undefined,
+
+    updateIssueState: (hash, state) => {
+      updateIssueStateStmt.run(state, hash);
+    },
+
+    syncIssue: (mirror) =>
+      (syncIssueStmt.all(mirror) as { hash: string }[]).map(row => row.hash),
+
+    completeJobWithFingerprint: (jobId, fingerprint, linearIssueId, linearIdentifier, analysis, regressionOf, workerId = DEFAULT_WORKER_ID) =>
+      completeJobWithFingerprintTx(jobId, fingerprint, linearIssueId, linearIdentifier, analysis, regressionOf, workerId),
 
-    getStats: () => getStatsStmt.get() as { total: number; pending: number; completed: number; failed: number; duplicate: number },
+    getStats: () => getStatsStmt.get() as JobStats,
 
     getRecentJobs: () => getRecentJobsStmt.all() as DashboardJob[],
 
@@ -1,18 +1,105 @@
 #!/usr/bin/env node
 import fs from 'fs';
 import { program } from 'commander';
-import { loadConfig, loadConfigFile, getDefaultDatabasePath } from './lib/config.js';
+import Database from 'better-sqlite3';
+import { loadConfig, loadConfigFile, getDefaultDatabasePath, getFingerprintFrameLimit } from './lib/config.js';
 import { createDatabase } from './db.js';
+import { getMigrationStatus } from './migrations.js';
 import { ClaudeService } from './services/claude.js';
+import { ReplayAnalyzer } from './services/replay-analyzer.js';
+import { analyzeWithCache } from './services/analysis-cache.js';
+import { StubAnalyzer } from './services/stub-analyzer.js';
+import type { Analyzer } from './services/analyzer.js';
 import { LinearService } from './services/linear.js';
-import { startWorker } from './worker.js';
+import { GitHubIssuesService } from './services/github.js';
+import { JiraService } from './services/jira.js';
+import type { IssueTracker } from './services/tracker.js';
+import { startWorker, recoverExpiredJobs } from './worker.js';
 import { createServer } from './server.js';
-import { generateFingerprint } from './lib/fingerprint.js';
+import {
+  applyFingerprintRules,
+  computeFingerprint,
+  fingerprintLabels,
+  sortObjectKeys,
+  type FingerprintResult,
+} from './lib/fingerprint.js';
+import { diffStructures } from './lib/diff.js';
+import { loadCodeowners } from './lib/codeowners.js';
+import { loadTemplates, type TemplateSet } from './lib/templates.js';
+import { routeIssue, routedAnalysis } from './lib/routing.js';
+import { budgetStatus, budgetWarning, checkBudget, formatUsd } from './lib/budget.js';
+import { parseGenericPayload, genericGroupingEvent } from './adapters/generic.js';
+import { parseSentryPayload } from './adapters/sentry.js';
+import { parseNewRelicPayload } from './adapters/newrelic.js';
+import { parseAlertmanagerPayload } from './adapters/alertmanager.js';
+import type { ConfigFileResult, ErrorEvent, FingerprintRule, LineuConfig, UsageTotals, WebhookRoute } from './types.js';
 import { cloneRepository, resolveRepoOptions } from './lib/git.js';
 
+// The tracker selected by LINEU_TRACKER; loadConfig ensures its section is set
+function createIssueTracker(config: LineuConfig): IssueTracker {
+  switch (config.tracker) {
+    case 'github':
+      return new GitHubIssuesService(config.github!);
+    case 'jira':
+      return new JiraService(config.jira!);
+    default:
+      return new LinearService(config.linear!);
+  }
+}
+
+const ANALYZER_HELP = 'Analysis backend: claude, replay:<dir> (recorded stream-json sessions) or stub';
+
+// Prompt and issue templates of the configured language; exits on a missing or broken one
+function loadTemplateSet(configResult: ConfigFileResult | null, config: LineuConfig): TemplateSet {
+  try {
+    const templates = loadTemplates({ language: configResult?.language, repoPath: config.repo.path });
+    for (const [name, template] of Object.entries(templates.templates)) {
+      console.log(`[Templates] ${name}: ${template.path}`);
+    }
+    return templates;
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+// The analyzer selected by --analyzer; exits on an unknown or unusable one
+function createAnalyzer(spec: string, config: LineuConfig, templates: TemplateSet): Analyzer {
+  try {
+    if (spec === 'claude') return new ClaudeService(config.claude, templates);
+    if (spec === 'stub') return new StubAnalyzer();
+    if (spec.startsWith('replay:') && spec.length > 'replay:'.length) {
+      return new ReplayAnalyzer(spec.slice('replay:'.length));
+    }
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  console.error(`Error: --analyzer must be claude, replay:<dir> or stub, got "${spec}"`);
+  process.exit(1);
+}
+
+/**
+ * Checks the default team and resolves mapped and routing rule labels in every
+ * team (missing labels are warned about, not fatal). Call after fetchTeams.
+ */
+async function prepareRouting(tracker: IssueTracker, configResult: ConfigFileResult | null, config: LineuConfig): Promise<void> {
+  const defaultTeam = configResult?.routing?.defaultTeam;
+  if (defaultTeam && !tracker.findTeam(defaultTeam)) {
+    console.error(`Error: routing.default_team "${defaultTeam}" not found in ${config.tracker}`);
+    process.exit(1);
+  }
+
+  if (configResult?.labels) {
+    tracker.setLabelMapping(configResult.labels);
+  }
+  tracker.addLabels(configResult?.routing?.rules.flatMap(rule => rule.labels ?? []) ?? []);
+  await tracker.resolveLabels();
+}
+
 program
   .name('lineu')
-  .description('Error webhook → Claude Code → Linear')
+  .description('Error webhook → Claude Code → Linear, GitHub Issues or Jira')
   .version('1.0.0');
 
 program
@@ -22,7 +109,9 @@ program
   .option('-u, --repo-url <url>', 'Git URL to clone (e.g., git@github.com:org/repo.git)')
   .option('-p, --port <number>', 'Port', '3000')
   .option('-c, --config <path>', 'Path to config file (default: ~/.lineu/config.yml)')
-  .option('--dry-run', 'Process jobs but do not create Linear issues')
+  .option('--dry-run', 'Process jobs but do not create issues')
+  .option('-a, --analyzer <backend>', ANALYZER_HELP, 'claude')
+  .option('--no-cache', 'Analyze every job again instead of reusing cached analyses')
   .action(async (opts) => {
     // Resolve repository path (CLI args > env vars)
     const resolved = resolveRepoOptions(opts);
@@ -42,35 +131,62 @@ program
       server: { port: parseInt(opts.port) },
     });
 
+    // Load config file and set allowed teams, prefix and templates
+    const configResult = loadConfigFile(opts.config, !!opts.config);
+    const templates = loadTemplateSet(configResult, config);
+
+    const analyzer = createAnalyzer(opts.analyzer, config, templates);
     const db = createDatabase(config.database.path);
-    const claude = new ClaudeService(config.claude);
-    const linear = new LinearService(config.linear);
+    const tracker = createIssueTracker(config);
 
-    // Load config file and set allowed teams and prefix
-    const configResult = loadConfigFile(opts.config, !!opts.config);
-    if (configResult) {
-      linear.setAllowedTeams(configResult.teams);
-      linear.setPrefix(configResult.prefix || null);
+    if (configResult?.teams) {
+      tracker.setAllowedTeams(configResult.teams);
     }
+    tracker.setPrefix(configResult?.prefix || null);
+    tracker.setTemplates(templates);
 
     // Fetch teams at startup
-    const teamResult = await linear.fetchTeams();
+    const teamResult = await tracker.fetchTeams();
     if (!teamResult.success || teamResult.count === 0) {
-      console.error('Error: Failed to load Linear teams. Cannot route issues.');
+      console.error(`Error: Failed to load ${config.tracker} teams. Cannot route issues.`);
       process.exit(1);
     }
 
+    await prepareRouting(tracker, configResult, config);
+
+    // Recover jobs left in processing by a previous run that crashed or was killed
+    recoverExpiredJobs(db, config, 'Startup');
+
     // Start background worker
-    const worker = startWorker(config, db, claude, linear, { dryRun: opts.dryRun });
+    const worker = startWorker(config, db, analyzer, tracker, {
+      dryRun: opts.dryRun,
+      occurrenceUpdates: configResult?.occurrenceUpdates,
+      regressions: configResult?.regressions,
+      owners: configResult?.owners,
+      routing: configResult?.routing,
+      analysisCache: {
+        templateHash: templates.templates['analysis-prompt'].hash,
+        repairTemplateHash: templates.templates['analysis-repair'].hash,
+        bypass: !opts.cache,
+      },
+      budget: configResult?.budget,
+    });
 
     // Start HTTP server
-    const server = await createServer(config, db, linear);
+    const server = await createServer(config, db, tracker, {
+      sources: configResult?.sources,
+      fingerprintRules: configResult?.fingerprint,
+      ignoreRules: configResult?.ignore,
+      budget: configResult?.budget,
+    });
     await server.listen({ port: config.server.port, host: '0.0.0.0' });
 
-    const dryRunMsg = opts.dryRun ? '\n  Mode:    DRY-RUN (no Linear issues created)' : '';
+    const dryRunMsg = opts.dryRun ? '\n  Mode:    DRY-RUN (no issues created)' : '';
     console.log(`
 Lineu running!
   Repo:      ${config.repo.path}
+  Tracker:   ${config.tracker}
+  Analyzer:  ${analyzer.name}
   Webhook:   http://localhost:${config.server.port}/webhook
   Health:    http://localhost:${config.server.port}/health
   Stats:     http://localhost:${config.server.port}/stats
@@ -98,7 +214,9 @@ program
   .option('-m, --message <msg>', 'Error message', 'TypeError: Cannot read property of undefined')
   .option('-f, --file <path>', 'JSON file with payload')
   .option('-c, --config <path>', 'Path to config file (default: ~/.lineu/config.yml)')
-  .option('--dry-run', "Don't create Linear card")
+  .option('--dry-run', "Don't create the issue")
+  .option('-a, --analyzer <backend>', ANALYZER_HELP, 'claude')
+  .option('--no-cache', 'Analyze again instead of reusing a cached analysis')
   .action(async (opts) => {
     // Resolve repository path (CLI args > env vars)
     const resolved = resolveRepoOptions(opts);
@@ -115,66 +233,287 @@ program
 
     const config = loadConfig({ repo: { path: repoPath } });
 
+    // Load config file (fingerprint rules, allowed teams, prefix and templates)
+    const configResult = loadConfigFile(opts.config, !!opts.config);
+    const templates = loadTemplateSet(configResult, config);
+    const analyzer = createAnalyzer(opts.analyzer, config, templates);
+
     // Payload from file or generated from message
     const payload: Record<string, unknown> = opts.file
       ? JSON.parse(fs.readFileSync(opts.file, 'utf-8'))
       : { message: opts.message, timestamp: new Date().toISOString() };
 
     console.log('Payload:', JSON.stringify(payload, null, 2));
-    console.log('\nFingerprint:', generateFingerprint(payload));
+    const fingerprint = applyFingerprintRules(payload, configResult?.fingerprint ?? [])
+      ?? computeFingerprint(payload, genericGroupingEvent(parseGenericPayload(payload)), config.deduplication.frameLimit);
+    console.log(`\nFingerprint: ${fingerprint.hash} (${fingerprint.rule ? `rule ${fingerprint.rule}` : fingerprint.strategy})`);
 
     // Fetch teams for routing
-    const linear = new LinearService(config.linear);
+    const tracker = createIssueTracker(config);
 
-    // Load config file and set allowed teams and prefix
-    const configResult = loadConfigFile(opts.config, !!opts.config);
-    if (configResult) {
-      linear.setAllowedTeams(configResult.teams);
-      linear.setPrefix(configResult.prefix || null);
+    if (configResult?.teams) {
+      tracker.setAllowedTeams(configResult.teams);
     }
+    tracker.setPrefix(configResult?.prefix || null);
+    tracker.setTemplates(templates);
 
-    const teamResult = await linear.fetchTeams();
+    const teamResult = await tracker.fetchTeams();
     if (!teamResult.success || teamResult.count === 0) {
-      console.error('Error: Failed to load Linear teams');
+      console.error(`Error: Failed to load ${config.tracker} teams`);
       process.exit(1);
     }
 
-    const teamList = linear.getTeamListForPrompt();
-    console.log('\nRunning Claude Code analysis...\n');
+    await prepareRouting(tracker, configResult, config);
 
-    const claude = new ClaudeService(config.claude);
-    const analysis = await claude.analyze(config.repo.path, payload, undefined, teamList);
+    const teamList = tracker.getTeamListForPrompt();
+    console.log(`\nRunning ${analyzer.name} analysis...\n`);
+
+    // Same cache as the worker: the analysis of this fingerprint at this commit and prompt
+    const db = createDatabase(config.database.path);
+
+    // Same caps as the worker: no analysis once a budget is reached
+    const budget = checkBudget(configResult?.budget, db);
+    if (budget?.exceeded) {
+      db.close();
+      console.error(`Error: ${budgetWarning(budget)} - analysis paused until the budget resets`);
+      process.exit(1);
+    }
+    const { analysis, cacheHit } = await analyzeWithCache(db, analyzer, {
+      repoPath: config.repo.path, fingerprint: fingerprint.hash, payload, teamList,
+      // Test runs are paid like any other and count toward the budget
+      onUsage: (usage) => {
+        db.recordUsage(usage);
+        console.log(`\nUsage: ${usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens} input / ${usage.outputTokens} output tokens, ${usage.numTurns} turns, $${usage.costUsd.toFixed(4)}, ${(usage.durationMs / 1000).toFixed(1)}s`);
+      },
+    }, {
+      templateHash: templates.templates['analysis-prompt'].hash,
+      repairTemplateHash: templates.templates['analysis-repair'].hash,
+      bypass: !opts.cache,
+    });
+    db.close();
+    if (cacheHit) {
+      console.log('(Cached analysis - run with --no-cache to analyze again)');
+    }
 
     console.log('Analysis:', JSON.stringify(analysis, null, 2));
 
+    const route = routeIssue(tracker, { payload, analysis }, {
+      codeowners: loadCodeowners(config.repo.path),
+      owners: configResult?.owners ?? {},
+      rules: configResult?.routing?.rules ?? [],
+      defaultTeam: configResult?.routing?.defaultTeam,
+    });
+    if (route.team === null) {
+      console.log(`\nRouting: ${route.routing.reason} (issue not created)`);
+      return;
+    }
+    const { team, routing } = route;
+    console.log(`\nRouting: ${team.key}${routing.assignee ? ` (${routing.assignee})` : ''} - ${routing.reason}${routing.rule ? ` [rule ${routing.rule}]` : ''}`);
+
     if (!opts.dryRun) {
-      const team = linear.resolveTeamId(analysis.suggested_team);
-      if (!team) {
-        console.error('Error: No teams available in Linear');
-        process.exit(1);
-      }
-      console.log(`\nCreating Linear issue in team ${team.key}...`);
-      const issue = await linear.createIssue(team.id, payload, analysis, generateFingerprint(payload));
+      console.log(`\nCreating ${config.tracker} issue in team ${team.key}...`);
+      const issue = await tracker.createIssue(team.id, payload, routedAnalysis(analysis, routing), fingerprint.hash, { routing });
       console.log(`Created: ${issue.identifier} - ${issue.url}`);
     } else {
-      console.log('\n(Dry run - Linear issue not created)');
+      console.log('\n(Dry run - issue not created)');
     }
   });
 
+interface FingerprintInput {
+  label: string;
+  result: FingerprintResult;
+  // Fingerprint recorded on the job, when the input is a job ID
+  stored?: string;
+}
+
+const FINGERPRINT_ROUTES: WebhookRoute[] = ['generic', 'sentry', 'newrelic', 'alertmanager'];
+
+// Same resolution order as the webhook route receiving the payload
+function fingerprintPayload(
+  route: WebhookRoute,
+  label: string,
+  payload: Record<string, unknown>,
+  rules: FingerprintRule[],
+  frameLimit: number
+): FingerprintInput[] {
+  if (route === 'alertmanager') {
+    const alerts = parseAlertmanagerPayload(payload);
+    if (!alerts) throw new Error(`${label}: unrecognized Alertmanager payload`);
+    return alerts.map((alert, i) => ({
+      label: `${label} (alert ${i})`,
+      result: applyFingerprintRules(alert.payload, rules) ?? fingerprintLabels(alert.labels),
+    }));
+  }
+
+  const event = route === 'sentry' ? parseSentryPayload(payload)
+    : route === 'newrelic' ? parseNewRelicPayload(payload)
+    : genericGroupingEvent(parseGenericPayload(payload));
+  if (!event && route !== 'generic') {
+    throw new Error(`${label}: unrecognized ${route} payload`);
+  }
+
+  const result = applyFingerprintRules(payload, rules)
+    ?? computeFingerprint(payload, event ?? undefined, frameLimit);
+  return [{ label, result }];
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(missing)' : JSON.stringify(value);
+}
+
+program
+  .command('fingerprint')
+  .description('Explain how payloads or jobs are fingerprinted and why two of them differ')
+  .argument('<inputs...>', 'Payload files or job IDs')
+  .option('-s, --source <route>', `Webhook route the payload files are sent to (${FINGERPRINT_ROUTES.join(', ')})`, 'generic')
+  .option('-c, --config <path>', 'Path to config file (default: ~/.lineu/config.yml)')
+  .option('-d, --db <path>', 'Database path, for job IDs')
+  .action((inputs: string[], opts) => {
+    if (!FINGERPRINT_ROUTES.includes(opts.source)) {
+      console.error(`Error: --source must be one of: ${FINGERPRINT_ROUTES.join(', ')}`);
+      process.exit(1);
+    }
+
+    const rules = loadConfigFile(opts.config, !!opts.config)?.fingerprint ?? [];
+    const frameLimit = getFingerprintFrameLimit();
+    let db: ReturnType<typeof createDatabase> | undefined;
+
+    const results: FingerprintInput[] = [];
+    try {
+      for (const input of inputs) {
+        // Numeric arguments that are not files are job IDs
+        if (/^\d+$/.test(input) && !fs.existsSync(input)) {
+          db ??= createDatabase(opts.db || getDefaultDatabasePath());
+          const job = db.getJob(parseInt(input, 10));
+          if (!job) throw new Error(`Job ${input} not found`);
+
+          const payload = JSON.parse(job.payload) as Record<string, unknown>;
+          const event = job.event ? JSON.parse(job.event) as ErrorEvent : undefined;
+          // Alertmanager jobs store the individual alert, fingerprinted by its labels
+          const result = applyFingerprintRules(payload, rules) ?? (job.fingerprint_strategy === 'labels'
+            ? fingerprintLabels((payload.labels ?? {}) as Record<string, string>)
+            : computeFingerprint(payload, event ?? genericGroupingEvent(parseGenericPayload(payload)), frameLimit));
+          results.push({ label: `job ${job.id}`, result, stored: job.fingerprint });
+        } else {
+          const payload = JSON.parse(fs.readFileSync(input, 'utf-8')) as Record<string, unknown>;
+          results.push(...fingerprintPayload(opts.source, input, payload, rules, frameLimit));
+        }
+      }
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    } finally {
+      db?.close();
+    }
+
+    for (const { label, result, stored } of results) {
+      console.log(`== ${label} ==`);
+      console.log(`Strategy: ${result.strategy}${result.rule ? ` (rule ${result.rule})` : ''}`);
+      console.log(`Hash:     ${result.hash}`);
+      if (stored && stored !== result.hash) {
+        console.log(`Stored:   ${stored} (differs: the config or the fingerprinting changed since the job was received)`);
+      }
+      console.log('Basis:');
+      console.log(JSON.stringify(sortObjectKeys(result.basis), null, 2));
+      console.log();
+    }
+
+    if (results.length === 2) {
+      const [left, right] = results;
+      if (left.result.hash === right.result.hash) {
+        console.log('Same fingerprint: both inputs are grouped into one issue.');
+        return;
+      }
+
+      console.log(`Different fingerprints (${left.label} → ${right.label}):`);
+      const describe = (r: FingerprintResult) => ({ strategy: r.strategy, rule: r.rule, basis: r.basis });
+      for (const entry of diffStructures(describe(left.result), describe(right.result))) {
+        console.log(`  ${entry.path}: ${formatValue(entry.left)} → ${formatValue(entry.right)}`);
+      }
+    }
+  });
+
+const dbCommand = program
+  .command('db')
+  .description('Database maintenance');
+
+dbCommand
+  .command('migrate')
+  .description('Apply pending schema migrations')
+  .option('-d, --db <path>', 'Database path')
+  .option('--status', 'List migrations and whether they are applied, without applying')
+  .action((opts) => {
+    const dbPath = opts.db || getDefaultDatabasePath();
+
+    if (opts.status) {
+      if (!fs.existsSync(dbPath)) {
+        console.error(`Error: Database not found: ${dbPath}`);
+        process.exit(1);
+      }
+      const raw = new Database(dbPath, { readonly: true });
+      const status = getMigrationStatus(raw);
+      raw.close();
+
+      console.log(`Migrations (${dbPath}):`);
+      for (const m of status) {
+        console.log(`  ${String(m.version).padStart(3)}  ${m.name.padEnd(24)} ${m.appliedAt ? `applied ${m.appliedAt}` : 'pending'}`);
+      }
+      const pending = status.filter(m => !m.appliedAt).length;
+      console.log(pending > 0 ? `\n${pending} pending - run "lineu db migrate" to apply` : '\nUp to date');
+      return;
+    }
+
+    // Opening the database applies pending migrations
+    const db = createDatabase(dbPath);
+    db.close();
+    console.log('Database is up to date');
+  });
+
 program
   .command('stats')
   .description('Show statistics')
   .option('-d, --db <path>', 'Database path')
+  .option('-c, --config <path>', 'Path to config file, for budget caps (default: ~/.lineu/config.yml)')
   .action((opts) => {
     const dbPath = opts.db || getDefaultDatabasePath();
     const db = createDatabase(dbPath);
+    const budget = loadConfigFile(opts.config, !!opts.config)?.budget;
     const stats = db.getStats();
     console.log('Job Statistics:');
     console.log(`  Total:     ${stats.total}`);
     console.log(`  Pending:   ${stats.pending}`);
     console.log(`  Completed: ${stats.completed}`);
     console.log(`  Failed:    ${stats.failed}`);
+    console.log(`  Dead:      ${stats.dead} (out of retries)`);
     console.log(`  Duplicate: ${stats.duplicate}`);
+    console.log(`  Resolved:  ${stats.resolved}`);
+    console.log(`  Regressed: ${stats.regression}`);
+    console.log(`  Skipped:   ${stats.skipped} (routing)`);
+    console.log(`  Suppressed: ${stats.suppressed} (ignore rules and snoozes)`);
+    console.log(`  Rejected:  ${stats.rejected} (webhook auth)`);
+    console.log('Tracker Issues:');
+    console.log(`  Open:      ${stats.open_issues}`);
+    console.log(`  Completed: ${stats.completed_issues}`);
+    console.log(`  Canceled:  ${stats.canceled_issues}`);
+
+    const usage = db.getUsageSummary();
+    const status = budgetStatus(budget, db.getSpend());
+    const cap = (limit: number | null) => limit !== null ? ` of ${formatUsd(limit)}` : '';
+    const detail = (t: UsageTotals) =>
+      `${t.jobs} jobs, ${t.input_tokens + t.cache_read_tokens + t.cache_creation_tokens} input / ${t.output_tokens} output tokens`;
+    console.log('Analysis Spend (UTC):');
+    console.log(`  Today:     ${formatUsd(usage.today.cost_usd)}${cap(status.daily_usd)} (${detail(usage.today)})`);
+    console.log(`  Month:     ${formatUsd(usage.month.cost_usd)}${cap(status.monthly_usd)} (${detail(usage.month)})`);
+    if (usage.teams.length > 0) {
+      console.log('Spend by Team (30 days):');
+      for (const team of usage.teams) {
+        console.log(`  ${`${team.key ?? 'none'}:`.padEnd(10)} ${formatUsd(team.cost_usd)} (${detail(team)})`);
+      }
+    }
+    const warning = budgetWarning(status);
+    if (warning) {
+      console.log(`\nWarning: ${warning} - analysis is paused`);
+    }
     db.close();
   });
 
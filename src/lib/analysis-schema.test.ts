@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { validateAnalysis } from './analysis-schema.js';
+
+const valid = {
+  category: 'bug',
+  priority: 'high',
+  summary: 'Null user in checkout',
+  affected_files: ['src/checkout.ts'],
+  root_cause: { hypothesis: 'user is not loaded', confidence: 'high', evidence: 'stack trace' },
+  fix: { suggestion: 'Check user', files_to_modify: ['src/checkout.ts'] },
+  investigation_log: ['Read checkout.ts'],
+  suggested_team: 'ENG',
+};
+
+describe('validateAnalysis', () => {
+  it('accepts a complete analysis and keeps fields outside the schema', () => {
+    const result = validateAnalysis({ ...valid, root_cause_hypothesis: 'legacy' });
+
+    expect(result).toEqual({ valid: true, analysis: { ...valid, root_cause_hypothesis: 'legacy' }, coercions: [] });
+  });
+
+  it('coerces near-miss enum values, single strings and a missing team', () => {
+    const { suggested_team: _team, ...withoutTeam } = valid;
+    const result = validateAnalysis({
+      ...withoutTeam,
+      category: 'External Service',
+      priority: 'Urgent',
+      affected_files: 'src/checkout.ts',
+      root_cause: { ...valid.root_cause, confidence: 'MEDIUM' },
+      impact: null,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.valid && result.analysis).toMatchObject({
+      category: 'external-service',
+      priority: 'critical',
+      affected_files: ['src/checkout.ts'],
+      root_cause: { confidence: 'medium' },
+      suggested_team: null,
+    });
+    expect(result.valid && 'impact' in result.analysis).toBe(false);
+    expect(result.coercions).toEqual([
+      'category: "External Service" coerced to "external-service"',
+      'priority: "Urgent" coerced to "critical"',
+      'affected_files: string wrapped in an array',
+      'root_cause.confidence: "MEDIUM" coerced to "medium"',
+      'impact: null, removed',
+      'suggested_team: missing, set to null',
+    ]);
+  });
+
+  it('reports every violation with its field path', () => {
+    const { affected_files: _files, ...withoutFiles } = valid;
+    const result = validateAnalysis({
+      ...withoutFiles,
+      priority: 'whenever',
+      summary: ' ',
+      fix: { suggestion: 'Check user', files_to_modify: ['src/checkout.ts', 42] },
+      related_code_snippets: [{ file: 'a.ts', lines: '1-2', code: 'x' }],
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      coercions: [],
+      errors: [
+        'priority must be one of: critical, high, medium, low; got "whenever"',
+        'summary must not be empty',
+        'affected_files is required',
+        'fix.files_to_modify[1] must be a string, got a number',
+        'related_code_snippets[0].relevance is required',
+      ],
+    });
+  });
+
+  it('rejects output that is not an object', () => {
+    expect(validateAnalysis(['bug'])).toEqual({ valid: false, errors: ['analysis must be an object, got an array'], coercions: [] });
+  });
+});
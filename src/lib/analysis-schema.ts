@@ -0,0 +1,214 @@
+import type { ClaudeAnalysis } from '../types.js';
+
+type FieldSchema =
+  | { type: 'string'; nonEmpty?: boolean }
+  | { type: 'enum'; values: readonly string[]; aliases?: Record<string, string> }
+  | { type: 'string[]' }
+  | { type: 'object'; fields: Record<string, Field> }
+  | { type: 'object[]'; fields: Record<string, Field> };
+
+type Field = FieldSchema & {
+  optional?: boolean;
+  // null is a valid value; a missing field becomes null
+  nullable?: boolean;
+};
+
+const CATEGORIES: ClaudeAnalysis['category'][] = [
+  'bug', 'infrastructure', 'database', 'external-service', 'configuration', 'performance', 'security',
+];
+const PRIORITIES: ClaudeAnalysis['priority'][] = ['critical', 'high', 'medium', 'low'];
+const CONFIDENCES: ClaudeAnalysis['root_cause']['confidence'][] = ['high', 'medium', 'low'];
+
+/**
+ * Runtime schema of ClaudeAnalysis. Aliases are near-miss enum values Claude
+ * tends to produce, keyed after normalization (lowercase, "-" separators).
+ */
+const ANALYSIS_SCHEMA: Record<string, Field> = {
+  category: {
+    type: 'enum',
+    values: CATEGORIES,
+    aliases: {
+      'infra': 'infrastructure', 'db': 'database', 'external': 'external-service', 'externalservice': 'external-service',
+      'third-party': 'external-service', 'config': 'configuration', 'perf': 'performance',
+    },
+  },
+  priority: {
+    type: 'enum',
+    values: PRIORITIES,
+    aliases: {
+      'urgent': 'critical', 'blocker': 'critical', 'p0': 'critical', 'p1': 'high', 'major': 'high',
+      'p2': 'medium', 'normal': 'medium', 'moderate': 'medium', 'p3': 'low', 'minor': 'low', 'trivial': 'low',
+    },
+  },
+  summary: { type: 'string', nonEmpty: true },
+  exception: {
+    type: 'object',
+    optional: true,
+    fields: { type: { type: 'string' }, message: { type: 'string' } },
+  },
+  stack_trace_summary: { type: 'string', optional: true },
+  affected_files: { type: 'string[]' },
+  root_cause: {
+    type: 'object',
+    fields: {
+      hypothesis: { type: 'string', nonEmpty: true },
+      confidence: { type: 'enum', values: CONFIDENCES, aliases: { 'med': 'medium' } },
+      evidence: { type: 'string' },
+    },
+  },
+  impact: {
+    type: 'object',
+    optional: true,
+    fields: { description: { type: 'string' }, scope: { type: 'string' } },
+  },
+  fix: {
+    type: 'object',
+    fields: {
+      suggestion: { type: 'string', nonEmpty: true },
+      code_example: { type: 'string', optional: true },
+      files_to_modify: { type: 'string[]' },
+    },
+  },
+  prevention: {
+    type: 'object',
+    optional: true,
+    fields: { test_suggestion: { type: 'string' }, monitoring_suggestion: { type: 'string', optional: true } },
+  },
+  investigation_log: { type: 'string[]' },
+  related_code_snippets: {
+    type: 'object[]',
+    optional: true,
+    fields: { file: { type: 'string' }, lines: { type: 'string' }, code: { type: 'string' }, relevance: { type: 'string' } },
+  },
+  suggested_team: { type: 'string', nullable: true },
+  additional_context: { type: 'string', optional: true },
+};
+
+export type AnalysisValidation =
+  | { valid: true; analysis: ClaudeAnalysis; coercions: string[] }
+  | { valid: false; errors: string[]; coercions: string[] };
+
+interface Context {
+  errors: string[];
+  coercions: string[];
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  return `a ${typeof value}`;
+}
+
+function normalizeEnum(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+// Returns the validated (possibly coerced) value; undefined drops the field
+function validateField(field: Field, value: unknown, path: string, ctx: Context): unknown {
+  if (value === undefined || value === null) {
+    if (field.nullable) {
+      if (value === undefined) ctx.coercions.push(`${path}: missing, set to null`);
+      return null;
+    }
+    if (field.optional) {
+      if (value === null) ctx.coercions.push(`${path}: null, removed`);
+      return undefined;
+    }
+    ctx.errors.push(`${path} is required`);
+    return undefined;
+  }
+
+  switch (field.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        ctx.errors.push(`${path} must be a string, got ${describeValue(value)}`);
+        return undefined;
+      }
+      if (field.nullable && (value.trim() === '' || value.trim().toLowerCase() === 'null')) {
+        ctx.coercions.push(`${path}: ${describeValue(value)} set to null`);
+        return null;
+      }
+      if (field.nonEmpty && value.trim() === '') {
+        ctx.errors.push(`${path} must not be empty`);
+      }
+      return value;
+    }
+
+    case 'enum': {
+      if (typeof value !== 'string') {
+        ctx.errors.push(`${path} must be one of: ${field.values.join(', ')}; got ${describeValue(value)}`);
+        return undefined;
+      }
+      if (field.values.includes(value)) return value;
+      const normalized = normalizeEnum(value);
+      const coerced = field.values.includes(normalized) ? normalized : field.aliases?.[normalized];
+      if (coerced) {
+        ctx.coercions.push(`${path}: ${describeValue(value)} coerced to "${coerced}"`);
+        return coerced;
+      }
+      ctx.errors.push(`${path} must be one of: ${field.values.join(', ')}; got ${describeValue(value)}`);
+      return undefined;
+    }
+
+    case 'string[]': {
+      if (typeof value === 'string') {
+        ctx.coercions.push(`${path}: string wrapped in an array`);
+        return [value];
+      }
+      if (!Array.isArray(value)) {
+        ctx.errors.push(`${path} must be an array of strings, got ${describeValue(value)}`);
+        return undefined;
+      }
+      value.forEach((item, i) => {
+        if (typeof item !== 'string') ctx.errors.push(`${path}[${i}] must be a string, got ${describeValue(item)}`);
+      });
+      return value;
+    }
+
+    case 'object':
+      return validateObject(field.fields, value, path, ctx);
+
+    case 'object[]': {
+      if (!Array.isArray(value)) {
+        ctx.errors.push(`${path} must be an array of objects, got ${describeValue(value)}`);
+        return undefined;
+      }
+      return value.map((item, i) => validateObject(field.fields, item, `${path}[${i}]`, ctx));
+    }
+  }
+}
+
+function validateObject(fields: Record<string, Field>, value: unknown, path: string, ctx: Context): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    ctx.errors.push(`${path || 'analysis'} must be an object, got ${describeValue(value)}`);
+    return undefined;
+  }
+
+  // Fields outside the schema (legacy fields, extra context) are kept as-is
+  const result: Record<string, unknown> = { ...value };
+  for (const [name, field] of Object.entries(fields)) {
+    const validated = validateField(field, (value as Record<string, unknown>)[name], path ? `${path}.${name}` : name, ctx);
+    if (validated === undefined) {
+      delete result[name];
+    } else {
+      result[name] = validated;
+    }
+  }
+  return result;
+}
+
+/**
+ * Validates parsed Claude output against the ClaudeAnalysis schema. Near
+ * misses are coerced (enum case and aliases, a string for a list, a missing
+ * suggested_team); anything else is reported as an error naming the field.
+ */
+export function validateAnalysis(raw: unknown): AnalysisValidation {
+  const ctx: Context = { errors: [], coercions: [] };
+  const analysis = validateObject(ANALYSIS_SCHEMA, raw, '', ctx);
+
+  if (ctx.errors.length > 0) {
+    return { valid: false, errors: ctx.errors, coercions: ctx.coercions };
+  }
+  return { valid: true, analysis: analysis as ClaudeAnalysis, coercions: ctx.coercions };
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { budgetStatus, budgetWarning, checkBudget } from './budget.js';
+
+describe('budgetStatus', () => {
+  it('reports the cap that was reached, daily first', () => {
+    const budget = { dailyUsd: 10, monthlyUsd: 100 };
+
+    expect(budgetStatus(budget, { today: 9.99, month: 50 }).exceeded).toBeNull();
+    expect(budgetStatus(budget, { today: 10, month: 120 }).exceeded).toBe('daily');
+
+    const monthly = budgetStatus(budget, { today: 2, month: 100.5 });
+    expect(monthly).toEqual({ daily_usd: 10, monthly_usd: 100, spent_today_usd: 2, spent_month_usd: 100.5, exceeded: 'monthly' });
+    expect(budgetWarning(monthly)).toBe('Monthly budget of $100.00 reached ($100.50 spent this month)');
+  });
+
+  it('never pauses without caps', () => {
+    const status = budgetStatus(undefined, { today: 500, month: 5000 });
+
+    expect(status).toMatchObject({ daily_usd: null, monthly_usd: null, exceeded: null });
+    expect(budgetWarning(status)).toBeNull();
+  });
+
+  it('checks the recorded spend only when caps are configured', () => {
+    const db = { getSpend: () => ({ today: 12, month: 40 }) };
+
+    expect(checkBudget({ dailyUsd: 10 }, db)?.exceeded).toBe('daily');
+    expect(checkBudget(undefined, { getSpend: () => { throw new Error('not queried'); } })).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import type { BudgetConfig, BudgetStatus, Spend } from '../types.js';
+import type { LineuDatabase } from '../db.js';
+
+/**
+ * Compares the spend of the current UTC day and month with the configured
+ * caps. The daily cap is reported first when both are reached.
+ */
+export function budgetStatus(budget: BudgetConfig | undefined, spend: Spend): BudgetStatus {
+  const daily = budget?.dailyUsd ?? null;
+  const monthly = budget?.monthlyUsd ?? null;
+
+  let exceeded: BudgetStatus['exceeded'] = null;
+  if (daily !== null && spend.today >= daily) {
+    exceeded = 'daily';
+  } else if (monthly !== null && spend.month >= monthly) {
+    exceeded = 'monthly';
+  }
+
+  return {
+    daily_usd: daily,
+    monthly_usd: monthly,
+    spent_today_usd: spend.today,
+    spent_month_usd: spend.month,
+    exceeded,
+  };
+}
+
+/**
+ * Budget status from the recorded spend, checked before every analysis by
+ * the worker and lineu test. Null without caps, so no spend is queried.
+ */
+export function checkBudget(budget: BudgetConfig | undefined, db: Pick<LineuDatabase, 'getSpend'>): BudgetStatus | null {
+  return budget ? budgetStatus(budget, db.getSpend()) : null;
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// "Daily budget of $20.00 reached ($20.41 spent today)", or null within budget
+export function budgetWarning(status: BudgetStatus): string | null {
+  if (status.exceeded === 'daily') {
+    return `Daily budget of ${formatUsd(status.daily_usd!)} reached (${formatUsd(status.spent_today_usd)} spent today)`;
+  }
+  if (status.exceeded === 'monthly') {
+    return `Monthly budget of ${formatUsd(status.monthly_usd!)} reached (${formatUsd(status.spent_month_usd)} spent this month)`;
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { findOwnerRule, loadCodeowners, parseCodeowners } from './codeowners.js';
+
+const CODEOWNERS = `
+# Default owners
+*                       @acme/platform
+
+*.sql                   @acme/dba
+/src/payments/          @acme/payments @maria   # payments squad
+docs/*                  @acme/docs
+apps/**/migrations      @acme/dba
+/src/payments/legacy/
+[Section]
+`;
+
+describe('parseCodeowners', () => {
+  it('skips comments, blank lines and section headers', () => {
+    const { rules } = parseCodeowners(CODEOWNERS, 'CODEOWNERS');
+
+    expect(rules.map(r => [r.pattern, r.owners, r.line])).toEqual([
+      ['*', ['@acme/platform'], 3],
+      ['*.sql', ['@acme/dba'], 5],
+      ['/src/payments/', ['@acme/payments', '@maria'], 6],
+      ['docs/*', ['@acme/docs'], 7],
+      ['apps/**/migrations', ['@acme/dba'], 8],
+      ['/src/payments/legacy/', [], 9],
+    ]);
+  });
+});
+
+describe('findOwnerRule', () => {
+  const codeowners = parseCodeowners(CODEOWNERS, 'CODEOWNERS');
+  const owners = (file: string) => findOwnerRule(codeowners, file)?.owners;
+
+  it('uses the last matching rule', () => {
+    expect(owners('README.md')).toEqual(['@acme/platform']);
+    expect(owners('src/payments/charge.ts')).toEqual(['@acme/payments', '@maria']);
+    expect(owners('db/schema.sql')).toEqual(['@acme/dba']);
+    // A rule without owners removes ownership
+    expect(owners('src/payments/legacy/old.ts')).toEqual([]);
+  });
+
+  it('anchors patterns with a slash and matches the rest at any depth', () => {
+    expect(owners('lib/src/payments/charge.ts')).toEqual(['@acme/platform']);
+    expect(owners('apps/web/db/migrations/001.sql')).toEqual(['@acme/dba']);
+    expect(owners('apps/migrations/002.ts')).toEqual(['@acme/dba']);
+  });
+
+  it('matches only direct children for a trailing "*"', () => {
+    expect(owners('docs/setup.md')).toEqual(['@acme/docs']);
+    expect(owners('docs/guides/setup.md')).toEqual(['@acme/platform']);
+  });
+
+  it('normalizes "./" and leading slashes of affected files', () => {
+    expect(owners('./src/payments/charge.ts')).toEqual(['@acme/payments', '@maria']);
+    expect(owners('/src/payments/charge.ts')).toEqual(['@acme/payments', '@maria']);
+  });
+});
+
+describe('loadCodeowners', () => {
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'lineu-codeowners-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('prefers .github/CODEOWNERS over the root and docs files', () => {
+    fs.mkdirSync(path.join(repoPath, '.github'));
+    fs.writeFileSync(path.join(repoPath, 'CODEOWNERS'), '* @root\n');
+    fs.writeFileSync(path.join(repoPath, '.github', 'CODEOWNERS'), '* @github\n');
+
+    const codeowners = loadCodeowners(repoPath);
+
+    expect(codeowners?.path).toBe('.github/CODEOWNERS');
+    expect(codeowners?.rules[0].owners).toEqual(['@github']);
+  });
+
+  it('returns null when the repository has no CODEOWNERS', () => {
+    expect(loadCodeowners(repoPath)).toBeNull();
+  });
+});
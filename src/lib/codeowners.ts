@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import { globToRegExp, normalizePath } from './glob.js';
+
+// Where GitHub looks for the file, in order
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeownersRule {
+  pattern: string;
+  // @user, @org/team or an email; empty when the rule removes ownership
+  owners: string[];
+  // 1-based line in the file
+  line: number;
+  regex: RegExp;
+}
+
+export interface Codeowners {
+  // Relative to the repository root
+  path: string;
+  rules: CodeownersRule[];
+}
+
+export function parseCodeowners(content: string, file: string): Codeowners {
+  const rules: CodeownersRule[] = [];
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const text = raw.replace(/(^|\s)#.*$/, '').trim();
+    // Blank lines, comments and GitLab section headers
+    if (!text || text.startsWith('[') || text.startsWith('^[')) return;
+
+    const [pattern, ...owners] = text.split(/\s+/);
+    rules.push({ pattern, owners, line: index + 1, regex: globToRegExp(pattern) });
+  });
+  return { path: file, rules };
+}
+
+// Reads the repository's CODEOWNERS, or null when it has none
+export function loadCodeowners(repoPath: string): Codeowners | null {
+  for (const file of CODEOWNERS_PATHS) {
+    const fullPath = path.join(repoPath, file);
+    if (fs.existsSync(fullPath)) {
+      return parseCodeowners(fs.readFileSync(fullPath, 'utf-8'), file);
+    }
+  }
+  return null;
+}
+
+// Rule that owns a file: the last matching one, as on GitHub
+export function findOwnerRule(codeowners: Codeowners, file: string): CodeownersRule | undefined {
+  const normalized = normalizePath(file);
+  for (let i = codeowners.rules.length - 1; i >= 0; i--) {
+    if (codeowners.rules[i].regex.test(normalized)) {
+      return codeowners.rules[i];
+    }
+  }
+  return undefined;
+}
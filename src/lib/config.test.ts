@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { loadConfigFile, loadConfig } from './config.js';
+import { verifyWebhookRequest } from './webhook-auth.js';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
@@ -84,6 +86,363 @@ teams:
       'teams must be an array of strings'
     );
   });
+
+  it('parses webhook sources with defaults and secrets from the environment', () => {
+    process.env.TEST_SENTRY_SECRET = 'from-env';
+    const configContent = `
+sources:
+  - name: internal
+    route: generic
+    verify: hmac
+    secret: s3cret
+    header: X-Signature
+    timestamp_header: X-Timestamp
+  - name: sentry-prod
+    route: sentry
+    verify: sentry
+    secret_env: TEST_SENTRY_SECRET
+    tolerance: 60
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    const result = loadConfigFile(testConfigPath);
+    delete process.env.TEST_SENTRY_SECRET;
+
+    expect(result?.teams).toBeUndefined();
+    expect(result?.sources).toEqual([
+      {
+        name: 'internal',
+        route: 'generic',
+        verify: 'hmac',
+        secret: 's3cret',
+        header: 'x-signature',
+        timestampHeader: 'x-timestamp',
+        tolerance: 300,
+      },
+      { name: 'sentry-prod', route: 'sentry', verify: 'sentry', secret: 'from-env', tolerance: 60 },
+    ]);
+  });
+
+  it('requires a signed timestamp for hmac sources unless replay protection is off', () => {
+    const configContent = `
+sources:
+  - name: internal
+    route: generic
+    verify: hmac
+    secret: s3cret
+  - name: legacy
+    route: generic
+    verify: hmac
+    secret: s3cret
+    replay_protection: false
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    const sources = loadConfigFile(testConfigPath)?.sources;
+
+    expect(sources?.[0]).toMatchObject({ header: 'x-lineu-signature', timestampHeader: 'x-lineu-timestamp' });
+    expect(sources?.[1].timestampHeader).toBeUndefined();
+    // The default source rejects a signed body replayed without a timestamp
+    const body = Buffer.from('{"error":"TypeError"}');
+    const signature = crypto.createHmac('sha256', 's3cret').update(body).digest('hex');
+    expect(verifyWebhookRequest(sources!.slice(0, 1), 'generic', { 'x-lineu-signature': signature }, body))
+      .toEqual({ ok: false, reason: 'Missing timestamp' });
+  });
+
+  it('throws clear error when a timestamp header is set without replay protection', () => {
+    const configContent = `
+sources:
+  - name: internal
+    route: generic
+    verify: hmac
+    secret: s3cret
+    timestamp_header: X-Timestamp
+    replay_protection: false
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(() => loadConfigFile(testConfigPath)).toThrow(
+      'sources[0].timestamp_header cannot be set when replay_protection is false'
+    );
+  });
+
+  it('throws clear error when a source has no secret', () => {
+    const configContent = `
+sources:
+  - name: internal
+    route: generic
+    verify: bearer
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(() => loadConfigFile(testConfigPath)).toThrow(
+      'sources[0]: secret or secret_env is required'
+    );
+  });
+
+  it('throws clear error when a source has an unknown verification scheme', () => {
+    const configContent = `
+sources:
+  - name: internal
+    route: generic
+    verify: basic
+    secret: x
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(() => loadConfigFile(testConfigPath)).toThrow(
+      'sources[0].verify must be one of: hmac, sentry, bearer'
+    );
+  });
+
+  it('parses fingerprint rules with compiled match patterns', () => {
+    const configContent = `
+fingerprint:
+  - name: checkout-by-class
+    match:
+      service: ^checkout$
+    fields: [error.class]
+  - match:
+      message: "^Connection reset"
+    group: connection-reset
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    const rules = loadConfigFile(testConfigPath)?.fingerprint;
+    expect(rules).toEqual([
+      { name: 'checkout-by-class', match: [{ path: 'service', pattern: /^checkout$/ }], fields: ['error.class'] },
+      { name: 'fingerprint[1]', match: [{ path: 'message', pattern: /^Connection reset/ }], group: 'connection-reset' },
+    ]);
+  });
+
+  it('throws clear error when a fingerprint rule has more than one action', () => {
+    const configContent = `
+fingerprint:
+  - match: { service: checkout }
+    fields: [message]
+    group: checkout
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(() => loadConfigFile(testConfigPath)).toThrow(
+      'fingerprint[0] must define exactly one of: fields, ignore, group'
+    );
+  });
+
+  it('throws clear error when a fingerprint match pattern is invalid', () => {
+    const configContent = `
+fingerprint:
+  - match: { message: "([" }
+    group: broken
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(() => loadConfigFile(testConfigPath)).toThrow(
+      'fingerprint[0].match.message is not a valid regular expression'
+    );
+  });
+
+  it('parses occurrence updates with defaults and sorted thresholds', () => {
+    const configContent = `
+occurrence_updates:
+  thresholds: [1000, 10]
+  daily_summary: true
+  priority_bump:
+    per_hour: 500
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(loadConfigFile(testConfigPath)?.occurrenceUpdates).toEqual({
+      thresholds: [10, 1000],
+      dailySummary: true,
+      priorityBump: { perHour: 500, priority: 1 },
+    });
+  });
+
+  it('throws clear error when an occurrence threshold is not a positive integer', () => {
+    fs.writeFileSync(testConfigPath, 'occurrence_updates:\n  thresholds: [10, -1]\n');
+
+    expect(() => loadConfigFile(testConfigPath)).toThrow(
+      'occurrence_updates.thresholds must be an array of positive integers'
+    );
+  });
+
+  it('throws clear error when the regression action is unknown', () => {
+    fs.writeFileSync(testConfigPath, 'regressions: ignore\n');
+
+    expect(() => loadConfigFile(testConfigPath)).toThrow('regressions must be one of: reopen, new_issue');
+  });
+
+  it('parses label mappings with single names and lists', () => {
+    const configContent = `
+labels:
+  create_missing: true
+  category:
+    bug: Bug
+    database: [Database, Backend]
+  service:
+    checkout: Checkout
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(loadConfigFile(testConfigPath)?.labels).toEqual({
+      category: { bug: ['Bug'], database: ['Database', 'Backend'] },
+      priority: {},
+      source: {},
+      environment: {},
+      service: { checkout: ['Checkout'] },
+      createMissing: true,
+    });
+  });
+
+  it('throws clear error for unsupported label attributes and values', () => {
+    fs.writeFileSync(testConfigPath, 'labels:\n  team:\n    ENG: Eng\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('labels.team is not supported');
+
+    fs.writeFileSync(testConfigPath, 'labels:\n  priority:\n    critical: 1\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow(
+      'labels.priority.critical must be a label name or a list of label names'
+    );
+  });
+
+  it('parses owner mappings given as a team key or team and assignee', () => {
+    const configContent = `
+owners:
+  "@acme/payments": PAY
+  "@maria":
+    team: ENG
+    assignee: maria@acme.dev
+  "@joao":
+    assignee: joao@acme.dev
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(loadConfigFile(testConfigPath)?.owners).toEqual({
+      '@acme/payments': { team: 'PAY' },
+      '@maria': { team: 'ENG', assignee: 'maria@acme.dev' },
+      '@joao': { assignee: 'joao@acme.dev' },
+    });
+  });
+
+  it('throws clear error for owner mappings without a team or assignee', () => {
+    fs.writeFileSync(testConfigPath, 'owners:\n  "@maria": {}\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('owners.@maria must set team or assignee');
+
+    fs.writeFileSync(testConfigPath, 'owners:\n  "@maria":\n    project: ENG\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('owners.@maria.project is not supported');
+  });
+
+  it('parses routing rules and the default team', () => {
+    const configContent = `
+routing:
+  default_team: ENG
+  rules:
+    - name: drop-staging
+      match:
+        event:
+          environment: ^staging$
+      skip: true
+    - match:
+        category: database
+        files: ["src/payments/**", "db/**"]
+        service: [checkout, payments]
+        payload:
+          error.class: Deadlock
+      team: PAY
+      project: Reliability
+      priority: critical
+      labels: Payments
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    const routing = loadConfigFile(testConfigPath)?.routing;
+
+    expect(routing?.defaultTeam).toBe('ENG');
+    expect(routing?.rules).toEqual([
+      { name: 'drop-staging', match: { payload: [], event: [{ path: 'environment', pattern: /^staging$/ }] }, skip: true },
+      {
+        name: 'routing.rules[1]',
+        match: {
+          payload: [{ path: 'error.class', pattern: /Deadlock/ }],
+          event: [],
+          category: ['database'],
+          files: ['src/payments/**', 'db/**'],
+          service: ['checkout', 'payments'],
+        },
+        team: 'PAY',
+        project: 'Reliability',
+        priority: 'critical',
+        labels: ['Payments'],
+      },
+    ]);
+  });
+
+  it('throws clear error for invalid routing rules', () => {
+    fs.writeFileSync(testConfigPath, 'routing:\n  rules:\n    - match:\n        category: bug\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('routing.rules[0] must set at least one of: team, project, priority, labels, skip');
+
+    fs.writeFileSync(testConfigPath, 'routing:\n  rules:\n    - skip: true\n      team: ENG\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('routing.rules[0] cannot combine skip with other actions');
+
+    fs.writeFileSync(testConfigPath, 'routing:\n  rules:\n    - priority: urgent\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('routing.rules[0].priority must be one of: critical, high, medium, low');
+
+    fs.writeFileSync(testConfigPath, 'routing:\n  rules:\n    - team: ENG\n      match:\n        host: web-1\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('routing.rules[0].match.host is not supported');
+
+    fs.writeFileSync(testConfigPath, 'routing:\n  rules:\n    - team: ENG\n      match:\n        payload:\n          message: "("\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('routing.rules[0].match.payload.message is not a valid regular expression');
+  });
+
+  it('parses ignore rules', () => {
+    const configContent = `
+ignore:
+  - name: bots
+    message: "^Not Found: /wp-"
+    environment: production
+  - exception_type: [ClientAbortError, EPIPE]
+    service: checkout
+`;
+    fs.writeFileSync(testConfigPath, configContent);
+
+    expect(loadConfigFile(testConfigPath)?.ignore).toEqual([
+      { name: 'bots', message: /^Not Found: \/wp-/, environment: ['production'] },
+      { name: 'ignore[1]', exceptionType: ['ClientAbortError', 'EPIPE'], service: ['checkout'] },
+    ]);
+  });
+
+  it('throws clear error for invalid ignore rules', () => {
+    fs.writeFileSync(testConfigPath, 'ignore:\n  - name: everything\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('ignore[0] must set at least one of: message, exception_type, service, environment');
+
+    fs.writeFileSync(testConfigPath, 'ignore:\n  - host: web-1\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('ignore[0].host is not supported');
+
+    fs.writeFileSync(testConfigPath, 'ignore:\n  - message: "("\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('ignore[0].message is not a valid regular expression');
+
+    fs.writeFileSync(testConfigPath, 'ignore:\n  message: boom\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('ignore must be an array of rules');
+  });
+
+  it('parses the template language', () => {
+    fs.writeFileSync(testConfigPath, 'language: en\n');
+    expect(loadConfigFile(testConfigPath)?.language).toBe('en');
+
+    fs.writeFileSync(testConfigPath, 'language: pt\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('language must be one of: en, pt-BR');
+  });
+
+  it('parses budget caps', () => {
+    fs.writeFileSync(testConfigPath, 'budget:\n  daily_usd: 20\n  monthly_usd: 250.5\n');
+    expect(loadConfigFile(testConfigPath)?.budget).toEqual({ dailyUsd: 20, monthlyUsd: 250.5 });
+
+    fs.writeFileSync(testConfigPath, 'budget:\n  daily_usd: 0\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('budget.daily_usd must be a positive number');
+
+    fs.writeFileSync(testConfigPath, 'budget: {}\n');
+    expect(() => loadConfigFile(testConfigPath)).toThrow('budget must set daily_usd or monthly_usd');
+  });
 });
 
 describe('loadConfig', () => {
@@ -93,6 +452,9 @@ describe('loadConfig', () => {
     process.env = { ...originalEnv };
     delete process.env.LINEAR_API_KEY;
     delete process.env.LINEU_REPO;
+    delete process.env.LINEU_TRACKER;
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.JIRA_URL;
   });
 
   afterEach(() => {
@@ -112,4 +474,65 @@ describe('loadConfig', () => {
       'Repository path is required. Use --repo or set LINEU_REPO'
     );
   });
+
+  it('requires positive integer concurrency settings', () => {
+    process.env.LINEAR_API_KEY = 'test-key';
+    process.env.LINEU_WORKER_CONCURRENCY = '4';
+    process.env.LINEU_LINEAR_CONCURRENCY = '3';
+
+    const config = loadConfig({ repo: { path: '/tmp/test-repo' } });
+    expect(config.worker.concurrency).toBe(4);
+    expect(config.linear?.concurrency).toBe(3);
+
+    for (const value of ['0', '-1', 'abc', '2.5']) {
+      process.env.LINEU_WORKER_CONCURRENCY = value;
+      expect(() => loadConfig({ repo: { path: '/tmp/test-repo' } })).toThrow('LINEU_WORKER_CONCURRENCY must be a positive integer');
+    }
+    delete process.env.LINEU_WORKER_CONCURRENCY;
+    process.env.LINEU_LINEAR_CONCURRENCY = '0';
+    expect(() => loadConfig({ repo: { path: '/tmp/test-repo' } })).toThrow('LINEU_LINEAR_CONCURRENCY must be a positive integer');
+  });
+
+  it('reads the GitHub and Jira API concurrency', () => {
+    process.env.LINEU_TRACKER = 'github';
+    process.env.GITHUB_TOKEN = 'ghp_test';
+    process.env.LINEU_GITHUB_CONCURRENCY = '5';
+    expect(loadConfig({ repo: { path: '/tmp/test-repo' } }).github?.concurrency).toBe(5);
+
+    process.env.LINEU_TRACKER = 'jira';
+    process.env.JIRA_URL = 'https://acme.atlassian.net';
+    process.env.JIRA_EMAIL = 'bot@acme.com';
+    process.env.JIRA_API_TOKEN = 'token';
+    process.env.LINEU_JIRA_CONCURRENCY = '3';
+    expect(loadConfig({ repo: { path: '/tmp/test-repo' } }).jira?.concurrency).toBe(3);
+    process.env.LINEU_JIRA_CONCURRENCY = 'abc';
+    expect(() => loadConfig({ repo: { path: '/tmp/test-repo' } })).toThrow('LINEU_JIRA_CONCURRENCY must be a positive integer');
+  });
+
+  it('does not require LINEAR_API_KEY for other trackers', () => {
+    process.env.LINEU_TRACKER = 'github';
+    process.env.GITHUB_TOKEN = 'ghp_test';
+
+    const config = loadConfig({ repo: { path: '/tmp/test-repo' } });
+
+    expect(config.tracker).toBe('github');
+    expect(config.linear).toBeUndefined();
+    expect(config.github).toEqual({ token: 'ghp_test', apiUrl: 'https://api.github.com', concurrency: 2 });
+  });
+
+  it('requires the credentials of the selected tracker', () => {
+    process.env.LINEU_TRACKER = 'jira';
+
+    expect(() => loadConfig({ repo: { path: '/tmp/test-repo' } })).toThrow(
+      'JIRA_URL is required when LINEU_TRACKER is jira'
+    );
+  });
+
+  it('throws clear error when the tracker is unknown', () => {
+    process.env.LINEU_TRACKER = 'trello';
+
+    expect(() => loadConfig({ repo: { path: '/tmp/test-repo' } })).toThrow(
+      'LINEU_TRACKER must be one of: linear, github, jira'
+    );
+  });
 });
@@ -3,13 +3,450 @@ import yaml from 'js-yaml';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import type { LineuConfig, ConfigFileResult } from '../types.js';
+import type {
+  LineuConfig,
+  ConfigFileResult,
+  WebhookSource,
+  WebhookRoute,
+  WebhookVerification,
+  FingerprintRule,
+  FingerprintRuleMatch,
+  OccurrenceUpdateConfig,
+  RegressionAction,
+  TrackerKind,
+  LabelMapping,
+  OwnerMapping,
+  RoutingConfig,
+  RoutingRule,
+  RoutingRuleMatch,
+  ClaudeAnalysis,
+  IgnoreRule,
+  TemplateLanguage,
+  BudgetConfig,
+} from '../types.js';
+import { DEFAULT_OCCURRENCE_UPDATES } from './occurrence-updates.js';
+import { TEMPLATE_LANGUAGES } from './templates.js';
 
 loadDotenv();
 
 interface ConfigFile {
-  teams?: string[];
-  prefix?: string;
+  teams?: unknown;
+  prefix?: unknown;
+  sources?: unknown;
+  fingerprint?: unknown;
+  occurrence_updates?: unknown;
+  regressions?: unknown;
+  labels?: unknown;
+  owners?: unknown;
+  routing?: unknown;
+  ignore?: unknown;
+  language?: unknown;
+  budget?: unknown;
+}
+
+const WEBHOOK_ROUTES: WebhookRoute[] = ['generic', 'sentry', 'newrelic', 'alertmanager'];
+const WEBHOOK_VERIFICATIONS: WebhookVerification[] = ['hmac', 'sentry', 'bearer'];
+const DEFAULT_SIGNATURE_HEADER = 'x-lineu-signature';
+const DEFAULT_TIMESTAMP_HEADER = 'x-lineu-timestamp';
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const REGRESSION_ACTIONS: RegressionAction[] = ['reopen', 'new_issue'];
+const TRACKERS: TrackerKind[] = ['linear', 'github', 'jira'];
+const LABEL_ATTRIBUTES = ['category', 'priority', 'source', 'environment', 'service'] as const;
+const ROUTING_CONDITIONS = ['payload', 'event', 'category', 'files', 'service'];
+const ROUTING_ACTIONS = ['team', 'project', 'priority', 'labels', 'skip'];
+const PRIORITIES: ClaudeAnalysis['priority'][] = ['critical', 'high', 'medium', 'low'];
+const IGNORE_CONDITIONS = ['message', 'exception_type', 'service', 'environment'];
+
+function parseSource(entry: unknown, index: number): WebhookSource {
+  const where = `sources[${index}]`;
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const raw = entry as Record<string, unknown>;
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    throw new Error(`${where}.name is required`);
+  }
+  if (!WEBHOOK_ROUTES.includes(raw.route as WebhookRoute)) {
+    throw new Error(`${where}.route must be one of: ${WEBHOOK_ROUTES.join(', ')}`);
+  }
+  if (!WEBHOOK_VERIFICATIONS.includes(raw.verify as WebhookVerification)) {
+    throw new Error(`${where}.verify must be one of: ${WEBHOOK_VERIFICATIONS.join(', ')}`);
+  }
+
+  // Secrets can be read from the environment to keep them out of the file
+  let secret = raw.secret;
+  if (typeof raw.secret_env === 'string') {
+    secret = process.env[raw.secret_env];
+    if (!secret) {
+      throw new Error(`${where}.secret_env: environment variable ${raw.secret_env} is not set`);
+    }
+  }
+  if (typeof secret !== 'string' || secret === '') {
+    throw new Error(`${where}: secret or secret_env is required`);
+  }
+
+  if (raw.tolerance !== undefined && (typeof raw.tolerance !== 'number' || raw.tolerance <= 0)) {
+    throw new Error(`${where}.tolerance must be a positive number of seconds`);
+  }
+  if (raw.replay_protection !== undefined && typeof raw.replay_protection !== 'boolean') {
+    throw new Error(`${where}.replay_protection must be true or false`);
+  }
+
+  const verify = raw.verify as WebhookVerification;
+  // HMAC signatures cover a timestamp unless replay protection is turned off
+  const replayProtection = raw.replay_protection !== false;
+  if (verify === 'hmac' && !replayProtection && raw.timestamp_header !== undefined) {
+    throw new Error(`${where}.timestamp_header cannot be set when replay_protection is false`);
+  }
+  return {
+    name: raw.name,
+    route: raw.route as WebhookRoute,
+    verify,
+    secret,
+    ...(verify === 'hmac' && {
+      header: typeof raw.header === 'string' ? raw.header.toLowerCase() : DEFAULT_SIGNATURE_HEADER,
+      timestampHeader: !replayProtection ? undefined
+        : typeof raw.timestamp_header === 'string' ? raw.timestamp_header.toLowerCase() : DEFAULT_TIMESTAMP_HEADER,
+    }),
+    tolerance: (raw.tolerance as number | undefined) ?? DEFAULT_TOLERANCE_SECONDS,
+  };
+}
+
+function parseSources(raw: unknown): WebhookSource[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('sources must be an array');
+  }
+  const sources = raw.map(parseSource);
+  const names = new Set<string>();
+  for (const source of sources) {
+    if (names.has(source.name)) {
+      throw new Error(`Duplicate source name: ${source.name}`);
+    }
+    names.add(source.name);
+  }
+  return sources;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v !== '');
+}
+
+function parseRuleMatch(raw: unknown, where: string): FingerprintRuleMatch[] {
+  if (raw === undefined) return [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${where} must map JSON paths to patterns`);
+  }
+  return Object.entries(raw as Record<string, unknown>).map(([path, value]) => {
+    if (typeof value !== 'string') {
+      throw new Error(`${where}.${path} must be a string pattern`);
+    }
+    try {
+      return { path, pattern: new RegExp(value) };
+    } catch {
+      throw new Error(`${where}.${path} is not a valid regular expression`);
+    }
+  });
+}
+
+function parseFingerprintRule(entry: unknown, index: number): FingerprintRule {
+  const where = `fingerprint[${index}]`;
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const raw = entry as Record<string, unknown>;
+
+  const actions = ['fields', 'ignore', 'group'].filter(key => raw[key] !== undefined);
+  if (actions.length !== 1) {
+    throw new Error(`${where} must define exactly one of: fields, ignore, group`);
+  }
+  if (raw.fields !== undefined && !isStringArray(raw.fields)) {
+    throw new Error(`${where}.fields must be a non-empty array of JSON paths`);
+  }
+  if (raw.ignore !== undefined && !isStringArray(raw.ignore)) {
+    throw new Error(`${where}.ignore must be a non-empty array of field names`);
+  }
+  if (raw.group !== undefined && (typeof raw.group !== 'string' || raw.group.trim() === '')) {
+    throw new Error(`${where}.group must be a non-empty string`);
+  }
+
+  return {
+    name: typeof raw.name === 'string' && raw.name !== '' ? raw.name : where,
+    match: parseRuleMatch(raw.match, `${where}.match`),
+    ...(raw.fields !== undefined && { fields: raw.fields as string[] }),
+    ...(raw.ignore !== undefined && { ignore: raw.ignore as string[] }),
+    ...(raw.group !== undefined && { group: raw.group as string }),
+  };
+}
+
+function parseFingerprintRules(raw: unknown): FingerprintRule[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('fingerprint must be an array of rules');
+  }
+  return raw.map(parseFingerprintRule);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function parseOccurrenceUpdates(raw: unknown): OccurrenceUpdateConfig {
+  const where = 'occurrence_updates';
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+
+  let thresholds = DEFAULT_OCCURRENCE_UPDATES.thresholds;
+  if (entry.thresholds !== undefined) {
+    if (!Array.isArray(entry.thresholds) || !entry.thresholds.every(isPositiveInteger)) {
+      throw new Error(`${where}.thresholds must be an array of positive integers`);
+    }
+    thresholds = [...entry.thresholds].sort((a, b) => a - b);
+  }
+
+  if (entry.daily_summary !== undefined && typeof entry.daily_summary !== 'boolean') {
+    throw new Error(`${where}.daily_summary must be true or false`);
+  }
+
+  let priorityBump: OccurrenceUpdateConfig['priorityBump'];
+  if (entry.priority_bump !== undefined) {
+    const bump = entry.priority_bump as Record<string, unknown> | null;
+    if (!bump || typeof bump !== 'object' || !isPositiveInteger(bump.per_hour)) {
+      throw new Error(`${where}.priority_bump.per_hour must be a positive integer`);
+    }
+    const priority = bump.priority ?? 1;
+    if (!isPositiveInteger(priority) || priority > 4) {
+      throw new Error(`${where}.priority_bump.priority must be 1 (urgent) to 4 (low)`);
+    }
+    priorityBump = { perHour: bump.per_hour, priority };
+  }
+
+  return {
+    thresholds,
+    dailySummary: (entry.daily_summary as boolean | undefined) ?? DEFAULT_OCCURRENCE_UPDATES.dailySummary,
+    ...(priorityBump && { priorityBump }),
+  };
+}
+
+// Each attribute maps values to one label name or a list of them
+function parseLabelMap(raw: unknown, where: string): Record<string, string[]> {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${where} must map values to label names`);
+  }
+  return Object.fromEntries(Object.entries(raw as Record<string, unknown>).map(([value, labels]) => {
+    if (typeof labels === 'string' && labels.trim() !== '') return [value, [labels]];
+    if (isStringArray(labels)) return [value, labels];
+    throw new Error(`${where}.${value} must be a label name or a list of label names`);
+  }));
+}
+
+function parseLabels(raw: unknown): LabelMapping {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('labels must be an object');
+  }
+  const entry = raw as Record<string, unknown>;
+
+  const unknown = Object.keys(entry).filter(key => key !== 'create_missing' && !(LABEL_ATTRIBUTES as readonly string[]).includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`labels.${unknown[0]} is not supported; use: ${LABEL_ATTRIBUTES.join(', ')}, create_missing`);
+  }
+  if (entry.create_missing !== undefined && typeof entry.create_missing !== 'boolean') {
+    throw new Error('labels.create_missing must be true or false');
+  }
+
+  return {
+    category: parseLabelMap(entry.category, 'labels.category'),
+    priority: parseLabelMap(entry.priority, 'labels.priority'),
+    source: parseLabelMap(entry.source, 'labels.source'),
+    environment: parseLabelMap(entry.environment, 'labels.environment'),
+    service: parseLabelMap(entry.service, 'labels.service'),
+    createMissing: (entry.create_missing as boolean | undefined) ?? false,
+  };
+}
+
+// Each owner maps to a team key, or to an object with team and/or assignee
+function parseOwners(raw: unknown): Record<string, OwnerMapping> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('owners must map CODEOWNERS owners to teams');
+  }
+  return Object.fromEntries(Object.entries(raw as Record<string, unknown>).map(([owner, value]) => {
+    if (typeof value === 'string' && value.trim() !== '') return [owner, { team: value }];
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`owners.${owner} must be a team key or an object with team and/or assignee`);
+    }
+    const entry = value as Record<string, unknown>;
+    const unknown = Object.keys(entry).filter(key => key !== 'team' && key !== 'assignee');
+    if (unknown.length > 0) {
+      throw new Error(`owners.${owner}.${unknown[0]} is not supported; use: team, assignee`);
+    }
+    for (const key of ['team', 'assignee']) {
+      if (entry[key] !== undefined && (typeof entry[key] !== 'string' || entry[key] === '')) {
+        throw new Error(`owners.${owner}.${key} must be a non-empty string`);
+      }
+    }
+    if (entry.team === undefined && entry.assignee === undefined) {
+      throw new Error(`owners.${owner} must set team or assignee`);
+    }
+    return [owner, {
+      ...(entry.team !== undefined && { team: entry.team as string }),
+      ...(entry.assignee !== undefined && { assignee: entry.assignee as string }),
+    }];
+  }));
+}
+
+// A single string or a non-empty list of strings
+function parseStringList(raw: unknown, where: string): string[] {
+  if (typeof raw === 'string' && raw.trim() !== '') return [raw];
+  if (isStringArray(raw)) return raw;
+  throw new Error(`${where} must be a string or a list of strings`);
+}
+
+function parseRoutingMatch(raw: unknown, where: string): RoutingRuleMatch {
+  if (raw === undefined) return { payload: [], event: [] };
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${where}.match must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+
+  const unknown = Object.keys(entry).filter(key => !ROUTING_CONDITIONS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`${where}.match.${unknown[0]} is not supported; use: ${ROUTING_CONDITIONS.join(', ')}`);
+  }
+
+  return {
+    payload: parseRuleMatch(entry.payload, `${where}.match.payload`),
+    event: parseRuleMatch(entry.event, `${where}.match.event`),
+    ...(entry.category !== undefined && { category: parseStringList(entry.category, `${where}.match.category`) }),
+    ...(entry.files !== undefined && { files: parseStringList(entry.files, `${where}.match.files`) }),
+    ...(entry.service !== undefined && { service: parseStringList(entry.service, `${where}.match.service`) }),
+  };
+}
+
+function parseRoutingRule(entry: unknown, index: number): RoutingRule {
+  const where = `routing.rules[${index}]`;
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const raw = entry as Record<string, unknown>;
+
+  const actions = ROUTING_ACTIONS.filter(key => raw[key] !== undefined);
+  if (actions.length === 0) {
+    throw new Error(`${where} must set at least one of: ${ROUTING_ACTIONS.join(', ')}`);
+  }
+  if (raw.skip !== undefined && raw.skip !== true) {
+    throw new Error(`${where}.skip must be true`);
+  }
+  if (raw.skip && actions.length > 1) {
+    throw new Error(`${where} cannot combine skip with other actions`);
+  }
+  for (const key of ['team', 'project']) {
+    if (raw[key] !== undefined && (typeof raw[key] !== 'string' || raw[key] === '')) {
+      throw new Error(`${where}.${key} must be a non-empty string`);
+    }
+  }
+  if (raw.priority !== undefined && !PRIORITIES.includes(raw.priority as ClaudeAnalysis['priority'])) {
+    throw new Error(`${where}.priority must be one of: ${PRIORITIES.join(', ')}`);
+  }
+
+  return {
+    name: typeof raw.name === 'string' && raw.name !== '' ? raw.name : where,
+    match: parseRoutingMatch(raw.match, where),
+    ...(raw.team !== undefined && { team: raw.team as string }),
+    ...(raw.project !== undefined && { project: raw.project as string }),
+    ...(raw.priority !== undefined && { priority: raw.priority as ClaudeAnalysis['priority'] }),
+    ...(raw.labels !== undefined && { labels: parseStringList(raw.labels, `${where}.labels`) }),
+    ...(raw.skip === true && { skip: true }),
+  };
+}
+
+function parseRouting(raw: unknown): RoutingConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('routing must be an object with default_team and/or rules');
+  }
+  const entry = raw as Record<string, unknown>;
+
+  const unknown = Object.keys(entry).filter(key => key !== 'default_team' && key !== 'rules');
+  if (unknown.length > 0) {
+    throw new Error(`routing.${unknown[0]} is not supported; use: default_team, rules`);
+  }
+  if (entry.default_team !== undefined && (typeof entry.default_team !== 'string' || entry.default_team === '')) {
+    throw new Error('routing.default_team must be a team key');
+  }
+  if (entry.rules !== undefined && !Array.isArray(entry.rules)) {
+    throw new Error('routing.rules must be an array of rules');
+  }
+
+  return {
+    ...(entry.default_team !== undefined && { defaultTeam: entry.default_team as string }),
+    rules: ((entry.rules ?? []) as unknown[]).map(parseRoutingRule),
+  };
+}
+
+function parseIgnoreRule(entry: unknown, index: number): IgnoreRule {
+  const where = `ignore[${index}]`;
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const raw = entry as Record<string, unknown>;
+
+  const unknown = Object.keys(raw).filter(key => key !== 'name' && !IGNORE_CONDITIONS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`${where}.${unknown[0]} is not supported; use: name, ${IGNORE_CONDITIONS.join(', ')}`);
+  }
+  // A rule without conditions would drop every event
+  if (!IGNORE_CONDITIONS.some(key => raw[key] !== undefined)) {
+    throw new Error(`${where} must set at least one of: ${IGNORE_CONDITIONS.join(', ')}`);
+  }
+
+  let message: RegExp | undefined;
+  if (raw.message !== undefined) {
+    if (typeof raw.message !== 'string' || raw.message === '') {
+      throw new Error(`${where}.message must be a string pattern`);
+    }
+    try {
+      message = new RegExp(raw.message);
+    } catch {
+      throw new Error(`${where}.message is not a valid regular expression`);
+    }
+  }
+
+  return {
+    name: typeof raw.name === 'string' && raw.name !== '' ? raw.name : where,
+    ...(message && { message }),
+    ...(raw.exception_type !== undefined && { exceptionType: parseStringList(raw.exception_type, `${where}.exception_type`) }),
+    ...(raw.service !== undefined && { service: parseStringList(raw.service, `${where}.service`) }),
+    ...(raw.environment !== undefined && { environment: parseStringList(raw.environment, `${where}.environment`) }),
+  };
+}
+
+function parseIgnoreRules(raw: unknown): IgnoreRule[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('ignore must be an array of rules');
+  }
+  return raw.map(parseIgnoreRule);
+}
+
+function parseBudget(raw: unknown): BudgetConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('budget must be an object');
+  }
+  const entry = raw as Record<string, unknown>;
+
+  const budget: BudgetConfig = {};
+  for (const [key, field] of [['daily_usd', 'dailyUsd'], ['monthly_usd', 'monthlyUsd']] as const) {
+    const value = entry[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`budget.${key} must be a positive number`);
+    }
+    budget[field] = value;
+  }
+  if (Object.keys(budget).length === 0) {
+    throw new Error('budget must set daily_usd or monthly_usd');
+  }
+  return budget;
 }
 
 export function getDefaultConfigPath(): string {
@@ -20,6 +457,11 @@ export function getDefaultDatabasePath(): string {
   return path.join(os.homedir(), '.lineu', 'lineu.db');
 }
 
+// Also used by commands that do not need the full config (lineu fingerprint)
+export function getFingerprintFrameLimit(): number {
+  return parseInt(process.env.LINEU_FINGERPRINT_FRAMES || '5', 10);
+}
+
 export function loadConfigFile(configPath?: string, isExplicit = false): ConfigFileResult | null {
   const filePath = configPath || getDefaultConfigPath();
   const expandedPath = filePath.startsWith('~/')
@@ -28,19 +470,76 @@ export function loadConfigFile(configPath?: string, isExplicit = false): ConfigF
 
   try {
     const content = fs.readFileSync(expandedPath, 'utf8');
-    const parsed = yaml.load(content, { filename: expandedPath }) as ConfigFile;
-
-    if (parsed?.teams && Array.isArray(parsed.teams)) {
-      if (parsed.teams.every(t => typeof t === 'string')) {
-        console.log(`[Config] Loaded from ${expandedPath}`);
-        return {
-          teams: parsed.teams,
-          prefix: typeof parsed.prefix === 'string' ? parsed.prefix : undefined,
-        };
+    const parsed = yaml.load(content, { filename: expandedPath }) as ConfigFile | undefined;
+    if (!parsed || typeof parsed !== 'object') {
+      return null;
+    }
+
+    const result: ConfigFileResult = {};
+
+    if (parsed.teams !== undefined) {
+      if (!Array.isArray(parsed.teams) || !parsed.teams.every(t => typeof t === 'string')) {
+        throw new Error('teams must be an array of strings');
       }
-      throw new Error('teams must be an array of strings');
+      result.teams = parsed.teams;
     }
-    return null;
+
+    if (typeof parsed.prefix === 'string') {
+      result.prefix = parsed.prefix;
+    }
+
+    if (parsed.sources !== undefined) {
+      result.sources = parseSources(parsed.sources);
+    }
+
+    if (parsed.fingerprint !== undefined) {
+      result.fingerprint = parseFingerprintRules(parsed.fingerprint);
+    }
+
+    if (parsed.occurrence_updates !== undefined) {
+      result.occurrenceUpdates = parseOccurrenceUpdates(parsed.occurrence_updates);
+    }
+
+    if (parsed.regressions !== undefined) {
+      if (!REGRESSION_ACTIONS.includes(parsed.regressions as RegressionAction)) {
+        throw new Error(`regressions must be one of: ${REGRESSION_ACTIONS.join(', ')}`);
+      }
+      result.regressions = parsed.regressions as RegressionAction;
+    }
+
+    if (parsed.labels !== undefined) {
+      result.labels = parseLabels(parsed.labels);
+    }
+
+    if (parsed.owners !== undefined) {
+      result.owners = parseOwners(parsed.owners);
+    }
+
+    if (parsed.routing !== undefined) {
+      result.routing = parseRouting(parsed.routing);
+    }
+
+    if (parsed.ignore !== undefined) {
+      result.ignore = parseIgnoreRules(parsed.ignore);
+    }
+
+    if (parsed.language !== undefined) {
+      if (!TEMPLATE_LANGUAGES.includes(parsed.language as TemplateLanguage)) {
+        throw new Error(`language must be one of: ${TEMPLATE_LANGUAGES.join(', ')}`);
+      }
+      result.language = parsed.language as TemplateLanguage;
+    }
+
+    if (parsed.budget !== undefined) {
+      result.budget = parseBudget(parsed.budget);
+    }
+
+    if (Object.keys(result).length === 0) {
+      return null;
+    }
+
+    console.log(`[Config] Loaded from ${expandedPath}`);
+    return result;
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       if (isExplicit) {
@@ -52,6 +551,16 @@ export function loadConfigFile(configPath?: string, isExplicit = false): ConfigF
   }
 }
 
+// Pool sizes: parseInt would turn "abc" into NaN and "0" into a pool that never runs
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  if (!/^\d+$/.test(raw.trim()) || parseInt(raw, 10) <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parseInt(raw, 10);
+}
+
 interface ConfigOverrides {
   repo?: { path?: string; url?: string };
   server?: { port?: number };
@@ -64,12 +573,20 @@ export function loadConfig(overrides: ConfigOverrides = {}): LineuConfig {
     throw new Error('Repository path is required. Use --repo or set LINEU_REPO');
   }
 
-  const linearApiKey = process.env.LINEAR_API_KEY;
-
-  if (!linearApiKey) {
-    throw new Error('LINEAR_API_KEY is required');
+  const tracker = (process.env.LINEU_TRACKER || 'linear') as TrackerKind;
+  if (!TRACKERS.includes(tracker)) {
+    throw new Error(`LINEU_TRACKER must be one of: ${TRACKERS.join(', ')}`);
   }
 
+  // Only the selected tracker's credentials are required
+  const required = (name: string): string => {
+    const value = process.env[name];
+    if (!value) {
+      throw new Error(`${name} is required when LINEU_TRACKER is ${tracker}`);
+    }
+    return value;
+  };
+
   return {
     server: {
       port: overrides.server?.port || parseInt(process.env.LINEU_PORT || '3000', 10),
@@ -85,15 +602,42 @@ export function loadConfig(overrides: ConfigOverrides = {}): LineuConfig {
       maxTurns: parseInt(process.env.LINEU_CLAUDE_MAX_TURNS || '10', 10),
       timeout: parseInt(process.env.LINEU_CLAUDE_TIMEOUT || '120000', 10),
     },
-    linear: {
-      apiKey: linearApiKey,
-    },
+    tracker,
+    ...(tracker === 'linear' && {
+      linear: {
+        apiKey: required('LINEAR_API_KEY'),
+        concurrency: positiveIntegerEnv('LINEU_LINEAR_CONCURRENCY', 2),
+        webhookSecret: process.env.LINEAR_WEBHOOK_SECRET || undefined,
+      },
+    }),
+    ...(tracker === 'github' && {
+      github: {
+        token: required('GITHUB_TOKEN'),
+        apiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+        concurrency: positiveIntegerEnv('LINEU_GITHUB_CONCURRENCY', 2),
+      },
+    }),
+    ...(tracker === 'jira' && {
+      jira: {
+        url: required('JIRA_URL'),
+        email: required('JIRA_EMAIL'),
+        apiToken: required('JIRA_API_TOKEN'),
+        issueType: process.env.JIRA_ISSUE_TYPE || 'Bug',
+        concurrency: positiveIntegerEnv('LINEU_JIRA_CONCURRENCY', 2),
+      },
+    }),
     deduplication: {
       windowDays: parseInt(process.env.LINEU_DEDUP_WINDOW_DAYS || '7', 10),
+      frameLimit: getFingerprintFrameLimit(),
+      issueStateTtl: parseInt(process.env.LINEU_ISSUE_STATE_TTL || '300000', 10),
     },
     worker: {
       pollInterval: parseInt(process.env.LINEU_WORKER_POLL_INTERVAL || '10000', 10),
+      concurrency: positiveIntegerEnv('LINEU_WORKER_CONCURRENCY', 1),
       gitPullInterval: parseInt(process.env.LINEU_GIT_PULL_INTERVAL || '300000', 10),
+      leaseDuration: parseInt(process.env.LINEU_WORKER_LEASE_DURATION || '60000', 10),
+      maxAttempts: parseInt(process.env.LINEU_WORKER_MAX_ATTEMPTS || '5', 10),
+      retryDelay: parseInt(process.env.LINEU_WORKER_RETRY_DELAY || '60000', 10),
     },
   };
 }
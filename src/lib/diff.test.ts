@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { diffStructures } from './diff.js';
+
+describe('diffStructures', () => {
+  it('returns no entries for equal structures', () => {
+    expect(diffStructures({ a: [1, { b: 'x' }] }, { a: [1, { b: 'x' }] })).toEqual([]);
+  });
+
+  it('reports differing leaves by dot path', () => {
+    const left = { exceptionType: 'TypeError', frames: [{ file: 'src/user.ts', function: 'loadProfile' }] };
+    const right = { exceptionType: 'TypeError', frames: [{ file: 'src/user.ts', function: 'saveProfile' }] };
+
+    expect(diffStructures(left, right)).toEqual([
+      { path: 'frames.0.function', left: 'loadProfile', right: 'saveProfile' },
+    ]);
+  });
+
+  it('reports keys present on only one side and type changes', () => {
+    expect(diffStructures({ host: 'web-1', tags: ['a'] }, { tags: { 0: 'a' }, env: 'prod' })).toEqual([
+      { path: 'host', left: 'web-1', right: undefined },
+      { path: 'tags', left: ['a'], right: { 0: 'a' } },
+      { path: 'env', left: undefined, right: 'prod' },
+    ]);
+  });
+
+  it('compares scalars at the root', () => {
+    expect(diffStructures('abc', 'abd')).toEqual([{ path: '', left: 'abc', right: 'abd' }]);
+  });
+});
@@ -0,0 +1,37 @@
+export interface DiffEntry {
+  // Dot path of the differing value ("frames.0.function"); empty for the root
+  path: string;
+  // undefined when the path only exists on the other side
+  left: unknown;
+  right: unknown;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Lists the leaf values that differ between two JSON structures.
+ * Objects and arrays are compared key by key; a type change is reported
+ * at the path where it happens.
+ */
+export function diffStructures(left: unknown, right: unknown, path = ''): DiffEntry[] {
+  if (isContainer(left) && isContainer(right) && Array.isArray(left) === Array.isArray(right)) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    const entries: DiffEntry[] = [];
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      entries.push(...diffStructures(
+        (left as Record<string, unknown>)[key],
+        (right as Record<string, unknown>)[key],
+        childPath
+      ));
+    }
+    return entries;
+  }
+
+  if (JSON.stringify(left) === JSON.stringify(right)) {
+    return [];
+  }
+  return [{ path, left, right }];
+}
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { generateFingerprint, isValidExternalFingerprint } from './fingerprint.js';
+import {
+  applyFingerprintRules,
+  generateFingerprint,
+  computeFingerprint,
+  fingerprintEvent,
+  fingerprintLabels,
+  normalizeMessage,
+  isValidExternalFingerprint,
+} from './fingerprint.js';
+import type { ErrorEvent, FingerprintRule } from '../types.js';
 
 describe('generateFingerprint', () => {
   it('produces consistent fingerprints for equivalent errors with different timestamps', () => {
@@ -47,6 +56,173 @@ describe('generateFingerprint', () => {
   });
 });
 
+describe('normalizeMessage', () => {
+  it('masks values that vary between occurrences of the same error', () => {
+    expect(normalizeMessage('User 4821 not found')).toBe('User <num> not found');
+    expect(normalizeMessage('Order 3f2a9c1e-7b4d-4e8a-9c2f-1a2b3c4d5e6f failed')).toBe('Order <uuid> failed');
+    expect(normalizeMessage('Invalid email john.doe@example.com')).toBe('Invalid email <email>');
+    expect(normalizeMessage("Unknown column 'users.name'")).toBe('Unknown column <str>');
+    expect(normalizeMessage('Object 0x7fff5fbff8a0 at commit a1b2c3d4e5')).toBe('Object <hex> at commit <hex>');
+  });
+
+  it('keeps words, identifiers and apostrophes intact', () => {
+    expect(normalizeMessage("Can't connect to utf8 database")).toBe("Can't connect to utf8 database");
+  });
+});
+
+describe('fingerprintEvent', () => {
+  const event: ErrorEvent = {
+    source: 'sentry',
+    exceptionType: 'TypeError',
+    message: 'Cannot read properties of undefined',
+    frames: [{ file: 'src/user.ts', function: 'loadProfile', line: 42, inApp: true }],
+    environment: 'production',
+    release: 'api@1.0.0',
+    tags: { server_name: 'web-1' },
+  };
+
+  it('ignores environment, release, tags, message and line numbers', () => {
+    const other: ErrorEvent = {
+      ...event,
+      message: 'Cannot read properties of null',
+      frames: [{ file: 'src/user.ts', function: 'loadProfile', line: 57, inApp: true }],
+      environment: 'staging',
+      release: 'api@1.1.0',
+      tags: { server_name: 'web-2' },
+    };
+
+    expect(fingerprintEvent(other)?.hash).toBe(fingerprintEvent(event)?.hash);
+    expect(fingerprintEvent(event)?.strategy).toBe('stacktrace');
+  });
+
+  it('distinguishes errors thrown from different functions', () => {
+    const other: ErrorEvent = {
+      ...event,
+      frames: [{ file: 'src/user.ts', function: 'saveProfile', line: 42, inApp: true }],
+    };
+
+    expect(fingerprintEvent(other)?.hash).not.toBe(fingerprintEvent(event)?.hash);
+  });
+
+  it('distinguishes the same error in different services', () => {
+    const other: ErrorEvent = { ...event, tags: { service: 'billing' } };
+
+    expect(fingerprintEvent(other)?.hash).not.toBe(fingerprintEvent(event)?.hash);
+  });
+
+  it('uses only the top in-app frames', () => {
+    const frames = [
+      { file: 'node_modules/pg/lib/client.js', function: 'query', inApp: false },
+      { file: 'src/db.ts', function: 'findUser', line: 10, inApp: true },
+      { file: 'src/routes.ts', function: 'handler', line: 20, inApp: true },
+    ];
+    const a = fingerprintEvent({ ...event, frames }, 1);
+    const b = fingerprintEvent({
+      ...event,
+      frames: [{ file: 'node_modules/pg/lib/pool.js', function: 'connect', inApp: false }, frames[1]],
+    }, 1);
+
+    expect(a?.hash).toBe(b?.hash);
+    expect(a?.basis).toEqual({
+      service: null,
+      exceptionType: 'TypeError',
+      frames: [{ file: 'src/db.ts', function: 'findUser' }],
+    });
+  });
+
+  it('falls back to the normalized message when there are no frames', () => {
+    const a = fingerprintEvent({ ...event, frames: [], message: 'Timeout after 3000ms for user 42' });
+    const b = fingerprintEvent({ ...event, frames: [], message: 'Timeout after 5000ms for user 7' });
+
+    expect(a?.strategy).toBe('message');
+    expect(a?.hash).toBe(b?.hash);
+  });
+
+  it('returns null when the event has nothing to group by', () => {
+    expect(fingerprintEvent({ source: 'generic', frames: [], tags: {} })).toBeNull();
+  });
+});
+
+describe('fingerprintLabels', () => {
+  it('depends only on the label set, not on label order', () => {
+    const a = fingerprintLabels({ alertname: 'HighErrorRate', service: 'checkout' });
+    const b = fingerprintLabels({ service: 'checkout', alertname: 'HighErrorRate' });
+    const c = fingerprintLabels({ alertname: 'HighErrorRate', service: 'payments' });
+
+    expect(a.hash).toBe(b.hash);
+    expect(a.hash).not.toBe(c.hash);
+    expect(a.strategy).toBe('labels');
+  });
+});
+
+describe('computeFingerprint', () => {
+  const event: ErrorEvent = { source: 'generic', exceptionType: 'TypeError', frames: [], tags: {} };
+
+  it('prefers a valid external fingerprint', () => {
+    const result = computeFingerprint({ fingerprint: 'custom-id', message: 'x' }, event);
+    expect(result).toMatchObject({ hash: 'custom-id', strategy: 'external' });
+  });
+
+  it('uses the event when there is no external fingerprint', () => {
+    expect(computeFingerprint({ message: 'x' }, event).strategy).toBe('message');
+  });
+
+  it('falls back to the payload, matching generateFingerprint', () => {
+    const payload = { status: 'degraded', timestamp: '2024-01-15T10:30:00Z' };
+    const result = computeFingerprint(payload);
+
+    expect(result.strategy).toBe('payload');
+    expect(result.hash).toBe(generateFingerprint(payload));
+  });
+});
+
+describe('applyFingerprintRules', () => {
+  const rules: FingerprintRule[] = [
+    { name: 'by-class', match: [{ path: 'service', pattern: /^checkout$/ }], fields: ['error.class'] },
+    { name: 'resets', match: [{ path: 'message', pattern: /^Connection reset/ }], group: 'connection-reset' },
+    { name: 'legacy', match: [{ path: 'source', pattern: /^legacy$/ }], ignore: ['hostname', 'pid'] },
+  ];
+
+  it('hashes only the selected fields', () => {
+    const a = applyFingerprintRules({ service: 'checkout', error: { class: 'TimeoutError', message: 'after 30s' } }, rules);
+    const b = applyFingerprintRules({ service: 'checkout', error: { class: 'TimeoutError', message: 'after 45s' } }, rules);
+    const c = applyFingerprintRules({ service: 'checkout', error: { class: 'KeyError' } }, rules);
+
+    expect(a).toMatchObject({ strategy: 'rule', rule: 'by-class' });
+    expect(a?.hash).toBe(b?.hash);
+    expect(a?.hash).not.toBe(c?.hash);
+  });
+
+  it('uses the fixed group key of the first matching rule', () => {
+    const result = applyFingerprintRules({ service: 'checkout', message: 'Connection reset by peer' }, rules.slice(1));
+    const other = applyFingerprintRules({ service: 'payments', message: 'Connection reset by server' }, rules.slice(1));
+
+    expect(result).toMatchObject({ strategy: 'rule', rule: 'resets', basis: { group: 'connection-reset' } });
+    expect(result?.hash).toMatch(/^[0-9a-f]{32}$/);
+    expect(other?.hash).toBe(result?.hash);
+  });
+
+  it('ignores extra dynamic fields when hashing the payload', () => {
+    const a = applyFingerprintRules({ source: 'legacy', error: 'disk full', hostname: 'web-1', pid: 12 }, rules);
+    const b = applyFingerprintRules({ source: 'legacy', error: 'disk full', hostname: 'web-2', pid: 40 }, rules);
+
+    expect(a?.hash).toBe(b?.hash);
+    expect(a?.rule).toBe('legacy');
+  });
+
+  it('requires every condition to match and returns null otherwise', () => {
+    const rule: FingerprintRule = {
+      name: 'both',
+      match: [{ path: 'service', pattern: /^checkout$/ }, { path: 'env', pattern: /^prod/ }],
+      group: 'checkout-prod',
+    };
+
+    expect(applyFingerprintRules({ service: 'checkout', env: 'production' }, [rule])?.basis).toEqual({ group: 'checkout-prod' });
+    expect(applyFingerprintRules({ service: 'checkout' }, [rule])).toBeNull();
+    expect(applyFingerprintRules({ service: 'payments' }, rules)).toBeNull();
+  });
+});
+
 describe('isValidExternalFingerprint', () => {
   it('returns true for valid string fingerprints', () => {
     expect(isValidExternalFingerprint('abc123')).toBe(true);
@@ -1,4 +1,6 @@
 import crypto from 'crypto';
+import type { ErrorEvent, FingerprintRule, FingerprintStrategy, StackFrame } from '../types.js';
+import { getPath, matchesPaths } from './json-path.js';
 
 /**
  * Validates if an external fingerprint value is valid.
@@ -19,25 +21,25 @@ const DYNAMIC_FIELDS = new Set([
   'id', 'uuid', 'eventId', 'event_id', 'issueId',
 ]);
 
-function removeDynamicFields(obj: unknown, seen = new WeakSet()): unknown {
+export function removeDynamicFields(obj: unknown, ignored: Set<string> = DYNAMIC_FIELDS, seen = new WeakSet()): unknown {
   if (obj === null || typeof obj !== 'object') return obj;
   if (seen.has(obj as object)) return '[circular]';
   seen.add(obj as object);
 
   if (Array.isArray(obj)) {
-    return obj.map(item => removeDynamicFields(item, seen));
+    return obj.map(item => removeDynamicFields(item, ignored, seen));
   }
 
   const cleaned: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-    if (!DYNAMIC_FIELDS.has(key)) {
-      cleaned[key] = removeDynamicFields(value, seen);
+    if (!ignored.has(key)) {
+      cleaned[key] = removeDynamicFields(value, ignored, seen);
     }
   }
   return cleaned;
 }
 
-function sortObjectKeys(obj: unknown): unknown {
+export function sortObjectKeys(obj: unknown): unknown {
   if (obj === null || typeof obj !== 'object') return obj;
 
   if (Array.isArray(obj)) {
@@ -52,9 +54,155 @@ function sortObjectKeys(obj: unknown): unknown {
   return sorted;
 }
 
-export function generateFingerprint(payload: Record<string, unknown>): string {
-  const stable = removeDynamicFields(payload);
-  const sorted = sortObjectKeys(stable);
-  const json = JSON.stringify(sorted);
+function hash(value: unknown): string {
+  const json = JSON.stringify(sortObjectKeys(value));
   return crypto.createHash('sha256').update(json).digest('hex').substring(0, 32);
 }
+
+export function generateFingerprint(payload: Record<string, unknown>): string {
+  return hash(removeDynamicFields(payload));
+}
+
+export interface FingerprintResult {
+  hash: string;
+  strategy: FingerprintStrategy;
+  // The normalized structure that was hashed
+  basis: unknown;
+  // Name of the config rule that produced the fingerprint
+  rule?: string;
+}
+
+// Number of in-app frames used by the stacktrace strategy
+export const DEFAULT_FRAME_LIMIT = 5;
+
+// Applied in order: quoted values are masked before the numbers inside them
+const MESSAGE_MASKS: Array<[RegExp, string]> = [
+  [/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, '<email>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/(?<!\w)'[^'\n]*'|"[^"\n]*"|`[^`\n]*`/g, '<str>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<hex>'],
+  // Numbers glued to a unit (3000ms) are masked, digits inside identifiers (utf8) are not
+  [/(?<![A-Za-z_])\d+(?:\.\d+)?/g, '<num>'],
+];
+
+/**
+ * Masks the parts of an error message that vary between occurrences
+ * of the same error: emails, UUIDs, quoted values, hex ids and numbers.
+ */
+export function normalizeMessage(message: string): string {
+  let result = message.trim();
+  for (const [pattern, replacement] of MESSAGE_MASKS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+// File and function only: line/column suffixes and query strings are dropped
+function normalizeFrame(frame: StackFrame): { file: string | null; function: string | null } {
+  const file = frame.file
+    ? frame.file.replace(/\?.*$/, '').replace(/(:\d+)+$/, '')
+    : null;
+  return { file, function: frame.function ?? null };
+}
+
+/**
+ * Picks the top in-app frames (most recent first). When no frame is
+ * in-app, e.g. errors raised inside a dependency, all frames are used.
+ */
+function topFrames(frames: StackFrame[], limit: number): StackFrame[] {
+  const inApp = frames.filter(f => f.inApp !== false);
+  return (inApp.length > 0 ? inApp : frames).slice(0, limit);
+}
+
+/**
+ * Fingerprints a normalized event by what identifies the error itself:
+ * - stacktrace: exception type + top in-app frames (file + function)
+ * - message: exception type + normalized message, when there are no frames
+ * The service tag is included so the same error in two services stays apart.
+ * Returns null when the event has no type, message or frames.
+ */
+export function fingerprintEvent(event: ErrorEvent, frameLimit = DEFAULT_FRAME_LIMIT): FingerprintResult | null {
+  const service = event.tags.service ?? null;
+
+  if (event.frames.length > 0) {
+    const basis = {
+      service,
+      exceptionType: event.exceptionType ?? null,
+      frames: topFrames(event.frames, frameLimit).map(normalizeFrame),
+    };
+    return { hash: hash(basis), strategy: 'stacktrace', basis };
+  }
+
+  if (event.exceptionType || event.message) {
+    const basis = {
+      service,
+      exceptionType: event.exceptionType ?? null,
+      message: event.message ? normalizeMessage(event.message) : null,
+    };
+    return { hash: hash(basis), strategy: 'message', basis };
+  }
+
+  return null;
+}
+
+/**
+ * Fingerprints an alert by its label set, which identifies the alert
+ * the same way Alertmanager does.
+ */
+export function fingerprintLabels(labels: Record<string, string>): FingerprintResult {
+  const basis = { labels: sortObjectKeys(labels) };
+  return { hash: hash(basis), strategy: 'labels', basis };
+}
+
+/**
+ * Resolves the fingerprint of an incoming payload, in order:
+ * a valid external `fingerprint` field, the normalized event, the whole payload.
+ */
+export function computeFingerprint(
+  payload: Record<string, unknown>,
+  event?: ErrorEvent,
+  frameLimit = DEFAULT_FRAME_LIMIT
+): FingerprintResult {
+  if (isValidExternalFingerprint(payload.fingerprint)) {
+    return { hash: payload.fingerprint, strategy: 'external', basis: payload.fingerprint };
+  }
+
+  const fromEvent = event ? fingerprintEvent(event, frameLimit) : null;
+  if (fromEvent) {
+    return fromEvent;
+  }
+
+  const basis = sortObjectKeys(removeDynamicFields(payload));
+  return { hash: hash(basis), strategy: 'payload', basis };
+}
+
+/**
+ * Applies the first fingerprint rule from config.yml that matches the payload.
+ * Returns null when no rule matches, so the automatic strategies take over.
+ */
+export function applyFingerprintRules(
+  payload: Record<string, unknown>,
+  rules: FingerprintRule[]
+): FingerprintResult | null {
+  const rule = rules.find(r => matchesPaths(payload, r.match));
+  if (!rule) return null;
+
+  if (rule.group !== undefined) {
+    const basis = { group: rule.group };
+    return { hash: hash(basis), strategy: 'rule', basis, rule: rule.name };
+  }
+
+  if (rule.fields) {
+    const fields: Record<string, unknown> = {};
+    for (const field of rule.fields) {
+      fields[field] = getPath(payload, field) ?? null;
+    }
+    const basis = { rule: rule.name, fields };
+    return { hash: hash(basis), strategy: 'rule', basis, rule: rule.name };
+  }
+
+  const ignored = new Set([...DYNAMIC_FIELDS, ...(rule.ignore ?? [])]);
+  const basis = sortObjectKeys(removeDynamicFields(payload, ignored));
+  return { hash: hash(basis), strategy: 'rule', basis, rule: rule.name };
+}
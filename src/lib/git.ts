@@ -99,3 +99,22 @@ function gitPull(repoPath: string): Promise<void> {
     proc.on('error', () => resolve());
   });
 }
+
+// Commit checked out in the repository, or null when it is not a git checkout
+export function getHeadCommit(repoPath: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const proc = spawn('git', ['-C', repoPath, 'rev-parse', 'HEAD']);
+    let output = '';
+
+    proc.stdout.on('data', (data) => {
+      output += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      const sha = output.trim();
+      resolve(code === 0 && /^[0-9a-f]{40,64}$/.test(sha) ? sha : null);
+    });
+
+    proc.on('error', () => resolve(null));
+  });
+}
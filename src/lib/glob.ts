@@ -0,0 +1,48 @@
+/**
+ * Converts a gitignore-style pattern, as used by CODEOWNERS, to a regular
+ * expression over repository-relative paths:
+ * - a leading or inner "/" anchors the pattern to the repository root,
+ *   otherwise it matches at any depth
+ * - "*" and "?" do not cross "/", "**" does
+ * - a pattern matching a directory also matches everything under it,
+ *   except for a trailing "*" ("docs/*" only matches files directly in docs)
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim();
+  const anchored = glob.replace(/\/+$/, '').includes('/');
+  glob = glob.replace(/^\/+/, '').replace(/\/+$/, '');
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const atSegmentStart = i === 0 || glob[i - 1] === '/';
+      if (atSegmentStart && glob[i + 2] === '/') {
+        // "**/": zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const contents = /(?:^|[^*])\*$/.test(glob) ? '' : '(?:/.*)?';
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${contents}$`);
+}
+
+export function matchesGlob(pattern: string, path: string): boolean {
+  return globToRegExp(pattern).test(normalizePath(path));
+}
+
+// Repository-relative path without "./" or leading "/"
+export function normalizePath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^(?:\.\/|\/)+/, '');
+}
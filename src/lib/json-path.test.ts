@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { getPath } from './json-path.js';
+
+describe('getPath', () => {
+  const doc = {
+    service: 'checkout',
+    error: { class: 'TimeoutError', tags: ['db', 'slow'] },
+    exception: { values: [{ type: 'TypeError' }] },
+  };
+
+  it('reads nested object fields and array items', () => {
+    expect(getPath(doc, 'service')).toBe('checkout');
+    expect(getPath(doc, 'error.class')).toBe('TimeoutError');
+    expect(getPath(doc, 'error.tags.1')).toBe('slow');
+    expect(getPath(doc, 'exception.values.0.type')).toBe('TypeError');
+  });
+
+  it('returns undefined for missing or non-traversable segments', () => {
+    expect(getPath(doc, 'error.message')).toBeUndefined();
+    expect(getPath(doc, 'service.name')).toBeUndefined();
+    expect(getPath(doc, 'error.tags.first')).toBeUndefined();
+    expect(getPath(null, 'service')).toBeUndefined();
+  });
+});
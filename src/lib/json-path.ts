@@ -0,0 +1,31 @@
+import type { FingerprintRuleMatch } from '../types.js';
+
+/**
+ * Reads a value from a JSON document by dot path ("error.class", "exception.values.0.type").
+ * Numeric segments index arrays. Returns undefined when any segment is missing.
+ */
+export function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    if (Array.isArray(current)) {
+      if (!/^\d+$/.test(segment)) return undefined;
+      current = current[Number(segment)];
+    } else {
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
+
+/**
+ * Whether every condition matches: the value at its path exists and, as a
+ * string (objects as JSON), matches its pattern.
+ */
+export function matchesPaths(value: unknown, conditions: FingerprintRuleMatch[]): boolean {
+  return conditions.every(({ path, pattern }) => {
+    const found = getPath(value, path);
+    if (found === undefined || found === null) return false;
+    return pattern.test(typeof found === 'object' ? JSON.stringify(found) : String(found));
+  });
+}
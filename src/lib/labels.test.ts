@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { mappedLabelNames, selectLabels } from './labels.js';
+import type { ClaudeAnalysis, ErrorEvent, LabelMapping } from '../types.js';
+
+const mapping: LabelMapping = {
+  category: { bug: ['Bug'], database: ['Database', 'Backend'] },
+  priority: { critical: ['P0'] },
+  source: { sentry: ['Sentry'] },
+  environment: { production: ['Production'] },
+  service: { checkout: ['Checkout', 'Backend'] },
+  createMissing: false,
+};
+
+const analysis = { category: 'database', priority: 'critical' } as ClaudeAnalysis;
+
+describe('selectLabels', () => {
+  it('maps every attribute of the error, without duplicates', () => {
+    const event: ErrorEvent = {
+      source: 'sentry',
+      frames: [],
+      environment: 'production',
+      tags: { service: 'checkout' },
+    };
+
+    expect(selectLabels(mapping, analysis, {}, event))
+      .toEqual(['Database', 'Backend', 'P0', 'Sentry', 'Production', 'Checkout']);
+  });
+
+  it('reads environment and service from the payload when there is no event', () => {
+    expect(selectLabels(mapping, { category: 'bug', priority: 'low' } as ClaudeAnalysis, {
+      environment: 'production',
+      service: 'checkout',
+    })).toEqual(['Bug', 'Production', 'Checkout', 'Backend']);
+  });
+
+  it('adds nothing for unmapped values', () => {
+    expect(selectLabels(mapping, { category: 'security', priority: 'low' } as ClaudeAnalysis, { environment: 'staging' }))
+      .toEqual([]);
+  });
+});
+
+describe('mappedLabelNames', () => {
+  it('lists each label once', () => {
+    expect(mappedLabelNames(mapping)).toEqual(['Bug', 'Database', 'Backend', 'P0', 'Sentry', 'Production', 'Checkout']);
+  });
+});
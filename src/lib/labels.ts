@@ -0,0 +1,42 @@
+import { asString } from '../adapters/utils.js';
+import type { ClaudeAnalysis, ErrorEvent, LabelMapping } from '../types.js';
+
+const LABEL_ATTRIBUTES = ['category', 'priority', 'source', 'environment', 'service'] as const;
+
+/**
+ * Every label name the mapping can produce, without duplicates.
+ */
+export function mappedLabelNames(mapping: LabelMapping): string[] {
+  const names = LABEL_ATTRIBUTES.flatMap(attribute => Object.values(mapping[attribute]).flat());
+  return [...new Set(names)];
+}
+
+// Event tag "service", or the payload's top-level "service" field
+export function errorService(payload: Record<string, unknown>, event?: ErrorEvent): string | undefined {
+  return event?.tags.service ?? asString(payload.service);
+}
+
+/**
+ * Label names for a new issue, in mapping attribute order. Values are matched
+ * exactly; attributes the error does not have add nothing.
+ */
+export function selectLabels(
+  mapping: LabelMapping,
+  analysis: ClaudeAnalysis,
+  payload: Record<string, unknown>,
+  event?: ErrorEvent
+): string[] {
+  const values: Record<(typeof LABEL_ATTRIBUTES)[number], string | undefined> = {
+    category: analysis.category,
+    priority: analysis.priority,
+    source: event?.source,
+    environment: event?.environment ?? asString(payload.environment),
+    service: errorService(payload, event),
+  };
+
+  const names = LABEL_ATTRIBUTES.flatMap(attribute => {
+    const value = values[attribute];
+    return value !== undefined ? mapping[attribute][value] ?? [] : [];
+  });
+  return [...new Set(names)];
+}
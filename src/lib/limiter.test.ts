@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createLimiter } from './limiter.js';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('createLimiter', () => {
+  it('runs at most the configured number of operations at once, in order', async () => {
+    const limiter = createLimiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, i) => limiter.run(async () => {
+      started.push(i);
+      await gate.promise;
+      return i;
+    }));
+
+    expect(started).toEqual([0, 1]);
+    expect(limiter.active()).toBe(2);
+    expect(limiter.queued()).toBe(1);
+
+    gates[0].resolve();
+    await runs[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(limiter.active()).toBe(0);
+  });
+
+  it('frees the slot when an operation fails', async () => {
+    const limiter = createLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await limiter.run(async () => 'next')).toBe('next');
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => createLimiter(0)).toThrow('Concurrency must be a positive integer, got 0');
+  });
+});
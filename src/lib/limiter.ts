@@ -0,0 +1,41 @@
+export interface Limiter {
+  // Runs fn once a slot is free; calls beyond the limit wait in FIFO order
+  run: <T>(fn: () => Promise<T>) => Promise<T>;
+  active: () => number;
+  queued: () => number;
+}
+
+/**
+ * Limits how many async operations run at the same time.
+ */
+export function createLimiter(concurrency: number): Limiter {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const release = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) next();
+  };
+
+  return {
+    run: <T>(fn: () => Promise<T>): Promise<T> => {
+      const start = (): Promise<T> => {
+        active++;
+        return fn().finally(release);
+      };
+      if (active < concurrency) {
+        return start();
+      }
+      return new Promise<T>((resolve, reject) => {
+        waiting.push(() => start().then(resolve, reject));
+      });
+    },
+    active: () => active,
+    queued: () => waiting.length,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseLinearIssueEvent } from './linear-webhook.js';
+
+function issueEvent(action: string, data: Record<string, unknown>): Record<string, unknown> {
+  return { action, type: 'Issue', data, webhookTimestamp: Date.now() };
+}
+
+describe('parseLinearIssueEvent', () => {
+  it('mirrors state, assignee, team and close time of an updated issue', () => {
+    const mirror = parseLinearIssueEvent(issueEvent('update', {
+      id: 'issue-1',
+      identifier: 'ENG-42',
+      state: { id: 'st-1', name: "Won't Fix", type: 'canceled' },
+      assignee: { id: 'u-1', name: 'Dana' },
+      team: { id: 't-1', key: 'ENG', name: 'Engineering' },
+      canceledAt: '2026-10-19T10:00:00.000Z',
+    }));
+
+    expect(mirror).toEqual({
+      issueId: 'issue-1',
+      identifier: 'ENG-42',
+      state: 'canceled',
+      stateName: "Won't Fix",
+      assignee: 'Dana',
+      team: 'ENG',
+      closedAt: '2026-10-19T10:00:00.000Z',
+    });
+  });
+
+  it('maps workflow state types and removed issues', () => {
+    expect(parseLinearIssueEvent(issueEvent('update', { id: 'i', state: { type: 'started' } }))?.state).toBe('open');
+    expect(parseLinearIssueEvent(issueEvent('update', { id: 'i', state: { type: 'completed' } }))?.state).toBe('completed');
+    expect(parseLinearIssueEvent(issueEvent('remove', { id: 'i', state: { type: 'started' } }))?.state).toBe('missing');
+  });
+
+  it('ignores events that are not about issues', () => {
+    expect(parseLinearIssueEvent({ action: 'create', type: 'Comment', data: { id: 'c-1' } })).toBeNull();
+    expect(parseLinearIssueEvent({ action: 'update', type: 'Issue' })).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { asString, isObject } from '../adapters/utils.js';
+import type { IssueMirror, IssueState } from '../types.js';
+
+const ISSUE_ACTIONS = new Set(['create', 'update', 'remove']);
+
+function issueState(stateType: string | undefined): IssueState {
+  if (stateType === 'completed') return 'completed';
+  if (stateType === 'canceled') return 'canceled';
+  return 'open';
+}
+
+/**
+ * Extracts the mirrored fields from a Linear webhook event. Returns null for
+ * events that are not about issues (comments, projects, ...).
+ */
+export function parseLinearIssueEvent(payload: Record<string, unknown>): IssueMirror | null {
+  if (payload.type !== 'Issue' || !ISSUE_ACTIONS.has(payload.action as string)) return null;
+
+  const data = payload.data;
+  if (!isObject(data)) return null;
+  const issueId = asString(data.id);
+  if (!issueId) return null;
+
+  const state = isObject(data.state) ? data.state : {};
+  const assignee = isObject(data.assignee) ? data.assignee : {};
+  const team = isObject(data.team) ? data.team : {};
+
+  return {
+    issueId,
+    identifier: asString(data.identifier) ?? null,
+    // A deleted issue can no longer deduplicate anything
+    state: payload.action === 'remove' ? 'missing' : issueState(asString(state.type)),
+    stateName: asString(state.name) ?? null,
+    assignee: asString(assignee.name) ?? null,
+    team: asString(team.key) ?? null,
+    closedAt: asString(data.completedAt) ?? asString(data.canceledAt) ?? null,
+  };
+}
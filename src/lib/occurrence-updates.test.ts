@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { planOccurrenceUpdate, DEFAULT_OCCURRENCE_UPDATES } from './occurrence-updates.js';
+import type { OccurrenceUpdateCandidate } from '../types.js';
+
+function candidate(overrides: Partial<OccurrenceUpdateCandidate> = {}): OccurrenceUpdateCandidate {
+  return {
+    fingerprint: 'abc123',
+    linear_issue_id: 'issue-1',
+    linear_identifier: 'TEAM-1',
+    count: 1,
+    notified_count: 1,
+    notified_at: '2026-10-19 10:00:00',
+    priority_bumped_at: null,
+    hour_count: 1,
+    first_seen: '2026-10-19 10:00:00',
+    last_seen: '2026-10-19 10:00:00',
+    ...overrides,
+  };
+}
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('planOccurrenceUpdate', () => {
+  it('comments once per crossed threshold, reporting only the highest', () => {
+    expect(planOccurrenceUpdate(candidate({ count: 9 }), DEFAULT_OCCURRENCE_UPDATES, now)).toBeNull();
+    expect(planOccurrenceUpdate(candidate({ count: 10 }), DEFAULT_OCCURRENCE_UPDATES, now))
+      .toEqual({ comment: { reason: 'threshold', threshold: 10 } });
+    // A burst crossed 10 and 100 between two polls
+    expect(planOccurrenceUpdate(candidate({ count: 150 }), DEFAULT_OCCURRENCE_UPDATES, now))
+      .toEqual({ comment: { reason: 'threshold', threshold: 100 } });
+    // Already reported
+    expect(planOccurrenceUpdate(candidate({ count: 150, notified_count: 100 }), DEFAULT_OCCURRENCE_UPDATES, now)).toBeNull();
+  });
+
+  it('posts a daily summary once a day when there are new occurrences', () => {
+    const config = { thresholds: [], dailySummary: true };
+
+    expect(planOccurrenceUpdate(candidate({ count: 5 }), config, now)).toBeNull();
+    expect(planOccurrenceUpdate(candidate({ count: 5, notified_at: '2026-10-18 11:00:00' }), config, now))
+      .toEqual({ comment: { reason: 'summary' } });
+    expect(planOccurrenceUpdate(candidate({ notified_at: '2026-10-18 11:00:00' }), config, now)).toBeNull();
+  });
+
+  it('bumps priority once when the hourly rate reaches the threshold', () => {
+    const config = { ...DEFAULT_OCCURRENCE_UPDATES, priorityBump: { perHour: 100, priority: 1 } };
+
+    expect(planOccurrenceUpdate(candidate({ hour_count: 99 }), config, now)).toBeNull();
+    expect(planOccurrenceUpdate(candidate({ hour_count: 100 }), config, now)).toEqual({ priority: 1 });
+    expect(planOccurrenceUpdate(
+      candidate({ hour_count: 500, priority_bumped_at: '2026-10-19 11:30:00' }), config, now
+    )).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import type { OccurrenceUpdateCandidate, OccurrenceUpdateConfig } from '../types.js';
+
+export const DEFAULT_OCCURRENCE_UPDATES: OccurrenceUpdateConfig = {
+  thresholds: [10, 100, 1000],
+  dailySummary: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OccurrenceComment =
+  | { reason: 'threshold'; threshold: number }
+  | { reason: 'summary' };
+
+export interface OccurrenceUpdatePlan {
+  comment?: OccurrenceComment;
+  // Linear priority to raise the issue to
+  priority?: number;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone suffix
+function parseTimestamp(value: string): number {
+  return Date.parse(value.replace(' ', 'T') + 'Z');
+}
+
+/**
+ * Decides what, if anything, to post on the issue of a fingerprint.
+ * At most one comment per call: when several thresholds were crossed since
+ * the last comment, only the highest one is reported.
+ */
+export function planOccurrenceUpdate(
+  candidate: OccurrenceUpdateCandidate,
+  config: OccurrenceUpdateConfig,
+  now: Date = new Date()
+): OccurrenceUpdatePlan | null {
+  const plan: OccurrenceUpdatePlan = {};
+
+  const crossed = config.thresholds.filter(t => candidate.notified_count < t && candidate.count >= t);
+  if (crossed.length > 0) {
+    plan.comment = { reason: 'threshold', threshold: Math.max(...crossed) };
+  } else if (config.dailySummary && candidate.count > candidate.notified_count) {
+    const since = candidate.notified_at ?? candidate.first_seen;
+    if (now.getTime() - parseTimestamp(since) >= DAY_MS) {
+      plan.comment = { reason: 'summary' };
+    }
+  }
+
+  const bump = config.priorityBump;
+  if (bump && !candidate.priority_bumped_at && candidate.hour_count >= bump.perHour) {
+    plan.priority = bump.priority;
+  }
+
+  return plan.comment || plan.priority !== undefined ? plan : null;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AuthenticationLinearError,
+  InternalLinearError,
+  InvalidInputLinearError,
+  NetworkLinearError,
+  RatelimitedLinearError,
+} from '@linear/sdk';
+import { classifyFailure, retryDelay, MAX_RETRY_DELAY_MS } from './retry.js';
+import { ClaudeExecutionError } from '../services/claude.js';
+import { TrackerHttpError } from '../services/tracker.js';
+
+describe('classifyFailure', () => {
+  it('never retries payloads rejected as prompt injection', () => {
+    const err = new ClaudeExecutionError('Payload contains suspicious content', undefined, false);
+    expect(classifyFailure(err)).toBe('permanent');
+  });
+
+  it('retries Claude timeouts and crashes', () => {
+    expect(classifyFailure(new ClaudeExecutionError('Claude timed out after 120000ms'))).toBe('transient');
+    expect(classifyFailure(new ClaudeExecutionError('Claude exited with code 1', 'stderr'))).toBe('transient');
+  });
+
+  it('classifies Linear errors by type', () => {
+    expect(classifyFailure(new NetworkLinearError())).toBe('transient');
+    expect(classifyFailure(new InternalLinearError())).toBe('transient');
+    expect(classifyFailure(new RatelimitedLinearError())).toBe('transient');
+    expect(classifyFailure(new AuthenticationLinearError())).toBe('permanent');
+    expect(classifyFailure(new InvalidInputLinearError())).toBe('permanent');
+  });
+
+  it('classifies GitHub and Jira errors by status', () => {
+    expect(classifyFailure(new TrackerHttpError('server error', 502))).toBe('transient');
+    expect(classifyFailure(new TrackerHttpError('rate limited', 429))).toBe('transient');
+    expect(classifyFailure(new TrackerHttpError('secondary rate limit', 403, 60))).toBe('transient');
+    expect(classifyFailure(new TrackerHttpError('bad credentials', 401))).toBe('permanent');
+    expect(classifyFailure(new TrackerHttpError('validation failed', 422))).toBe('permanent');
+  });
+
+  it('treats unknown errors as transient', () => {
+    expect(classifyFailure(new Error('socket hang up'))).toBe('transient');
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles the base delay after each attempt up to the cap', () => {
+    expect(retryDelay(new Error('x'), 1, 60000)).toBe(60000);
+    expect(retryDelay(new Error('x'), 2, 60000)).toBe(120000);
+    expect(retryDelay(new Error('x'), 4, 60000)).toBe(480000);
+    expect(retryDelay(new Error('x'), 20, 60000)).toBe(MAX_RETRY_DELAY_MS);
+  });
+
+  it('waits at least as long as a Linear rate limit asks', () => {
+    const err = new RatelimitedLinearError();
+    err.retryAfter = 600;
+    expect(retryDelay(err, 1, 60000)).toBe(600000);
+  });
+
+  it('waits at least as long as a GitHub or Jira rate limit asks', () => {
+    expect(retryDelay(new TrackerHttpError('rate limited', 429, 900), 1, 60000)).toBe(900000);
+  });
+});
@@ -0,0 +1,55 @@
+import { LinearError, LinearErrorType, RatelimitedLinearError } from '@linear/sdk';
+import { ClaudeExecutionError } from '../services/claude.js';
+import { TrackerHttpError } from '../services/tracker.js';
+
+// transient: worth retrying later; permanent: retrying cannot succeed
+export type FailureKind = 'transient' | 'permanent';
+
+// Upper bound for the exponential backoff
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Linear errors caused by the request itself (credentials, input, plan limits)
+const PERMANENT_LINEAR_ERRORS = new Set<LinearErrorType>([
+  LinearErrorType.AuthenticationError,
+  LinearErrorType.Forbidden,
+  LinearErrorType.FeatureNotAccessible,
+  LinearErrorType.InvalidInput,
+  LinearErrorType.UserError,
+  LinearErrorType.GraphqlError,
+  LinearErrorType.UsageLimitExceeded,
+]);
+
+/**
+ * Decides whether a job failure is worth retrying. Unknown errors (network,
+ * Claude timeouts, unparsable output) are transient: retries are bounded by maxAttempts.
+ */
+export function classifyFailure(err: unknown): FailureKind {
+  if (err instanceof ClaudeExecutionError) {
+    return err.retryable ? 'transient' : 'permanent';
+  }
+
+  if (err instanceof LinearError) {
+    if (err.status !== undefined && err.status >= 500) return 'transient';
+    return err.type && PERMANENT_LINEAR_ERRORS.has(err.type) ? 'permanent' : 'transient';
+  }
+
+  // GitHub and Jira: rate limits and server errors pass, other 4xx responses won't
+  if (err instanceof TrackerHttpError) {
+    return err.status === 429 || err.status >= 500 || err.retryAfter !== undefined ? 'transient' : 'permanent';
+  }
+
+  return 'transient';
+}
+
+/**
+ * Delay before the next attempt: baseMs doubled after each attempt, capped at
+ * MAX_RETRY_DELAY_MS. Tracker rate limits are honored when they ask for longer.
+ */
+export function retryDelay(err: unknown, attempt: number, baseMs: number): number {
+  const backoff = Math.min(baseMs * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+
+  if ((err instanceof RatelimitedLinearError || err instanceof TrackerHttpError) && err.retryAfter) {
+    return Math.max(backoff, err.retryAfter * 1000);
+  }
+  return backoff;
+}
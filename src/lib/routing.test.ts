@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { parseCodeowners } from './codeowners.js';
+import { routeByOwnership, routedAnalysis, routeIssue } from './routing.js';
+import type { ClaudeAnalysis, OwnerMapping, RoutingRule } from '../types.js';
+
+const codeowners = parseCodeowners([
+  '*                @acme/platform',
+  '/src/payments/   @acme/payments',
+  '/src/checkout/   @Maria',
+].join('\n'), '.github/CODEOWNERS');
+
+const owners: Record<string, OwnerMapping> = {
+  '@acme/payments': { team: 'PAY' },
+  '@maria': { team: 'ENG', assignee: 'maria@acme.dev' },
+  '@joao': { assignee: 'joao@acme.dev' },
+};
+
+function analysisFor(files: string[], suggestedTeam: string | null = 'OPS'): ClaudeAnalysis {
+  return {
+    category: 'bug',
+    priority: 'high',
+    summary: 'Charge fails',
+    affected_files: files,
+    root_cause: { hypothesis: 'h', confidence: 'high', evidence: 'e' },
+    fix: { suggestion: 's', files_to_modify: [] },
+    investigation_log: [],
+    suggested_team: suggestedTeam,
+  };
+}
+
+// Tracker with teams PAY, ENG and OPS
+const tracker = {
+  findTeam: (key: string) => ['PAY', 'ENG', 'OPS'].includes(key) ? { id: `id-${key}`, key } : null,
+};
+
+describe('routeByOwnership', () => {
+  it('routes to the mapped owner of the most affected files', () => {
+    const routing = routeByOwnership(
+      ['src/checkout/cart.ts', 'src/payments/charge.ts', 'src/payments/refund.ts'],
+      codeowners,
+      owners
+    );
+
+    expect(routing).toEqual({
+      source: 'codeowners',
+      team: 'PAY',
+      reason: '@acme/payments owns 2 of 3 affected files (.github/CODEOWNERS:2 /src/payments/)',
+    });
+  });
+
+  it('breaks ties by the earliest file and matches owners case-insensitively', () => {
+    const routing = routeByOwnership(['src/checkout/cart.ts', 'src/payments/charge.ts'], codeowners, owners);
+
+    expect(routing).toMatchObject({ team: 'ENG', assignee: 'maria@acme.dev' });
+    expect(routing?.reason).toMatch(/^@Maria owns 1 of 2/);
+  });
+
+  it('ignores owners missing from the mapping', () => {
+    expect(routeByOwnership(['README.md'], codeowners, owners)).toBeNull();
+    expect(routeByOwnership(['src/payments/charge.ts'], null, owners)).toBeNull();
+    expect(routeByOwnership([], codeowners, owners)).toBeNull();
+  });
+});
+
+describe('routeIssue', () => {
+  it('prefers the CODEOWNERS team over the suggested one', () => {
+    const route = routeIssue(tracker, { payload: {}, analysis: analysisFor(['src/payments/charge.ts']) }, { codeowners, owners, rules: [] });
+
+    expect(route?.team).toEqual({ id: 'id-PAY', key: 'PAY' });
+    expect(route?.routing.source).toBe('codeowners');
+  });
+
+  it('uses the suggested team when no owner is mapped', () => {
+    const route = routeIssue(tracker, { payload: {}, analysis: analysisFor(['README.md']) }, { codeowners, owners, rules: [] });
+
+    expect(route?.team?.key).toBe('OPS');
+    expect(route?.routing).toEqual({ source: 'suggested', team: 'OPS', reason: 'Team suggested by the analysis' });
+  });
+
+  it('keeps the assignee of an owner mapped to no team', () => {
+    const joao = parseCodeowners('* @joao', 'CODEOWNERS');
+
+    const route = routeIssue(tracker, { payload: {}, analysis: analysisFor(['src/app.ts']) }, { codeowners: joao, owners, rules: [] });
+
+    expect(route?.routing).toMatchObject({ source: 'suggested', team: 'OPS', assignee: 'joao@acme.dev' });
+  });
+
+  it('skips the error when no team is available and no default team is configured', () => {
+    const route = routeIssue(tracker, { payload: {}, analysis: analysisFor(['README.md'], 'GONE') }, { codeowners, owners, rules: [] });
+
+    expect(route).toEqual({
+      team: null,
+      routing: {
+        source: 'unrouted',
+        team: null,
+        skip: true,
+        reason: 'Team GONE is not available (Team suggested by the analysis); no default team configured',
+      },
+    });
+  });
+
+  it('uses the default team when the chosen team is not available', () => {
+    const route = routeIssue(
+      tracker,
+      { payload: {}, analysis: analysisFor(['README.md'], 'GONE') },
+      { codeowners, owners, rules: [], defaultTeam: 'OPS' }
+    );
+
+    expect(route.team?.key).toBe('OPS');
+    expect(route.routing).toEqual({
+      source: 'default',
+      team: 'OPS',
+      reason: 'Team GONE is not available (Team suggested by the analysis); using the default team',
+    });
+  });
+});
+
+describe('routeIssue with rules', () => {
+  const rules: RoutingRule[] = [
+    { name: 'staging', match: { payload: [], event: [{ path: 'environment', pattern: /^staging$/ }] }, skip: true },
+    {
+      name: 'checkout-db',
+      match: { payload: [{ path: 'error.class', pattern: /Deadlock/ }], event: [], category: ['database'], service: ['checkout'] },
+      team: 'OPS',
+      priority: 'critical',
+      labels: ['Deadlock'],
+    },
+    { name: 'payments-files', match: { payload: [], event: [], files: ['src/payments/**'] }, project: 'Payments Q3' },
+  ];
+
+  const input = (payload: Record<string, unknown>, analysis: ClaudeAnalysis) => ({ payload, analysis });
+
+  it('skips errors matched by a skip rule', () => {
+    const route = routeIssue(tracker, {
+      payload: {},
+      event: { source: 'sentry', environment: 'staging', frames: [], tags: {} },
+      analysis: analysisFor([]),
+    }, { codeowners, owners, rules });
+
+    expect(route).toEqual({
+      team: null,
+      routing: { source: 'rule', team: null, rule: 'staging', skip: true, reason: 'Skipped by rule staging' },
+    });
+  });
+
+  it('sets the team, priority and labels of the first matching rule', () => {
+    const analysis = { ...analysisFor(['src/payments/charge.ts']), category: 'database' as const };
+    const route = routeIssue(tracker, input({ error: { class: 'DeadlockError' }, service: 'checkout' }, analysis), { codeowners, owners, rules });
+
+    expect(route?.team?.key).toBe('OPS');
+    expect(route?.routing).toEqual({
+      source: 'rule', team: 'OPS', reason: 'Rule checkout-db', rule: 'checkout-db', priority: 'critical', labels: ['Deadlock'],
+    });
+    expect(routedAnalysis(analysis, route!.routing).priority).toBe('critical');
+  });
+
+  it('leaves the team to CODEOWNERS when the rule sets none', () => {
+    const route = routeIssue(tracker, input({}, analysisFor(['src/payments/charge.ts'])), { codeowners, owners, rules });
+
+    expect(route?.routing).toMatchObject({ source: 'codeowners', team: 'PAY', rule: 'payments-files', project: 'Payments Q3' });
+  });
+
+  it('uses the default team when no team is suggested', () => {
+    const route = routeIssue(tracker, input({}, analysisFor(['README.md'], null)), { codeowners, owners, rules, defaultTeam: 'ENG' });
+
+    expect(route?.team?.key).toBe('ENG');
+    expect(route?.routing).toEqual({ source: 'default', team: 'ENG', reason: 'No team suggested; using the default team' });
+  });
+});
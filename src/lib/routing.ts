@@ -0,0 +1,174 @@
+import { findOwnerRule, type Codeowners, type CodeownersRule } from './codeowners.js';
+import { matchesGlob, normalizePath } from './glob.js';
+import { matchesPaths } from './json-path.js';
+import { errorService } from './labels.js';
+import type { IssueTracker } from '../services/tracker.js';
+import type { ClaudeAnalysis, ErrorEvent, OwnerMapping, RoutingDecision, RoutingRule } from '../types.js';
+
+/**
+ * Routes by the CODEOWNERS owners of the affected files. Only owners mapped
+ * in config.yml count; the one owning the most files wins, ties going to the
+ * owner of the earliest file. Returns null when no mapped owner matches.
+ */
+export function routeByOwnership(
+  files: string[],
+  codeowners: Codeowners | null,
+  owners: Record<string, OwnerMapping>
+): RoutingDecision | null {
+  if (!codeowners || files.length === 0) return null;
+
+  // Owner handles are case-insensitive on GitHub
+  const mappings = new Map(Object.entries(owners).map(([owner, mapping]) => [owner.toLowerCase(), mapping]));
+  const uniqueFiles = [...new Set(files.map(normalizePath))];
+  // Insertion order is the order owners were first matched
+  const matches = new Map<string, { owner: string; rule: CodeownersRule; files: number }>();
+
+  for (const file of uniqueFiles) {
+    const rule = findOwnerRule(codeowners, file);
+    if (!rule) continue;
+    for (const owner of rule.owners) {
+      const key = owner.toLowerCase();
+      if (!mappings.has(key)) continue;
+      const match = matches.get(key) ?? { owner, rule, files: 0 };
+      match.files++;
+      matches.set(key, match);
+    }
+  }
+
+  let best: { owner: string; rule: CodeownersRule; files: number } | undefined;
+  for (const match of matches.values()) {
+    if (!best || match.files > best.files) best = match;
+  }
+  if (!best) return null;
+
+  const mapping = mappings.get(best.owner.toLowerCase())!;
+  return {
+    source: 'codeowners',
+    team: mapping.team ?? null,
+    ...(mapping.assignee && { assignee: mapping.assignee }),
+    reason: `${best.owner} owns ${best.files} of ${uniqueFiles.length} affected files (${codeowners.path}:${best.rule.line} ${best.rule.pattern})`,
+  };
+}
+
+export interface RoutingInput {
+  payload: Record<string, unknown>;
+  event?: ErrorEvent;
+  analysis: ClaudeAnalysis;
+}
+
+export interface RoutingOptions {
+  codeowners: Codeowners | null;
+  owners: Record<string, OwnerMapping>;
+  rules: RoutingRule[];
+  defaultTeam?: string;
+}
+
+export type RouteResult =
+  | { team: { id: string; key: string }; routing: RoutingDecision }
+  // A rule with skip fired, or no team could be resolved
+  | { team: null; routing: RoutingDecision & { skip: true } };
+
+export function matchesRoutingRule(rule: RoutingRule, { payload, event, analysis }: RoutingInput): boolean {
+  const { match } = rule;
+  if (!matchesPaths(payload, match.payload)) return false;
+  if (match.event.length > 0 && !(event && matchesPaths(event, match.event))) return false;
+  if (match.category && !match.category.includes(analysis.category)) return false;
+  if (match.files && !analysis.affected_files.some(file => match.files!.some(glob => matchesGlob(glob, file)))) {
+    return false;
+  }
+  if (match.service) {
+    const service = errorService(payload, event);
+    if (!service || !match.service.includes(service)) return false;
+  }
+  return true;
+}
+
+/**
+ * Routes a new issue. The first matching rule fires: it may skip the error,
+ * set the team and add a project, a priority override and labels. Without a
+ * rule team, the mapped CODEOWNERS owner's team is used, else the team
+ * suggested by the analysis, else the default team. When none of them is
+ * available the error is skipped, with the reason. An owner's assignee is
+ * kept unless a rule set the team.
+ */
+export function routeIssue(
+  tracker: Pick<IssueTracker, 'findTeam'>,
+  input: RoutingInput,
+  options: RoutingOptions
+): RouteResult {
+  const rule = options.rules.find(r => matchesRoutingRule(r, input));
+  if (rule?.skip) {
+    return { team: null, routing: { source: 'rule', team: null, rule: rule.name, skip: true, reason: `Skipped by rule ${rule.name}` } };
+  }
+
+  const ruleActions = rule
+    ? {
+      rule: rule.name,
+      ...(rule.project && { project: rule.project }),
+      ...(rule.priority && { priority: rule.priority }),
+      ...(rule.labels && { labels: rule.labels }),
+    }
+    : {};
+
+  const ownership = rule?.team ? null : routeByOwnership(input.analysis.affected_files, options.codeowners, options.owners);
+  const assignee = ownership?.assignee ? { assignee: ownership.assignee } : {};
+
+  let wanted: RoutingDecision;
+  if (rule?.team) {
+    wanted = { source: 'rule', team: rule.team, reason: `Rule ${rule.name}` };
+  } else if (ownership?.team) {
+    wanted = ownership;
+  } else {
+    wanted = {
+      source: 'suggested',
+      team: input.analysis.suggested_team,
+      ...assignee,
+      reason: ownership
+        ? `${ownership.reason}, mapped to no team; team suggested by the analysis`
+        : 'Team suggested by the analysis',
+    };
+  }
+
+  const lookup = (key: string | null | undefined) => key ? tracker.findTeam(key) : null;
+
+  const team = lookup(wanted.team);
+  if (team) {
+    return { team, routing: { ...wanted, ...ruleActions } };
+  }
+
+  const unavailable = wanted.team
+    ? `Team ${wanted.team} is not available (${wanted.reason})`
+    : ownership
+      ? `${ownership.reason}, mapped to no team; no team suggested`
+      : 'No team suggested';
+
+  const defaultTeam = lookup(options.defaultTeam);
+  if (!defaultTeam) {
+    return {
+      team: null,
+      routing: {
+        source: 'unrouted',
+        team: null,
+        ...ruleActions,
+        skip: true,
+        reason: `${unavailable}; no default team${options.defaultTeam ? ` (${options.defaultTeam} is not available)` : ' configured'}`,
+      },
+    };
+  }
+
+  return {
+    team: defaultTeam,
+    routing: {
+      source: 'default',
+      team: defaultTeam.key,
+      ...assignee,
+      ...ruleActions,
+      reason: `${unavailable}; using the default team`,
+    },
+  };
+}
+
+// The analysis as filed: a rule's priority replaces Claude's
+export function routedAnalysis(analysis: ClaudeAnalysis, routing: RoutingDecision): ClaudeAnalysis {
+  return routing.priority ? { ...analysis, priority: routing.priority } : analysis;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseStackTrace } from './stacktrace.js';
+
+describe('parseStackTrace', () => {
+  it('parses Node.js stack traces and flags dependency frames', () => {
+    const frames = parseStackTrace(`TypeError: Cannot read properties of undefined
+    at loadProfile (/app/src/services/user.ts:42:21)
+    at /app/node_modules/express/lib/router/layer.js:95:5
+    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)`);
+
+    expect(frames).toEqual([
+      { file: '/app/src/services/user.ts', function: 'loadProfile', line: 42, column: 21, inApp: true },
+      { file: '/app/node_modules/express/lib/router/layer.js', function: undefined, line: 95, column: 5, inApp: false },
+      { file: 'node:internal/process/task_queues', function: 'process.processTicksAndRejections', line: 95, column: 5, inApp: false },
+    ]);
+  });
+
+  it('parses Java stack traces keyed by class name', () => {
+    const frames = parseStackTrace([
+      'java.lang.NullPointerException: null',
+      '\tat com.acme.billing.InvoiceService.total(InvoiceService.java:88)',
+      '\tat java.base/java.lang.Thread.run(Thread.java:833)',
+    ]);
+
+    expect(frames[0]).toEqual({ file: 'com.acme.billing.InvoiceService', function: 'total', line: 88, column: undefined, inApp: true });
+    expect(frames[1]).toMatchObject({ file: 'java.lang.Thread', function: 'run', inApp: false });
+  });
+
+  it('parses Ruby backtraces', () => {
+    const frames = parseStackTrace("app/models/user.rb:42:in 'User#name'");
+
+    expect(frames).toEqual([{ file: 'app/models/user.rb', function: 'User#name', line: 42, column: undefined, inApp: true }]);
+  });
+
+  it('parses Python tracebacks most recent call first', () => {
+    const frames = parseStackTrace(`Traceback (most recent call last):
+  File "app/views.py", line 10, in handle
+    return load(id)
+  File "app/models.py", line 55, in load
+    raise KeyError(id)
+KeyError: 42`);
+
+    expect(frames.map(f => f.function)).toEqual(['load', 'handle']);
+    expect(frames[0].file).toBe('app/models.py');
+  });
+});
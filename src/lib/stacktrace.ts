@@ -0,0 +1,74 @@
+import type { StackFrame } from '../types.js';
+
+// Frames from dependencies and runtimes, never application code
+const LIBRARY_PATTERNS = [
+  /node_modules\//,
+  /^node:/,
+  /^internal\//,
+  /\/gems\//,
+  /\/(site|dist)-packages\//,
+  /^(java|javax|sun|jdk|kotlin|scala)\./,
+];
+
+function isLibraryFile(file: string): boolean {
+  return LIBRARY_PATTERNS.some(pattern => pattern.test(file));
+}
+
+function frame(file: string | undefined, fn: string | undefined, line?: string, column?: string): StackFrame {
+  return {
+    file,
+    function: fn,
+    line: line ? parseInt(line, 10) : undefined,
+    column: column ? parseInt(column, 10) : undefined,
+    inApp: file ? !isLibraryFile(file) : undefined,
+  };
+}
+
+// Each parser returns a frame for a matching line, or null
+const LINE_PARSERS: Array<(line: string) => StackFrame | null> = [
+  // Java/Kotlin: "at [module/]com.acme.Service.method(Service.java:42)", keyed by class name
+  (line) => {
+    const m = line.match(/^at\s+(?:[\w.@-]*\/+)?([\w$.<>]+)\.([\w$<>]+)\(([^:)]+)(?::(\d+))?\)$/);
+    return m ? frame(m[1], m[2], m[4]) : null;
+  },
+  // Node.js: "at fn (file:line:col)" or "at file:line:col"
+  (line) => {
+    const m = line.match(/^at\s+(?:(.+?)\s+\()?(.+?):(\d+)(?::(\d+))?\)?$/);
+    return m ? frame(m[2], m[1], m[3], m[4]) : null;
+  },
+  // Ruby: "app/models/user.rb:42:in `method'" or "...:in 'method'"
+  (line) => {
+    const m = line.match(/^(.+?):(\d+):in\s+[`'](.+)'$/);
+    return m ? frame(m[1], m[3], m[2]) : null;
+  },
+  // Python: 'File "app/user.py", line 42, in method'
+  (line) => {
+    const m = line.match(/^File\s+"(.+?)",\s+line\s+(\d+)(?:,\s+in\s+(.+))?$/);
+    return m ? frame(m[1], m[3], m[2]) : null;
+  },
+];
+
+/**
+ * Parses a textual stack trace (Node.js, Java, Ruby or Python) into frames,
+ * most recent call first. Lines that are not frames are ignored.
+ */
+export function parseStackTrace(stack: string | string[]): StackFrame[] {
+  const lines = Array.isArray(stack) ? stack : stack.split('\n');
+  const frames: StackFrame[] = [];
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+    for (const parse of LINE_PARSERS) {
+      const parsed = parse(line);
+      if (parsed) {
+        frames.push(parsed);
+        break;
+      }
+    }
+  }
+
+  // Python tracebacks list the most recent call last
+  const isPython = lines.some(l => /Traceback \(most recent call last\)|^\s*File\s+"/.test(l));
+  return isPython ? frames.reverse() : frames;
+}
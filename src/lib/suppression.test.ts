@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { findIgnoreRule } from './suppression.js';
+import type { ErrorEvent, IgnoreRule } from '../types.js';
+
+const rules: IgnoreRule[] = [
+  { name: 'bots', message: /^Not Found: \/wp-/, environment: ['production'] },
+  { name: 'aborts', exceptionType: ['ClientAbortError', 'EPIPE'], service: ['checkout'] },
+];
+
+function event(overrides: Partial<ErrorEvent>): ErrorEvent {
+  return { source: 'sentry', frames: [], tags: {}, ...overrides };
+}
+
+describe('findIgnoreRule', () => {
+  it('matches the message and environment of the event or the payload', () => {
+    expect(findIgnoreRule(rules, {}, event({ message: 'Not Found: /wp-login.php', environment: 'production' }))?.name).toBe('bots');
+    expect(findIgnoreRule(rules, { message: 'Not Found: /wp-admin', environment: 'production' })?.name).toBe('bots');
+  });
+
+  it('requires every condition of a rule to match', () => {
+    expect(findIgnoreRule(rules, {}, event({ message: 'Not Found: /wp-login.php', environment: 'staging' }))).toBeUndefined();
+    expect(findIgnoreRule(rules, {}, event({ exceptionType: 'EPIPE', tags: { service: 'billing' } }))).toBeUndefined();
+    expect(findIgnoreRule(rules, { service: 'checkout' }, event({ exceptionType: 'EPIPE' }))?.name).toBe('aborts');
+  });
+
+  it('does not match events missing a checked attribute', () => {
+    expect(findIgnoreRule(rules, { service: 'checkout' })).toBeUndefined();
+    expect(findIgnoreRule([], { message: 'Not Found: /wp-login.php' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,34 @@
+import { asString } from '../adapters/utils.js';
+import { errorService } from './labels.js';
+import type { ErrorEvent, IgnoreRule } from '../types.js';
+
+function matchesIgnoreRule(rule: IgnoreRule, payload: Record<string, unknown>, event?: ErrorEvent): boolean {
+  if (rule.message) {
+    const message = event?.message ?? asString(payload.message);
+    if (message === undefined || !rule.message.test(message)) return false;
+  }
+  if (rule.exceptionType) {
+    if (!event?.exceptionType || !rule.exceptionType.includes(event.exceptionType)) return false;
+  }
+  if (rule.service) {
+    const service = errorService(payload, event);
+    if (!service || !rule.service.includes(service)) return false;
+  }
+  if (rule.environment) {
+    const environment = event?.environment ?? asString(payload.environment);
+    if (!environment || !rule.environment.includes(environment)) return false;
+  }
+  return true;
+}
+
+/**
+ * First ignore rule matching the event, or undefined. Every condition a rule
+ * sets must match; lists match any of their values exactly.
+ */
+export function findIgnoreRule(
+  rules: IgnoreRule[],
+  payload: Record<string, unknown>,
+  event?: ErrorEvent
+): IgnoreRule | undefined {
+  return rules.find(rule => matchesIgnoreRule(rule, payload, event));
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadTemplates, renderTemplate } from './templates.js';
+import {
+  buildIssueDescription, buildOccurrenceComment, buildPriorityComment, buildRegressionComment,
+} from '../services/issue-content.js';
+import type { ClaudeAnalysis, LatestOccurrence } from '../types.js';
+
+const analysis: ClaudeAnalysis = {
+  category: 'database',
+  priority: 'high',
+  summary: 'Deadlock on checkout',
+  affected_files: ['src/checkout.ts:42'],
+  root_cause: { hypothesis: 'Rows locked in opposite order', confidence: 'medium', evidence: 'checkout.ts:42' },
+  fix: { suggestion: 'Lock rows by id', files_to_modify: ['src/checkout.ts'] },
+  investigation_log: ['Read checkout.ts', 'Found the lock order'],
+  suggested_team: null,
+};
+
+describe('renderTemplate', () => {
+  it('renders loops and conditionals without escaping', () => {
+    const source = '{{#each files}}{{inc @index}}. `{{this}}`\n{{/each}}{{#if note}}Note: {{note}}{{else}}{{or missing "none"}}{{/if}}';
+
+    expect(renderTemplate(source, { files: ['a<b>.ts', 'c.ts'] })).toBe('1. `a<b>.ts`\n2. `c.ts`\nnone');
+    expect(renderTemplate('{{upper category}} {{json data}}', { category: 'bug', data: { a: 1 } })).toBe('BUG {\n  "a": 1\n}');
+  });
+});
+
+describe('loadTemplates', () => {
+  let homeDir: string;
+  let repoPath: string;
+
+  beforeEach(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lineu-home-'));
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'lineu-repo-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(homeDir, { recursive: true, force: true });
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  const writeTemplate = (root: string, name: string, source: string) => {
+    fs.mkdirSync(path.join(root, '.lineu', 'templates'), { recursive: true });
+    fs.writeFileSync(path.join(root, '.lineu', 'templates', `${name}.md`), source);
+  };
+
+  it('renders the built-in set of the language', () => {
+    const en = loadTemplates({ language: 'en', homeDir });
+    const description = buildIssueDescription({}, analysis, 'abc123', {}, en);
+
+    expect(description).toContain('### Root Cause\n\n**Hypothesis**: Rows locked in opposite order');
+    expect(description).toContain('**Files to modify**: `src/checkout.ts`');
+    expect(description).toContain('1. Read checkout.ts\n2. Found the lock order');
+    expect(description).toContain('## Original Payload');
+
+    const ptBR = loadTemplates({ language: 'pt-BR', homeDir });
+    expect(buildIssueDescription({}, analysis, 'abc123', {}, ptBR)).toContain('### Causa Raiz');
+    expect(ptBR.render('analysis-prompt', { payload: { message: 'boom' } })).not.toContain('Times Disponíveis');
+    expect(ptBR.render('analysis-prompt', { payload: { message: 'boom' }, teamList: '- OPS' })).toContain('## Times Disponíveis\n\n- OPS');
+  });
+
+  it('renders the regression, occurrence and priority comments in the language', () => {
+    const en = loadTemplates({ language: 'en', homeDir });
+    const latest: LatestOccurrence = {
+      payload: {},
+      event: { source: 'sentry', exceptionType: 'TypeError', message: 'boom', environment: 'production', frames: [], tags: {} },
+    };
+    const occurrence = {
+      fingerprint: 'abc123', linear_issue_id: 'i-1', linear_identifier: 'ENG-1', count: 120, notified_count: 100,
+      notified_at: null, priority_bumped_at: null, hour_count: 60, first_seen: '2026-01-01 10:00:00', last_seen: '2026-01-01 11:00:00',
+    };
+
+    expect(buildRegressionComment(latest, en)).toBe(
+      '## Regression\n\nThis error happened again after the issue was completed.\n\n### Latest occurrence\n\n**TypeError**: boom\n\n**Environment**: production\n'
+    );
+    const threshold = buildOccurrenceComment({ reason: 'threshold', threshold: 100 }, occurrence, { payload: { message: 'boom' } }, en);
+    expect(threshold).toContain('## This error reached 100 occurrences\n\n- **Total**: 120\n- **New since the last update**: 20');
+    expect(threshold).toContain('```json\n{\n  "message": "boom"\n}\n```');
+    expect(buildOccurrenceComment({ reason: 'summary' }, occurrence, latest, en)).toContain('## Daily occurrence summary');
+    expect(buildPriorityComment(60, en)).toBe('**Priority raised automatically**: 60 occurrences this hour.\n');
+
+    const ptBR = loadTemplates({ language: 'pt-BR', homeDir });
+    expect(buildRegressionComment(latest, ptBR)).toContain('## Regressão');
+    expect(buildOccurrenceComment({ reason: 'summary' }, occurrence, latest, ptBR)).toContain('## Resumo diário de ocorrências');
+    expect(buildPriorityComment(60, ptBR)).toContain('**Prioridade elevada automaticamente**: 60 ocorrências nesta hora.');
+  });
+
+  it('prefers repo-local overrides, then ~/.lineu/templates', () => {
+    writeTemplate(homeDir, 'issue', 'home: {{analysis.summary}}');
+    writeTemplate(homeDir, 'analysis-prompt', 'home prompt');
+    writeTemplate(repoPath, 'issue', '{{#each analysis.affected_files}}{{this}}{{/each}} ({{fingerprint}})');
+
+    const templates = loadTemplates({ language: 'en', repoPath, homeDir });
+
+    expect(templates.templates.issue.path).toBe(path.join(repoPath, '.lineu', 'templates', 'issue.md'));
+    expect(buildIssueDescription({}, analysis, 'abc123', {}, templates)).toBe('src/checkout.ts:42 (abc123)');
+    expect(templates.render('analysis-prompt', {})).toBe('home prompt');
+    expect(templates.templates['analysis-repair'].path).toMatch(/templates[\\/]en[\\/]analysis-repair\.md$/);
+  });
+
+  it('rejects templates with syntax errors', () => {
+    writeTemplate(repoPath, 'issue', '{{#if analysis}}unclosed');
+
+    expect(() => loadTemplates({ repoPath, homeDir })).toThrow(/Template .*issue\.md is invalid/);
+  });
+});
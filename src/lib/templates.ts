@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Handlebars from 'handlebars';
+import type { TemplateLanguage } from '../types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// In dist: dist/lib/templates.js -> dist/templates/<language>/
+const BUILTIN_TEMPLATES_DIR = path.join(__dirname, '..', 'templates');
+
+export const TEMPLATE_LANGUAGES: TemplateLanguage[] = ['en', 'pt-BR'];
+export const DEFAULT_LANGUAGE: TemplateLanguage = 'pt-BR';
+
+export const TEMPLATE_NAMES = [
+  'analysis-prompt', 'analysis-repair', 'issue', 'regression-comment', 'occurrence-comment', 'priority-comment',
+] as const;
+export type TemplateName = typeof TEMPLATE_NAMES[number];
+
+export interface LoadedTemplate {
+  // File the template was read from
+  path: string;
+  source: string;
+  // Content hash; a changed prompt invalidates cached analyses
+  hash: string;
+}
+
+export interface TemplateSet {
+  language: TemplateLanguage;
+  templates: Record<TemplateName, LoadedTemplate>;
+  render(name: TemplateName, context: object): string;
+}
+
+// Output is Markdown sent to Claude and the tracker, never HTML: nothing is escaped
+const handlebars = Handlebars.create();
+
+handlebars.registerHelper('json', (value: unknown) => JSON.stringify(value, null, 2));
+// 1-based position in {{#each}}: {{inc @index}}
+handlebars.registerHelper('inc', (value: number) => value + 1);
+handlebars.registerHelper('upper', (value: unknown) => String(value ?? '').toUpperCase());
+// First non-empty argument: {{or exception.type "Error"}}
+handlebars.registerHelper('or', (...args: unknown[]) => args.slice(0, -1).find(arg => arg !== undefined && arg !== null && arg !== ''));
+
+const compiled = new Map<string, HandlebarsTemplateDelegate>();
+
+// Renders a template source, compiling each distinct source once
+export function renderTemplate(source: string, context: object): string {
+  let template = compiled.get(source);
+  if (!template) {
+    template = handlebars.compile(source, { noEscape: true, strict: false });
+    compiled.set(source, template);
+  }
+  return template(context);
+}
+
+function readTemplate(file: string): LoadedTemplate {
+  const source = fs.readFileSync(file, 'utf-8');
+  try {
+    handlebars.parse(source);
+  } catch (err) {
+    throw new Error(`Template ${file} is invalid: ${(err as Error).message}`);
+  }
+  return { path: file, source, hash: crypto.createHash('sha256').update(source).digest('hex').substring(0, 32) };
+}
+
+// Reads each template from the first directory that has it
+function loadFrom(language: TemplateLanguage, dirs: string[]): TemplateSet {
+  const templates = {} as Record<TemplateName, LoadedTemplate>;
+  for (const name of TEMPLATE_NAMES) {
+    const file = dirs.map(dir => path.join(dir, `${name}.md`)).find(candidate => fs.existsSync(candidate));
+    if (!file) {
+      throw new Error(`Template ${name}.md not found in ${dirs.join(', ')}`);
+    }
+    templates[name] = readTemplate(file);
+  }
+
+  return {
+    language,
+    templates,
+    render: (name, context) => renderTemplate(templates[name].source, context),
+  };
+}
+
+/**
+ * Loads the prompt, issue and comment templates. Each one is read from the first of
+ * <repo>/.lineu/templates/<name>.md and ~/.lineu/templates/<name>.md that
+ * exists, else from the built-in set of the language. Templates are checked
+ * for syntax errors here rather than on first use.
+ */
+export function loadTemplates(options: {
+  language?: TemplateLanguage;
+  repoPath?: string;
+  homeDir?: string;
+} = {}): TemplateSet {
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  return loadFrom(language, [
+    ...(options.repoPath ? [path.join(options.repoPath, '.lineu', 'templates')] : []),
+    path.join(options.homeDir ?? os.homedir(), '.lineu', 'templates'),
+    path.join(BUILTIN_TEMPLATES_DIR, language),
+  ]);
+}
+
+let builtin: TemplateSet | undefined;
+
+// Built-in templates of the default language, for callers given no template set
+export function defaultTemplates(): TemplateSet {
+  builtin ??= loadFrom(DEFAULT_LANGUAGE, [path.join(BUILTIN_TEMPLATES_DIR, DEFAULT_LANGUAGE)]);
+  return builtin;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { verifyWebhookRequest, verifyLinearRequest } from './webhook-auth.js';
+import type { WebhookSource } from '../types.js';
+
+const body = Buffer.from('{"error":"TypeError"}');
+const now = Date.parse('2024-01-15T10:30:00Z');
+const nowSeconds = String(Math.floor(now / 1000));
+
+function sign(secret: string, content: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(content).digest('hex');
+}
+
+describe('verifyWebhookRequest', () => {
+  describe('hmac', () => {
+    const source: WebhookSource = {
+      name: 'internal', route: 'generic', verify: 'hmac', secret: 's3cret', header: 'x-lineu-signature', tolerance: 300,
+    };
+
+    it('accepts a valid signature with or without sha256= prefix', () => {
+      const signature = sign('s3cret', body);
+      expect(verifyWebhookRequest([source], 'generic', { 'x-lineu-signature': signature }, body, now))
+        .toEqual({ ok: true, source: 'internal' });
+      expect(verifyWebhookRequest([source], 'generic', { 'x-lineu-signature': `sha256=${signature}` }, body, now).ok)
+        .toBe(true);
+    });
+
+    it('rejects a signature for a different body', () => {
+      const signature = sign('s3cret', '{"error":"other"}');
+      expect(verifyWebhookRequest([source], 'generic', { 'x-lineu-signature': signature }, body, now))
+        .toEqual({ ok: false, reason: 'Invalid signature' });
+    });
+
+    it('signs timestamp and body together and rejects stale timestamps', () => {
+      const timed = { ...source, timestampHeader: 'x-lineu-timestamp' };
+      const signature = sign('s3cret', `${nowSeconds}.${body}`);
+
+      expect(verifyWebhookRequest([timed], 'generic', {
+        'x-lineu-signature': signature,
+        'x-lineu-timestamp': nowSeconds,
+      }, body, now).ok).toBe(true);
+
+      // Replaying the same request 10 minutes later
+      expect(verifyWebhookRequest([timed], 'generic', {
+        'x-lineu-signature': signature,
+        'x-lineu-timestamp': nowSeconds,
+      }, body, now + 600_000)).toEqual({ ok: false, reason: 'Timestamp outside tolerance window' });
+    });
+  });
+
+  describe('sentry', () => {
+    const source: WebhookSource = { name: 'sentry-prod', route: 'sentry', verify: 'sentry', secret: 'client-secret', tolerance: 300 };
+
+    it('verifies sentry-hook-signature and sentry-hook-timestamp', () => {
+      const headers = { 'sentry-hook-signature': sign('client-secret', body), 'sentry-hook-timestamp': nowSeconds };
+      expect(verifyWebhookRequest([source], 'sentry', headers, body, now)).toEqual({ ok: true, source: 'sentry-prod' });
+    });
+
+    it('requires the timestamp header', () => {
+      const headers = { 'sentry-hook-signature': sign('client-secret', body) };
+      expect(verifyWebhookRequest([source], 'sentry', headers, body, now)).toEqual({ ok: false, reason: 'Missing timestamp' });
+    });
+  });
+
+  describe('bearer', () => {
+    const source: WebhookSource = { name: 'grafana', route: 'alertmanager', verify: 'bearer', secret: 'token-123', tolerance: 300 };
+
+    it('accepts the configured token and rejects others', () => {
+      expect(verifyWebhookRequest([source], 'alertmanager', { authorization: 'Bearer token-123' }, body, now).ok).toBe(true);
+      expect(verifyWebhookRequest([source], 'alertmanager', { authorization: 'Bearer nope' }, body, now))
+        .toEqual({ ok: false, reason: 'Invalid bearer token' });
+      expect(verifyWebhookRequest([source], 'alertmanager', {}, body, now))
+        .toEqual({ ok: false, reason: 'Missing bearer token' });
+    });
+  });
+
+  it('identifies the matching source among several for the same route', () => {
+    const sources: WebhookSource[] = [
+      { name: 'team-a', route: 'generic', verify: 'bearer', secret: 'aaa', tolerance: 300 },
+      { name: 'team-b', route: 'generic', verify: 'bearer', secret: 'bbb', tolerance: 300 },
+    ];
+    expect(verifyWebhookRequest(sources, 'generic', { authorization: 'Bearer bbb' }, body, now))
+      .toEqual({ ok: true, source: 'team-b' });
+  });
+
+  it('rejects routes without a configured source', () => {
+    const sources: WebhookSource[] = [{ name: 'team-a', route: 'generic', verify: 'bearer', secret: 'aaa', tolerance: 300 }];
+    expect(verifyWebhookRequest(sources, 'sentry', { authorization: 'Bearer aaa' }, body, now))
+      .toEqual({ ok: false, reason: 'No source configured for route sentry' });
+  });
+});
+
+describe('verifyLinearRequest', () => {
+  it('verifies linear-signature and rejects stale deliveries', () => {
+    const headers = { 'linear-signature': sign('lin_wh', body) };
+
+    expect(verifyLinearRequest('lin_wh', headers, body, now, now)).toEqual({ ok: true, source: 'linear' });
+    expect(verifyLinearRequest('lin_wh', headers, body, now - 120_000, now))
+      .toEqual({ ok: false, reason: 'Timestamp outside tolerance window' });
+    expect(verifyLinearRequest('other', headers, body, now, now)).toEqual({ ok: false, reason: 'Invalid signature' });
+    expect(verifyLinearRequest('lin_wh', {}, body, now, now)).toEqual({ ok: false, reason: 'Missing signature' });
+  });
+});
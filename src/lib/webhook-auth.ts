@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { WebhookRoute, WebhookSource } from '../types.js';
+
+export type VerifyResult =
+  | { ok: true; source: string }
+  | { ok: false; reason: string };
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Constant-time comparison that does not leak the expected length
+function safeEqual(a: string, b: string): boolean {
+  const ha = crypto.createHash('sha256').update(a).digest();
+  const hb = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(ha, hb);
+}
+
+function hmacHex(secret: string, content: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(content).digest('hex');
+}
+
+/**
+ * Rejects timestamps outside the tolerance window (replay protection).
+ * Accepts seconds or milliseconds since the epoch.
+ */
+function checkTimestamp(value: string | undefined, toleranceSeconds: number, now: number): string | null {
+  if (!value) return 'Missing timestamp';
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return 'Invalid timestamp';
+
+  const timestampMs = parsed > 1e12 ? parsed : parsed * 1000;
+  if (Math.abs(now - timestampMs) > toleranceSeconds * 1000) {
+    return 'Timestamp outside tolerance window';
+  }
+  return null;
+}
+
+function verifySource(
+  source: WebhookSource,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer,
+  now: number
+): string | null {
+  switch (source.verify) {
+    case 'bearer': {
+      const auth = header(headers, 'authorization');
+      const token = auth?.match(/^Bearer\s+(.+)$/i)?.[1];
+      if (!token) return 'Missing bearer token';
+      return safeEqual(token, source.secret) ? null : 'Invalid bearer token';
+    }
+
+    case 'sentry': {
+      // Sentry signs the body and sends the request time separately
+      const signature = header(headers, 'sentry-hook-signature');
+      if (!signature) return 'Missing signature';
+      const timestampError = checkTimestamp(header(headers, 'sentry-hook-timestamp'), source.tolerance, now);
+      if (timestampError) return timestampError;
+      return safeEqual(signature, hmacHex(source.secret, rawBody)) ? null : 'Invalid signature';
+    }
+
+    case 'hmac': {
+      const value = header(headers, source.header!);
+      if (!value) return 'Missing signature';
+      const signature = value.replace(/^sha256=/, '');
+
+      // With a timestamp header the signed content is "<timestamp>.<body>"
+      let content: Buffer = rawBody;
+      if (source.timestampHeader) {
+        const timestamp = header(headers, source.timestampHeader);
+        const timestampError = checkTimestamp(timestamp, source.tolerance, now);
+        if (timestampError) return timestampError;
+        content = Buffer.concat([Buffer.from(`${timestamp}.`), rawBody]);
+      }
+      return safeEqual(signature, hmacHex(source.secret, content)) ? null : 'Invalid signature';
+    }
+  }
+}
+
+/**
+ * Verifies a webhook request against the sources configured for its route.
+ * The first source whose verification succeeds identifies the request.
+ */
+export function verifyWebhookRequest(
+  sources: WebhookSource[],
+  route: WebhookRoute,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer,
+  now = Date.now()
+): VerifyResult {
+  const candidates = sources.filter(s => s.route === route);
+  if (candidates.length === 0) {
+    return { ok: false, reason: `No source configured for route ${route}` };
+  }
+
+  let reason = 'Unauthorized';
+  for (const source of candidates) {
+    const error = verifySource(source, headers, rawBody, now);
+    if (!error) {
+      return { ok: true, source: source.name };
+    }
+    reason = error;
+  }
+  return { ok: false, reason };
+}
+
+// Linear recommends rejecting deliveries older than a minute
+const LINEAR_TOLERANCE_SECONDS = 60;
+
+/**
+ * Verifies a Linear webhook delivery: linear-signature is the HMAC-SHA256 of
+ * the raw body, which carries the delivery time as webhookTimestamp (ms).
+ */
+export function verifyLinearRequest(
+  secret: string,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer,
+  webhookTimestamp: unknown,
+  now = Date.now()
+): VerifyResult {
+  const signature = header(headers, 'linear-signature');
+  if (!signature) return { ok: false, reason: 'Missing signature' };
+  if (!safeEqual(signature, hmacHex(secret, rawBody))) return { ok: false, reason: 'Invalid signature' };
+
+  const timestamp = typeof webhookTimestamp === 'number' ? String(webhookTimestamp) : undefined;
+  const timestampError = checkTimestamp(timestamp, LINEAR_TOLERANCE_SECONDS, now);
+  if (timestampError) return { ok: false, reason: timestampError };
+
+  return { ok: true, source: 'linear' };
+}
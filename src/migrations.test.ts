@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { MIGRATIONS, runMigrations, getMigrationStatus, type Migration } from './migrations.js';
+import { createDatabase } from './db.js';
+
+// Schema written by versions before migrations existed
+const LEGACY_SCHEMA = `
+CREATE TABLE jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  payload TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  status TEXT DEFAULT 'pending',
+  error TEXT,
+  linear_issue_id TEXT,
+  linear_identifier TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  processed_at DATETIME
+);
+CREATE TABLE fingerprints (
+  hash TEXT PRIMARY KEY,
+  linear_issue_id TEXT NOT NULL,
+  linear_identifier TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+describe('runMigrations', () => {
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), 'lineu-migrations-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    fs.mkdirSync(testDir, { recursive: true });
+    dbPath = path.join(testDir, 'test.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('applies every migration once on a new database', () => {
+    const db = new Database(dbPath);
+
+    expect(runMigrations(db).map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(runMigrations(db)).toEqual([]);
+    expect(getMigrationStatus(db).every(m => m.appliedAt !== null)).toBe(true);
+    db.close();
+  });
+
+  it('upgrades a database created before migrations existed, keeping its data', () => {
+    const legacy = new Database(dbPath);
+    legacy.exec(LEGACY_SCHEMA);
+    legacy.prepare(`INSERT INTO jobs (payload, fingerprint, status) VALUES ('{"message":"old"}', 'old-hash', 'completed')`).run();
+    legacy.prepare(`INSERT INTO fingerprints (hash, linear_issue_id, linear_identifier) VALUES ('old-hash', 'issue-1', 'TEAM-1')`).run();
+
+    // Nothing recorded yet: every migration is pending
+    expect(getMigrationStatus(legacy).every(m => m.appliedAt === null)).toBe(true);
+    legacy.close();
+
+    const db = createDatabase(dbPath);
+    const job = db.getJob(1);
+    expect(job?.status).toBe('completed');
+    expect(job?.attempts).toBe(0);
+    expect(db.findFingerprint('old-hash', 7)?.linear_identifier).toBe('TEAM-1');
+    // Existing jobs seed the occurrence counts
+    expect(db.getOccurrences('old-hash')?.count).toBe(1);
+    db.close();
+
+    const upgraded = new Database(dbPath);
+    expect(columns(upgraded, 'jobs')).toEqual(expect.arrayContaining(['analysis', 'event', 'source', 'lease_expires_at', 'next_attempt_at']));
+    expect(columns(upgraded, 'fingerprints')).toContain('resolved_at');
+    upgraded.close();
+  });
+
+  it('records migrations on databases that already have their columns', () => {
+    // Created by a version that added columns on startup without recording them
+    const db = createDatabase(dbPath);
+    db.close();
+    const raw = new Database(dbPath);
+    raw.exec('DROP TABLE schema_migrations');
+
+    expect(runMigrations(raw)).toHaveLength(MIGRATIONS.length);
+    raw.close();
+  });
+
+  it('rolls back every pending migration when one fails', () => {
+    const db = new Database(dbPath);
+    runMigrations(db);
+
+    const broken: Migration[] = [
+      ...MIGRATIONS,
+      { version: 100, name: 'add_table', up: (d) => d.exec('CREATE TABLE extra (id INTEGER)') },
+      { version: 101, name: 'broken', up: (d) => d.exec('ALTER TABLE missing ADD COLUMN x TEXT') },
+    ];
+
+    expect(() => runMigrations(db, broken)).toThrow();
+    expect(getMigrationStatus(db, broken).filter(m => m.appliedAt === null).map(m => m.version)).toEqual([100, 101]);
+    expect(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'extra'`).get()).toBeUndefined();
+    db.close();
+  });
+});
@@ -0,0 +1,305 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // null while the migration is pending
+  appliedAt: string | null;
+}
+
+const MIGRATIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+// Databases created before migrations existed may already have some of the
+// columns a migration adds, so columns are only added when missing
+function addColumnIfMissing(db: Database.Database, table: string, name: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === name)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+  }
+}
+
+/**
+ * Ordered schema migrations. Append new migrations with the next version;
+ * never edit or renumber a migration that has been released.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      db.exec(`
+        -- Job queue for async processing
+        CREATE TABLE IF NOT EXISTS jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          payload TEXT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          status TEXT DEFAULT 'pending',  -- pending | processing | completed | failed | dead | duplicate | resolved
+          error TEXT,
+          linear_issue_id TEXT,
+          linear_identifier TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          processed_at DATETIME
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+        CREATE INDEX IF NOT EXISTS idx_jobs_fingerprint ON jobs(fingerprint);
+
+        -- Fingerprints for deduplication
+        CREATE TABLE IF NOT EXISTS fingerprints (
+          hash TEXT PRIMARY KEY,
+          linear_issue_id TEXT NOT NULL,
+          linear_identifier TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      addColumnIfMissing(db, 'jobs', 'analysis', 'TEXT');
+    },
+  },
+  {
+    version: 2,
+    name: 'source_events',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'event', 'TEXT');          // normalized ErrorEvent (JSON), when the source has an adapter
+      addColumnIfMissing(db, 'jobs', 'alert_state', 'TEXT');    // firing | resolved, for alerting sources
+      addColumnIfMissing(db, 'jobs', 'source', 'TEXT');         // authenticated webhook source name
+      addColumnIfMissing(db, 'fingerprints', 'resolved_at', 'DATETIME'); // last time the source reported the alert as resolved
+      db.exec(`
+        -- Webhook requests rejected by source authentication
+        CREATE TABLE IF NOT EXISTS webhook_rejections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          route TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'fingerprint_strategy',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'fingerprint_strategy', 'TEXT'); // rule | external | stacktrace | message | labels | payload
+    },
+  },
+  {
+    version: 4,
+    name: 'job_leases',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'worker_id', 'TEXT');              // worker holding the lease while processing
+      addColumnIfMissing(db, 'jobs', 'claimed_at', 'DATETIME');
+      addColumnIfMissing(db, 'jobs', 'lease_expires_at', 'DATETIME');   // processing jobs past this are returned to pending
+      addColumnIfMissing(db, 'jobs', 'attempts', 'INTEGER DEFAULT 0');  // times the job was claimed
+    },
+  },
+  {
+    version: 5,
+    name: 'job_retries',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'next_attempt_at', 'DATETIME');    // pending retries are not claimed before this
+    },
+  },
+  {
+    version: 6,
+    name: 'occurrences',
+    up: (db) => {
+      db.exec(`
+        -- Per-fingerprint aggregate of every firing webhook hit
+        CREATE TABLE IF NOT EXISTS occurrences (
+          fingerprint TEXT PRIMARY KEY,
+          count INTEGER NOT NULL DEFAULT 0,
+          first_seen DATETIME NOT NULL,
+          last_seen DATETIME NOT NULL
+        );
+
+        -- Hits per fingerprint per hour ('YYYY-MM-DD HH:00', UTC)
+        CREATE TABLE IF NOT EXISTS occurrence_hours (
+          fingerprint TEXT NOT NULL,
+          hour TEXT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (fingerprint, hour)
+        );
+
+        -- Distinct environments and hosts reporting a fingerprint
+        CREATE TABLE IF NOT EXISTS occurrence_dimensions (
+          fingerprint TEXT NOT NULL,
+          dimension TEXT NOT NULL,  -- environment | host
+          value TEXT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          last_seen DATETIME NOT NULL,
+          PRIMARY KEY (fingerprint, dimension, value)
+        );
+
+        -- Existing jobs seed the counts; environments and hosts are only tracked from here on
+        INSERT OR IGNORE INTO occurrences (fingerprint, count, first_seen, last_seen)
+        SELECT fingerprint, COUNT(*), MIN(created_at), MAX(created_at)
+        FROM jobs WHERE status != 'resolved'
+        GROUP BY fingerprint;
+
+        INSERT OR IGNORE INTO occurrence_hours (fingerprint, hour, count)
+        SELECT fingerprint, strftime('%Y-%m-%d %H:00', created_at), COUNT(*)
+        FROM jobs WHERE status != 'resolved' AND created_at > datetime('now', '-30 days')
+        GROUP BY fingerprint, strftime('%Y-%m-%d %H:00', created_at);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'occurrence_updates',
+    up: (db) => {
+      addColumnIfMissing(db, 'occurrences', 'notified_count', 'INTEGER NOT NULL DEFAULT 0'); // count last reported on the Linear issue
+      addColumnIfMissing(db, 'occurrences', 'notified_at', 'DATETIME');
+      addColumnIfMissing(db, 'occurrences', 'priority_bumped_at', 'DATETIME');
+      // Issues created before this version have been told nothing; start counting from now
+      db.exec(`
+        UPDATE occurrences SET notified_count = count, notified_at = CURRENT_TIMESTAMP
+        WHERE fingerprint IN (SELECT hash FROM fingerprints);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'regressions',
+    up: (db) => {
+      addColumnIfMissing(db, 'fingerprints', 'issue_state', 'TEXT');             // open | completed | canceled | missing
+      addColumnIfMissing(db, 'fingerprints', 'issue_state_checked_at', 'DATETIME');
+      addColumnIfMissing(db, 'jobs', 'regression_of', 'TEXT');                   // completed issue the error came back from
+    },
+  },
+  {
+    version: 9,
+    name: 'issue_mirror',
+    up: (db) => {
+      // Issue fields reported by the Linear webhook
+      addColumnIfMissing(db, 'fingerprints', 'issue_state_name', 'TEXT');
+      addColumnIfMissing(db, 'fingerprints', 'issue_assignee', 'TEXT');
+      addColumnIfMissing(db, 'fingerprints', 'issue_team', 'TEXT');
+      addColumnIfMissing(db, 'fingerprints', 'issue_closed_at', 'DATETIME');
+      addColumnIfMissing(db, 'fingerprints', 'issue_synced_at', 'DATETIME');  // last webhook event; synced states never go stale
+      db.exec('CREATE INDEX IF NOT EXISTS idx_fingerprints_issue ON fingerprints(linear_issue_id)');
+    },
+  },
+  {
+    version: 10,
+    name: 'job_routing',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'routing', 'TEXT');  // RoutingDecision JSON
+    },
+  },
+  {
+    version: 11,
+    name: 'suppression',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'suppressed_by', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS snoozes (
+          fingerprint TEXT PRIMARY KEY,
+          until DATETIME NOT NULL,
+          reason TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'analysis_cache',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'cache_hit', 'INTEGER DEFAULT 0');     // 1 when the analysis came from the cache
+      addColumnIfMissing(db, 'jobs', 'bypass_cache', 'INTEGER DEFAULT 0');  // re-run requested with a fresh analysis
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS analysis_cache (
+          fingerprint TEXT NOT NULL,
+          head_sha TEXT NOT NULL,
+          template_hash TEXT NOT NULL,
+          repair_template_hash TEXT NOT NULL,
+          teams_hash TEXT NOT NULL,
+          analyzer TEXT NOT NULL,
+          analysis TEXT NOT NULL,
+          job_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (fingerprint, head_sha, template_hash, repair_template_hash, teams_hash, analyzer)
+        )
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'analysis_usage',
+    up: (db) => {
+      // One row per claude invocation: a job's repair and retries add rows
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS analysis_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL NOT NULL DEFAULT 0,
+          num_turns INTEGER NOT NULL DEFAULT 0,
+          duration_ms INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_analysis_usage_job ON analysis_usage(job_id);
+        CREATE INDEX IF NOT EXISTS idx_analysis_usage_created ON analysis_usage(created_at);
+      `);
+    },
+  },
+];
+
+function appliedVersions(db: Database.Database): Map<number, string> {
+  const table = db.prepare(`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'
+  `).get();
+  if (!table) return new Map();
+
+  const rows = db.prepare('SELECT version, applied_at FROM schema_migrations').all() as { version: number; applied_at: string }[];
+  return new Map(rows.map(r => [r.version, r.applied_at]));
+}
+
+/**
+ * Applies pending migrations in version order, in a single transaction:
+ * either the database reaches the latest version or it is left untouched.
+ * Returns the migrations that were applied.
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  db.exec(MIGRATIONS_TABLE);
+
+  const applied = appliedVersions(db);
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(m => !applied.has(m.version));
+  if (pending.length === 0) return [];
+
+  const record = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+  db.transaction(() => {
+    for (const migration of pending) {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+    }
+  })();
+
+  return pending;
+}
+
+/**
+ * Lists every known migration with the time it was applied, without applying anything.
+ */
+export function getMigrationStatus(db: Database.Database, migrations: Migration[] = MIGRATIONS): MigrationStatus[] {
+  const applied = appliedVersions(db);
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .map(m => ({ version: m.version, name: m.name, appliedAt: applied.get(m.version) ?? null }));
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createServer } from './server.js';
+import { generateFingerprint } from './lib/fingerprint.js';
 import { createDatabase, LineuDatabase } from './db.js';
 import { LinearService } from './services/linear.js';
 import type { LineuConfig } from './types.js';
@@ -7,6 +8,20 @@ import type { FastifyInstance } from 'fastify';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import crypto from 'crypto';
+
+function createTestConfig(testDbPath: string): LineuConfig {
+  return {
+    server: { port: 3000 },
+    repo: { path: '/tmp/test-repo' },
+    database: { path: testDbPath },
+    claude: { maxTurns: 10, timeout: 30000 },
+    tracker: 'linear',
+    linear: { apiKey: 'test-key', concurrency: 2 },
+    deduplication: { windowDays: 7, frameLimit: 5, issueStateTtl: 300000 },
+    worker: { pollInterval: 10000, concurrency: 1, gitPullInterval: 60000, leaseDuration: 60000, maxAttempts: 5, retryDelay: 60000 },
+  };
+}
 
 describe('POST /webhook with external fingerprint', () => {
   let testDir: string;
@@ -19,18 +34,8 @@ describe('POST /webhook with external fingerprint', () => {
     fs.mkdirSync(testDir, { recursive: true });
     db = createDatabase(testDbPath);
 
-    const testConfig: LineuConfig = {
-      server: { port: 3000 },
-      repo: { path: '/tmp/test-repo' },
-      database: { path: testDbPath },
-      claude: { maxTurns: 10, timeout: 30000 },
-      linear: { apiKey: 'test-key' },
-      deduplication: { windowDays: 7 },
-      worker: { pollInterval: 10000, gitPullInterval: 60000 },
-    };
-
     const linear = new LinearService({ apiKey: 'test-key' });
-    app = await createServer(testConfig, db, linear);
+    app = await createServer(createTestConfig(testDbPath), db, linear);
   });
 
   afterEach(async () => {
@@ -196,6 +201,28 @@ describe('POST /webhook with external fingerprint', () => {
     expect(duplicateJob?.linear_identifier).toBe('TEAM-1');
   });
 
+  it('keeps deduplicating on a stale open state and refreshes it in the background', async () => {
+    const testDbPath = path.join(testDir, 'test.db');
+    const config = createTestConfig(testDbPath);
+    config.deduplication.issueStateTtl = 0;
+    const linear = new LinearService({ apiKey: 'test-key' });
+    const getIssueState = vi.spyOn(linear, 'getIssueState').mockResolvedValue('completed');
+    await app.close();
+    app = await createServer(config, db, linear);
+    db.insertFingerprint('stale-hash', 'issue-123', 'TEAM-1');
+
+    const hit = () => app.inject({ method: 'POST', url: '/webhook', payload: { fingerprint: 'stale-hash', error: 'TestError' } });
+
+    const response = await hit();
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({ status: 'duplicate', existingIssue: 'TEAM-1' });
+    expect(getIssueState).toHaveBeenCalledWith('issue-123');
+
+    // Once the refresh finds the issue completed, the next hit is queued for a regression check
+    await vi.waitFor(() => expect(db.getFingerprintIssue('stale-hash', 60000)?.issue_state).toBe('completed'));
+    expect((await hit()).statusCode).toBe(202);
+  });
+
   it('allows different fingerprints', async () => {
     // First request
     const response1 = await app.inject({
@@ -223,4 +250,503 @@ describe('POST /webhook with external fingerprint', () => {
     const body2 = JSON.parse(response2.body);
     expect(body2.status).toBe('queued');
   });
+
+  it('groups errors with the same stack trace and records the strategy', async () => {
+    const stack = (line: number) => [
+      'TypeError: Cannot read properties of undefined (reading \'id\')',
+      `    at loadProfile (/app/src/user.ts:${line}:11)`,
+      '    at handler (/app/src/routes.ts:20:5)',
+    ].join('\n');
+
+    const response1 = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: { message: 'Failed for user 42', stack: stack(42), host: 'web-1' },
+    });
+    const response2 = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: { message: 'Failed for user 7', stack: stack(57), host: 'web-2' },
+    });
+
+    const body1 = JSON.parse(response1.body);
+    const body2 = JSON.parse(response2.body);
+    expect(body1.strategy).toBe('stacktrace');
+    expect(body2.status).toBe('duplicate');
+    expect(body2.fingerprint).toBe(body1.fingerprint);
+    expect(db.getJob(body2.jobId)?.fingerprint_strategy).toBe('stacktrace');
+  });
+
+  it('keeps grouping generic payloads without a stack by the whole payload', async () => {
+    const payload = { message: 'Failed for user 42', level: 'error', timestamp: '2026-10-19T10:00:00Z' };
+
+    const response1 = await app.inject({ method: 'POST', url: '/webhook', payload });
+    const response2 = await app.inject({ method: 'POST', url: '/webhook', payload: { ...payload, message: 'Failed for user 7' } });
+
+    const body1 = JSON.parse(response1.body);
+    expect(body1).toMatchObject({ status: 'queued', strategy: 'payload', fingerprint: generateFingerprint(payload) });
+    expect(JSON.parse(response2.body)).toMatchObject({ status: 'queued', strategy: 'payload' });
+  });
+});
+
+describe('POST /webhook with fingerprint rules', () => {
+  let testDir: string;
+  let db: LineuDatabase;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'lineu-server-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    const testDbPath = path.join(testDir, 'test.db');
+    fs.mkdirSync(testDir, { recursive: true });
+    db = createDatabase(testDbPath);
+
+    const linear = new LinearService({ apiKey: 'test-key' });
+    app = await createServer(createTestConfig(testDbPath), db, linear, {
+      fingerprintRules: [{ name: 'checkout', match: [{ path: 'service', pattern: /^checkout$/ }], group: 'checkout-errors' }],
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('applies a matching rule before the external fingerprint', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: { service: 'checkout', fingerprint: 'external-id', error: 'TestError' },
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body).toMatchObject({ status: 'queued', strategy: 'rule', rule: 'checkout' });
+    expect(body.fingerprint).toMatch(/^[0-9a-f]{32}$/);
+    expect(db.getJob(body.jobId)?.fingerprint_strategy).toBe('rule');
+  });
+
+  it('falls back to the automatic strategies when no rule matches', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: { service: 'payments', fingerprint: 'external-id', error: 'TestError' },
+    });
+
+    expect(JSON.parse(response.body)).toMatchObject({ fingerprint: 'external-id', strategy: 'external' });
+  });
+});
+
+describe('POST /webhook suppression', () => {
+  let testDir: string;
+  let db: LineuDatabase;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'lineu-server-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    const testDbPath = path.join(testDir, 'test.db');
+    fs.mkdirSync(testDir, { recursive: true });
+    db = createDatabase(testDbPath);
+
+    const linear = new LinearService({ apiKey: 'test-key' });
+    app = await createServer(createTestConfig(testDbPath), db, linear, {
+      ignoreRules: [{ name: 'aborts', exceptionType: ['ClientAbortError'], environment: ['production'] }],
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('records events matching an ignore rule as suppressed instead of queueing them', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: { error: { class: 'ClientAbortError', message: 'aborted' }, environment: 'production' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toMatchObject({ status: 'suppressed', suppressedBy: 'ignore rule aborts' });
+    expect(db.getJob(body.jobId)?.status).toBe('suppressed');
+    expect(db.claimNextJob()).toBeUndefined();
+  });
+
+  it('suppresses events of a snoozed fingerprint until it is unsnoozed', async () => {
+    db.snoozeFingerprint('noisy', 3600000);
+
+    const snoozed = await app.inject({ method: 'POST', url: '/webhook', payload: { fingerprint: 'noisy', error: 'Boom' } });
+    expect(JSON.parse(snoozed.body)).toMatchObject({ status: 'suppressed', suppressedBy: expect.stringMatching(/^snoozed until /) });
+
+    db.unsnoozeFingerprint('noisy');
+    const queued = await app.inject({ method: 'POST', url: '/webhook', payload: { fingerprint: 'noisy', error: 'Boom' } });
+    expect(queued.statusCode).toBe(202);
+    expect(db.getStats()).toMatchObject({ suppressed: 1, pending: 1 });
+  });
+});
+
+describe('POST /webhook/sentry', () => {
+  let testDir: string;
+  let db: LineuDatabase;
+  let app: FastifyInstance;
+
+  const sentryAlert = (eventId: string, timestamp: string) => ({
+    action: 'triggered',
+    data: {
+      event: {
+        event_id: eventId,
+        timestamp,
+        environment: 'production',
+        exception: {
+          values: [{
+            type: 'TypeError',
+            value: 'Cannot read properties of undefined',
+            stacktrace: { frames: [{ filename: 'src/user.ts', function: 'loadProfile', lineno: 42, in_app: true }] },
+          }],
+        },
+      },
+    },
+  });
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'lineu-server-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    const testDbPath = path.join(testDir, 'test.db');
+    fs.mkdirSync(testDir, { recursive: true });
+    db = createDatabase(testDbPath);
+
+    const linear = new LinearService({ apiKey: 'test-key' });
+    app = await createServer(createTestConfig(testDbPath), db, linear);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('stores the normalized event alongside the raw payload', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook/sentry',
+      payload: sentryAlert('evt-1', '2024-01-15T10:30:00Z'),
+    });
+
+    expect(response.statusCode).toBe(202);
+    const body = JSON.parse(response.body);
+    expect(body.status).toBe('queued');
+
+    const job = db.getJob(body.jobId);
+    expect(JSON.parse(job!.payload).data.event.event_id).toBe('evt-1');
+    const event = JSON.parse(job!.event!);
+    expect(event.source).toBe('sentry');
+    expect(event.exceptionType).toBe('TypeError');
+    expect(event.environment).toBe('production');
+  });
+
+  it('deduplicates events of the same error regardless of event id', async () => {
+    const response1 = await app.inject({
+      method: 'POST',
+      url: '/webhook/sentry',
+      payload: sentryAlert('evt-1', '2024-01-15T10:30:00Z'),
+    });
+    const response2 = await app.inject({
+      method: 'POST',
+      url: '/webhook/sentry',
+      payload: sentryAlert('evt-2', '2024-01-15T11:45:00Z'),
+    });
+
+    expect(response2.statusCode).toBe(200);
+    const body2 = JSON.parse(response2.body);
+    expect(body2.status).toBe('duplicate');
+    expect(body2.fingerprint).toBe(JSON.parse(response1.body).fingerprint);
+  });
+
+  it('rejects payloads that are not Sentry events', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook/sentry',
+      payload: { error: 'TestError' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toBe('Unrecognized Sentry payload');
+  });
+});
+
+describe('POST /webhook/newrelic', () => {
+  let testDir: string;
+  let db: LineuDatabase;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'lineu-server-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    const testDbPath = path.join(testDir, 'test.db');
+    fs.mkdirSync(testDir, { recursive: true });
+    db = createDatabase(testDbPath);
+
+    const linear = new LinearService({ apiKey: 'test-key' });
+    app = await createServer(createTestConfig(testDbPath), db, linear);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('records the alert state and issue URL on the job', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook/newrelic',
+      payload: {
+        issueUrl: 'https://one.newrelic.com/alerts-ai/issues/abc',
+        title: 'checkout-api: Error rate above 5%',
+        state: 'ACTIVATED',
+        impactedEntities: ['checkout-api'],
+      },
+    });
+
+    expect(response.statusCode).toBe(202);
+    const job = db.getJob(JSON.parse(response.body).jobId);
+    expect(job?.alert_state).toBe('firing');
+    expect(JSON.parse(job!.event!).url).toBe('https://one.newrelic.com/alerts-ai/issues/abc');
+  });
+
+  it('rejects payloads that are not New Relic notifications', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook/newrelic',
+      payload: { error: 'TestError' },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
+
+describe('POST /webhook/alertmanager', () => {
+  let testDir: string;
+  let db: LineuDatabase;
+  let app: FastifyInstance;
+
+  const notification = (status: string, alerts: Array<{ status: string; labels: Record<string, string> }>) => ({
+    receiver: 'lineu',
+    status,
+    alerts: alerts.map(a => ({ ...a, annotations: { summary: `${a.labels.alertname} on ${a.labels.service}` } })),
+  });
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'lineu-server-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    const testDbPath = path.join(testDir, 'test.db');
+    fs.mkdirSync(testDir, { recursive: true });
+    db = createDatabase(testDbPath);
+
+    const linear = new LinearService({ apiKey: 'test-key' });
+    app = await createServer(createTestConfig(testDbPath), db, linear);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('creates one job per alert fingerprinted by label set', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook/alertmanager',
+      payload: notification('firing', [
+        { status: 'firing', labels: { alertname: 'HighErrorRate', service: 'checkout' } },
+        { status: 'firing', labels: { alertname: 'HighErrorRate', service: 'payments' } },
+      ]),
+    });
+
+    expect(response.statusCode).toBe(202);
+    const body = JSON.parse(response.body);
+    expect(body.jobs).toHaveLength(2);
+    expect(body.jobs.map((j: { status: string }) => j.status)).toEqual(['queued', 'queued']);
+    expect(body.jobs[0].fingerprint).not.toBe(body.jobs[1].fingerprint);
+
+    const job = db.getJob(body.jobs[0].jobId);
+    expect(JSON.parse(job!.event!).tags).toEqual({ alertname: 'HighErrorRate', service: 'checkout' });
+  });
+
+  it('records resolved alerts against the matching fingerprint without queueing', async () => {
+    const firing = await app.inject({
+      method: 'POST',
+      url: '/webhook/alertmanager',
+      payload: notification('firing', [{ status: 'firing', labels: { alertname: 'HighErrorRate', service: 'checkout' } }]),
+    });
+    const { fingerprint } = JSON.parse(firing.body).jobs[0];
+    db.insertFingerprint(fingerprint, 'issue-1', 'TEAM-1');
+
+    const resolved = await app.inject({
+      method: 'POST',
+      url: '/webhook/alertmanager',
+      payload: notification('resolved', [{ status: 'resolved', labels: { alertname: 'HighErrorRate', service: 'checkout' } }]),
+    });
+
+    const body = JSON.parse(resolved.body);
+    expect(body.jobs[0]).toMatchObject({ status: 'resolved', fingerprint, existingIssue: 'TEAM-1' });
+
+    const job = db.getJob(body.jobs[0].jobId);
+    expect(job?.status).toBe('resolved');
+    expect(job?.alert_state).toBe('resolved');
+    expect(db.getStats()).toMatchObject({ pending: 1, resolved: 1 });
+  });
+
+  it('rejects payloads without alerts', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook/alertmanager',
+      payload: { status: 'firing' },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
+
+describe('webhook source authentication', () => {
+  let testDir: string;
+  let db: LineuDatabase;
+  let app: FastifyInstance;
+
+  const sign = (body: string) => crypto.createHmac('sha256', 's3cret').update(body).digest('hex');
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'lineu-server-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    const testDbPath = path.join(testDir, 'test.db');
+    fs.mkdirSync(testDir, { recursive: true });
+    db = createDatabase(testDbPath);
+
+    const linear = new LinearService({ apiKey: 'test-key' });
+    app = await createServer(createTestConfig(testDbPath), db, linear, {
+      sources: [
+        { name: 'internal', route: 'generic', verify: 'hmac', secret: 's3cret', header: 'x-lineu-signature', tolerance: 300 },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('accepts signed requests and stores the source name on the job', async () => {
+    const body = JSON.stringify({ error: 'TestError' });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      headers: { 'content-type': 'application/json', 'x-lineu-signature': sign(body) },
+      payload: body,
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(db.getJob(JSON.parse(response.body).jobId)?.source).toBe('internal');
+  });
+
+  it('rejects unsigned requests with 401 and counts them in /stats', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: { error: 'TestError' },
+    });
+    expect(response.statusCode).toBe(401);
+
+    // Routes without a configured source are closed once sources exist
+    const sentry = await app.inject({
+      method: 'POST',
+      url: '/webhook/sentry',
+      payload: { event: { exception: { values: [{ type: 'TypeError' }] } } },
+    });
+    expect(sentry.statusCode).toBe(401);
+
+    const stats = await app.inject({ method: 'GET', url: '/stats' });
+    expect(JSON.parse(stats.body)).toMatchObject({ total: 0, rejected: 2 });
+  });
+
+  it('rejects requests whose signature does not match the body', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhook',
+      headers: { 'content-type': 'application/json', 'x-lineu-signature': sign('{"error":"other"}') },
+      payload: JSON.stringify({ error: 'TestError' }),
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
+
+describe('POST /webhook/linear', () => {
+  let testDir: string;
+  let db: LineuDatabase;
+  let app: FastifyInstance;
+
+  const deliver = (event: Record<string, unknown>, secret = 'lin_wh') => {
+    const body = JSON.stringify({ ...event, webhookTimestamp: Date.now() });
+    return app.inject({
+      method: 'POST',
+      url: '/webhook/linear',
+      headers: {
+        'content-type': 'application/json',
+        'linear-signature': crypto.createHmac('sha256', secret).update(body).digest('hex'),
+      },
+      payload: body,
+    });
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'lineu-server-test-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    const testDbPath = path.join(testDir, 'test.db');
+    fs.mkdirSync(testDir, { recursive: true });
+    db = createDatabase(testDbPath);
+
+    const config = createTestConfig(testDbPath);
+    config.linear!.webhookSecret = 'lin_wh';
+    app = await createServer(config, db, new LinearService({ apiKey: 'test-key' }));
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('mirrors issue state and releases the fingerprint of a canceled issue', async () => {
+    db.insertFingerprint('wontfix-hash', 'issue-1', 'ENG-1');
+
+    const response = await deliver({
+      action: 'update',
+      type: 'Issue',
+      data: {
+        id: 'issue-1',
+        identifier: 'ENG-1',
+        state: { name: "Won't Fix", type: 'canceled' },
+        assignee: { name: 'Dana' },
+        team: { key: 'ENG' },
+        canceledAt: '2026-10-19T10:00:00.000Z',
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ status: 'synced', issue: 'ENG-1', state: 'canceled', fingerprints: ['wontfix-hash'] });
+    expect(db.getFingerprintIssue('wontfix-hash', 0)?.issue_state).toBe('canceled');
+    expect(db.getStats()).toMatchObject({ open_issues: 0, canceled_issues: 1 });
+
+    // The next occurrence is queued instead of being marked duplicate
+    const webhook = await app.inject({ method: 'POST', url: '/webhook', payload: { fingerprint: 'wontfix-hash', error: 'Boom' } });
+    expect(JSON.parse(webhook.body).status).toBe('queued');
+    const job = db.getRecentJobs()[0];
+    expect(job).toMatchObject({ issue_state: 'canceled', issue_state_name: "Won't Fix", issue_assignee: 'Dana' });
+  });
+
+  it('rejects deliveries signed with another secret and ignores other event types', async () => {
+    const rejected = await deliver({ action: 'update', type: 'Issue', data: { id: 'issue-1' } }, 'wrong');
+    expect(rejected.statusCode).toBe(401);
+    expect(db.getStats().rejected).toBe(1);
+
+    const ignored = await deliver({ action: 'create', type: 'Comment', data: { id: 'comment-1' } });
+    expect(JSON.parse(ignored.body)).toEqual({ status: 'ignored' });
+  });
 });
@@ -1,50 +1,309 @@
-import Fastify, { FastifyInstance } from 'fastify';
-import type { LineuConfig } from './types.js';
-import type { LineuDatabase } from './db.js';
-import type { LinearService } from './services/linear.js';
-import { generateFingerprint, isValidExternalFingerprint } from './lib/fingerprint.js';
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type {
+  LineuConfig, WebhookRoute, WebhookSource, FingerprintRule, ErrorEvent, IgnoreRule, BudgetConfig,
+} from './types.js';
+import type { LineuDatabase, InsertJobOptions } from './db.js';
+import type { IssueTracker } from './services/tracker.js';
+import {
+  applyFingerprintRules,
+  computeFingerprint,
+  fingerprintLabels,
+  type FingerprintResult,
+} from './lib/fingerprint.js';
+import { parseGenericPayload, genericGroupingEvent } from './adapters/generic.js';
+import { parseSentryPayload } from './adapters/sentry.js';
+import { parseNewRelicPayload } from './adapters/newrelic.js';
+import { parseAlertmanagerPayload } from './adapters/alertmanager.js';
+import { verifyWebhookRequest, verifyLinearRequest } from './lib/webhook-auth.js';
+import { parseLinearIssueEvent } from './lib/linear-webhook.js';
+import { findIgnoreRule } from './lib/suppression.js';
 import { registerDashboard } from './dashboard/routes.js';
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Raw JSON body, kept for signature verification
+    rawBody?: Buffer;
+    // Name of the source that authenticated the request
+    webhookSource?: string;
+  }
+}
+
+export interface ServerOptions {
+  // Webhook sources; when configured, every webhook route requires a verified source
+  sources?: WebhookSource[];
+  // Fingerprint rules from config.yml, tried before the automatic strategies
+  fingerprintRules?: FingerprintRule[];
+  // Ignore rules from config.yml; matching events are recorded as suppressed
+  ignoreRules?: IgnoreRule[];
+  // Spend caps from config.yml, shown on the dashboard
+  budget?: BudgetConfig;
+}
+
+interface IngestResult {
+  statusCode: number;
+  body: Record<string, unknown>;
+}
+
+function isValidPayload(payload: unknown): payload is Record<string, unknown> {
+  return !!payload && typeof payload === 'object' && Object.keys(payload).length > 0;
+}
+
 export async function createServer(
   config: LineuConfig,
   db: LineuDatabase,
-  linear: LinearService
+  tracker: IssueTracker,
+  options: ServerOptions = {}
 ): Promise<FastifyInstance> {
   const app = Fastify({ logger: true });
+  const sources = options.sources ?? [];
 
-  // Generic webhook endpoint - accepts any valid JSON
-  app.post('/webhook', async (request, reply) => {
-    const payload = request.body as Record<string, unknown>;
+  // Keep the raw body: signatures are computed over the exact bytes received
+  app.removeContentTypeParser('application/json');
+  app.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) => {
+    request.rawBody = body as Buffer;
+    try {
+      done(null, JSON.parse((body as Buffer).toString('utf-8')));
+    } catch (err) {
+      (err as Error & { statusCode?: number }).statusCode = 400;
+      done(err as Error, undefined);
+    }
+  });
 
-    if (!payload || typeof payload !== 'object' || Object.keys(payload).length === 0) {
-      return reply.status(400).send({ error: 'Empty or invalid JSON payload' });
+  if (sources.length === 0) {
+    app.log.warn('No webhook sources configured - webhook endpoints are unauthenticated');
+  }
+
+  // Route-level hook that verifies the request against the sources of a route
+  const authenticate = (route: WebhookRoute) => async (request: FastifyRequest, reply: FastifyReply) => {
+    if (sources.length === 0) return;
+
+    const result = verifyWebhookRequest(sources, route, request.headers, request.rawBody ?? Buffer.alloc(0));
+    if (!result.ok) {
+      db.recordWebhookRejection(route, result.reason);
+      request.log.warn({ route, reason: result.reason }, 'Webhook rejected');
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+    request.webhookSource = result.source;
+  };
+
+  const { frameLimit } = config.deduplication;
+  const fingerprintRules = options.fingerprintRules ?? [];
+  const ignoreRules = options.ignoreRules ?? [];
+
+  // Why a firing event should not be queued: an ignore rule or an active snooze
+  const suppressionFor = (payload: Record<string, unknown>, fingerprint: string, event?: ErrorEvent): string | null => {
+    const rule = findIgnoreRule(ignoreRules, payload, event);
+    if (rule) return `ignore rule ${rule.name}`;
+    const snooze = db.getActiveSnooze(fingerprint);
+    return snooze ? `snoozed until ${snooze.until}` : null;
+  };
+
+  // Refresh an issue state that is past its TTL without holding up the
+  // webhook; a closed issue makes the next hit queue a regression check
+  const refreshing = new Set<string>();
+  const refreshIssueState = (fingerprint: string, issueId: string) => {
+    if (refreshing.has(fingerprint)) return;
+    refreshing.add(fingerprint);
+    tracker.getIssueState(issueId)
+      .then(state => db.updateIssueState(fingerprint, state))
+      .catch(err => app.log.warn({ err, fingerprint }, 'Could not refresh the issue state'))
+      .finally(() => refreshing.delete(fingerprint));
+  };
+
+  // Queue a job, record it as a duplicate of an existing fingerprint or as
+  // suppressed, or record a resolved notification against its fingerprint.
+  // Ignore rules see matchEvent, which defaults to the stored event.
+  const ingest = (
+    payload: Record<string, unknown>,
+    fingerprintResult: FingerprintResult,
+    jobOptions: InsertJobOptions = {},
+    matchEvent = jobOptions.event
+  ): IngestResult => {
+    const fingerprint = fingerprintResult.hash;
+    const options = {
+      ...jobOptions,
+      fingerprintStrategy: fingerprintResult.strategy,
+      issueStateTtl: config.deduplication.issueStateTtl,
+    };
+
+    if (options.event?.alertState === 'resolved') {
+      const resolved = db.recordResolved(payload, fingerprint, options);
+      return {
+        statusCode: 200,
+        body: {
+          status: 'resolved',
+          jobId: resolved.jobId,
+          fingerprint,
+          strategy: fingerprintResult.strategy,
+          ...(fingerprintResult.rule && { rule: fingerprintResult.rule }),
+          ...(resolved.linear_identifier && { existingIssue: resolved.linear_identifier }),
+        },
+      };
     }
 
-    // Use external fingerprint if valid, otherwise generate automatically
-    const externalFingerprint = payload.fingerprint;
-    const fingerprint = isValidExternalFingerprint(externalFingerprint)
-      ? externalFingerprint
-      : generateFingerprint(payload);
+    const suppressedBy = suppressionFor(payload, fingerprint, matchEvent);
+    if (suppressedBy) {
+      const jobId = db.recordSuppressed(payload, fingerprint, suppressedBy, options);
+      app.log.info({ jobId, fingerprint, suppressedBy }, 'Event suppressed');
+      return {
+        statusCode: 200,
+        body: {
+          status: 'suppressed',
+          jobId,
+          fingerprint,
+          strategy: fingerprintResult.strategy,
+          ...(fingerprintResult.rule && { rule: fingerprintResult.rule }),
+          suppressedBy,
+        },
+      };
+    }
 
     // Atomic check-and-insert to prevent race conditions
-    const result = db.insertJobIfNotDuplicate(payload, fingerprint, config.deduplication.windowDays);
+    const result = db.insertJobIfNotDuplicate(payload, fingerprint, config.deduplication.windowDays, options);
 
     if (result.status === 'duplicate') {
-      return reply.status(200).send({
-        status: 'duplicate',
+      if (result.stale_issue_id) refreshIssueState(fingerprint, result.stale_issue_id);
+      return {
+        statusCode: 200,
+        body: {
+          status: 'duplicate',
+          jobId: result.jobId,
+          fingerprint,
+          strategy: fingerprintResult.strategy,
+          ...(fingerprintResult.rule && { rule: fingerprintResult.rule }),
+          ...(result.linear_identifier && { existingIssue: result.linear_identifier }),
+        },
+      };
+    }
+
+    return {
+      statusCode: 202,
+      body: {
+        status: 'queued',
         jobId: result.jobId,
         fingerprint,
-        ...(result.linear_identifier && { existingIssue: result.linear_identifier }),
-      });
+        strategy: fingerprintResult.strategy,
+        ...(fingerprintResult.rule && { rule: fingerprintResult.rule }),
+      },
+    };
+  };
+
+  const fingerprintFor = (payload: Record<string, unknown>, event?: ErrorEvent): FingerprintResult =>
+    applyFingerprintRules(payload, fingerprintRules) ?? computeFingerprint(payload, event, frameLimit);
+
+  const enqueue = (
+    reply: FastifyReply,
+    payload: Record<string, unknown>,
+    fingerprint: FingerprintResult,
+    options: InsertJobOptions = {},
+    matchEvent?: ErrorEvent
+  ) => {
+    const result = ingest(payload, fingerprint, options, matchEvent);
+    return reply.status(result.statusCode).send(result.body);
+  };
+
+  // Generic webhook endpoint - accepts any valid JSON
+  app.post('/webhook', { preHandler: authenticate('generic') }, async (request, reply) => {
+    const payload = request.body;
+
+    if (!isValidPayload(payload)) {
+      return reply.status(400).send({ error: 'Empty or invalid JSON payload' });
+    }
+
+    // Config rules first, then the external fingerprint if valid, then the stack found
+    // in the payload, falling back to the whole payload. The extracted event is only
+    // used for grouping and ignore rules.
+    const event = parseGenericPayload(payload) ?? undefined;
+    const fingerprint = fingerprintFor(payload, genericGroupingEvent(event));
+
+    return enqueue(reply, payload, fingerprint, { source: request.webhookSource }, event);
+  });
+
+  // Sentry webhook endpoint - normalizes issue/event alerts into an ErrorEvent
+  app.post('/webhook/sentry', { preHandler: authenticate('sentry') }, async (request, reply) => {
+    const payload = request.body;
+
+    if (!isValidPayload(payload)) {
+      return reply.status(400).send({ error: 'Empty or invalid JSON payload' });
+    }
+
+    const event = parseSentryPayload(payload);
+    if (!event) {
+      return reply.status(400).send({ error: 'Unrecognized Sentry payload' });
+    }
+
+    return enqueue(reply, payload, fingerprintFor(payload, event), { event, source: request.webhookSource });
+  });
+
+  // New Relic webhook endpoint - workflow notifications and Errors Inbox payloads
+  app.post('/webhook/newrelic', { preHandler: authenticate('newrelic') }, async (request, reply) => {
+    const payload = request.body;
+
+    if (!isValidPayload(payload)) {
+      return reply.status(400).send({ error: 'Empty or invalid JSON payload' });
+    }
+
+    const event = parseNewRelicPayload(payload);
+    if (!event) {
+      return reply.status(400).send({ error: 'Unrecognized New Relic payload' });
+    }
+
+    return enqueue(reply, payload, fingerprintFor(payload, event), { event, source: request.webhookSource });
+  });
+
+  // Alertmanager / Grafana webhook endpoint - one job per alert in the notification
+  app.post('/webhook/alertmanager', { preHandler: authenticate('alertmanager') }, async (request, reply) => {
+    const payload = request.body;
+
+    if (!isValidPayload(payload)) {
+      return reply.status(400).send({ error: 'Empty or invalid JSON payload' });
     }
 
+    const alerts = parseAlertmanagerPayload(payload);
+    if (!alerts) {
+      return reply.status(400).send({ error: 'Unrecognized Alertmanager payload' });
+    }
+
+    const results = alerts.map(alert =>
+      ingest(alert.payload, applyFingerprintRules(alert.payload, fingerprintRules) ?? fingerprintLabels(alert.labels), { event: alert.event, source: request.webhookSource })
+    );
+
     return reply.status(202).send({
-      status: 'queued',
-      jobId: result.jobId,
-      fingerprint,
+      status: 'accepted',
+      jobs: results.map(r => r.body),
     });
   });
 
+  // Linear webhook endpoint - mirrors the state of issues linked to fingerprints
+  const linearWebhookSecret = config.linear?.webhookSecret;
+  if (linearWebhookSecret) {
+    app.post('/webhook/linear', async (request, reply) => {
+      const payload = request.body as Record<string, unknown> | undefined;
+
+      const result = verifyLinearRequest(
+        linearWebhookSecret,
+        request.headers,
+        request.rawBody ?? Buffer.alloc(0),
+        payload?.webhookTimestamp
+      );
+      if (!result.ok) {
+        db.recordWebhookRejection('linear', result.reason);
+        request.log.warn({ route: 'linear', reason: result.reason }, 'Webhook rejected');
+        return reply.status(401).send({ error: 'Unauthorized' });
+      }
+
+      const mirror = isValidPayload(payload) ? parseLinearIssueEvent(payload) : null;
+      if (!mirror) {
+        return reply.status(200).send({ status: 'ignored' });
+      }
+
+      const fingerprints = db.syncIssue(mirror);
+      return reply.status(200).send({ status: 'synced', issue: mirror.identifier, state: mirror.state, fingerprints });
+    });
+  } else if (config.tracker === 'linear') {
+    app.log.info('LINEAR_WEBHOOK_SECRET not set - /webhook/linear disabled');
+  }
+
   // Health check endpoint
   app.get('/health', async () => ({
     status: 'ok',
@@ -57,7 +316,7 @@ export async function createServer(
   });
 
   // Dashboard (includes /api/dashboard/jobs/:id with basic auth)
-  await registerDashboard(app, db, linear);
+  await registerDashboard(app, db, tracker, { budget: options.budget });
 
   return app;
 }
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createDatabase, type LineuDatabase } from '../db.js';
+import { analyzeWithCache } from './analysis-cache.js';
+import type { Analyzer } from './analyzer.js';
+import type { ClaudeAnalysis } from '../types.js';
+
+function analysisOf(summary: string): ClaudeAnalysis {
+  return {
+    category: 'bug',
+    priority: 'medium',
+    summary,
+    affected_files: [],
+    root_cause: { hypothesis: 'h', confidence: 'low', evidence: 'e' },
+    fix: { suggestion: 's', files_to_modify: [] },
+    investigation_log: [],
+    suggested_team: null,
+  };
+}
+
+describe('analyzeWithCache', () => {
+  let dir: string;
+  let repoPath: string;
+  let logDir: string;
+  let db: LineuDatabase;
+  let calls: number;
+
+  const analyzer: Analyzer = {
+    name: 'claude',
+    analyze: async () => analysisOf(`Analysis ${++calls}`),
+  };
+
+  const git = (...args: string[]) => execFileSync('git', ['-C', repoPath, ...args], { stdio: 'ignore' });
+
+  const commit = (message: string) => {
+    fs.writeFileSync(path.join(repoPath, 'app.ts'), message);
+    git('add', '-A');
+    git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-m', message);
+  };
+
+  const analyze = (
+    jobId: number,
+    options: { templateHash?: string; repairTemplateHash?: string; bypass?: boolean } = {},
+    teamList = '- ENG: Engineering'
+  ) => analyzeWithCache(
+    db, analyzer,
+    { repoPath, fingerprint: 'abc123', payload: { error: 'Boom' }, jobId, teamList },
+    { templateHash: 'prompt-v1', repairTemplateHash: 'repair-v1', logDir, ...options }
+  );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lineu-cache-'));
+    repoPath = path.join(dir, 'repo');
+    logDir = path.join(dir, 'logs');
+    fs.mkdirSync(repoPath);
+    git('init', '-q');
+    commit('v1');
+    db = createDatabase(path.join(dir, 'lineu.db'));
+    calls = 0;
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reuses the analysis until the commit, the prompts or the teams change', async () => {
+    const first = db.insertJob({ error: 'Boom' }, 'abc123');
+    const second = db.insertJob({ error: 'Boom' }, 'abc123');
+
+    expect(await analyze(first)).toEqual({ analysis: analysisOf('Analysis 1'), cacheHit: false });
+    expect(await analyze(second)).toEqual({ analysis: analysisOf('Analysis 1'), cacheHit: true });
+    expect(db.getJob(second)?.cache_hit).toBe(1);
+
+    const session = fs.readFileSync(path.join(logDir, `claude-${second}.jsonl`), 'utf-8').trim().split('\n').map(l => JSON.parse(l));
+    expect(session).toEqual([expect.objectContaining({ type: 'cache', source_job: first })]);
+
+    expect((await analyze(second, { templateHash: 'prompt-v2' })).cacheHit).toBe(false);
+    expect((await analyze(second, { repairTemplateHash: 'repair-v2' })).cacheHit).toBe(false);
+    expect((await analyze(second, {}, '- ENG: Engineering\n- OPS: Operations')).cacheHit).toBe(false);
+    commit('v2');
+    expect((await analyze(second)).analysis.summary).toBe('Analysis 5');
+    expect(calls).toBe(5);
+  });
+
+  it('analyzes again when bypassed, replacing the cached analysis', async () => {
+    const jobId = db.insertJob({ error: 'Boom' }, 'abc123');
+
+    await analyze(jobId);
+    expect(await analyze(jobId, { bypass: true })).toEqual({ analysis: analysisOf('Analysis 2'), cacheHit: false });
+    expect((await analyze(jobId)).analysis.summary).toBe('Analysis 2');
+    expect(calls).toBe(2);
+  });
+
+  it('does not cache outside a git checkout', async () => {
+    fs.rmSync(path.join(repoPath, '.git'), { recursive: true, force: true });
+
+    await analyze(1);
+    expect((await analyze(1)).cacheHit).toBe(false);
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import type { LineuDatabase } from '../db.js';
+import { getHeadCommit } from '../lib/git.js';
+import type { Analyzer } from './analyzer.js';
+import { DEFAULT_LOG_DIR, openSessionLog } from './claude.js';
+import type { AnalysisCacheKey, AnalysisUsage, ClaudeAnalysis, ErrorEvent } from '../types.js';
+
+export interface AnalysisCacheOptions {
+  // Hashes of the analysis prompt and repair templates
+  templateHash: string;
+  repairTemplateHash: string;
+  // Analyze again even when a cached analysis exists, replacing it
+  bypass?: boolean;
+  // Where hits are written to the session log
+  logDir?: string;
+}
+
+export interface AnalysisRequest {
+  repoPath: string;
+  fingerprint: string;
+  payload: Record<string, unknown>;
+  jobId?: number;
+  teamList?: string;
+  event?: ErrorEvent;
+  onUsage?: (usage: AnalysisUsage) => void;
+}
+
+export interface AnalysisResult {
+  analysis: ClaudeAnalysis;
+  cacheHit: boolean;
+}
+
+function teamsHash(teamList: string | undefined): string {
+  return crypto.createHash('sha256').update(teamList ?? '').digest('hex').substring(0, 32);
+}
+
+/**
+ * Runs the analyzer unless the cache holds an analysis of the same
+ * fingerprint made at the same commit, with the same prompt and repair
+ * templates, team list and analyzer. Fresh analyses are cached; outside a git checkout nothing is.
+ * Hits are marked on the job and written to its session log in place of the
+ * analyzer's.
+ */
+export async function analyzeWithCache(
+  db: LineuDatabase,
+  analyzer: Analyzer,
+  request: AnalysisRequest,
+  options: AnalysisCacheOptions
+): Promise<AnalysisResult> {
+  const { repoPath, fingerprint, payload, jobId, teamList, event, onUsage } = request;
+  const headSha = await getHeadCommit(repoPath);
+  const key: AnalysisCacheKey | null = headSha
+    ? {
+      fingerprint,
+      headSha,
+      templateHash: options.templateHash,
+      repairTemplateHash: options.repairTemplateHash,
+      teamsHash: teamsHash(teamList),
+      analyzer: analyzer.name,
+    }
+    : null;
+
+  const cached = key && !options.bypass ? db.getCachedAnalysis(key) : undefined;
+  if (key && cached) {
+    const source = cached.job_id !== null ? `job ${cached.job_id}` : 'lineu test';
+    const message = `Reused the analysis of ${source} (${cached.created_at} UTC) for commit ${key.headSha.substring(0, 12)}`;
+    console.log(`[Cache] ${message}`);
+
+    if (jobId !== undefined) {
+      db.setCacheHit(jobId, true);
+      const log = openSessionLog(jobId, options.logDir ?? DEFAULT_LOG_DIR);
+      log.logStream.write(`=== Analysis cache hit at ${new Date().toISOString()}: ${message} ===\n`);
+      log.logEvent({ ts: new Date().toISOString(), type: 'cache', message, source_job: cached.job_id });
+      await log.close();
+    }
+    return { analysis: JSON.parse(cached.analysis) as ClaudeAnalysis, cacheHit: true };
+  }
+
+  const analysis = await analyzer.analyze(repoPath, payload, jobId, teamList, event, onUsage);
+  if (key) {
+    db.saveCachedAnalysis(key, JSON.stringify(analysis), jobId);
+  }
+  if (jobId !== undefined) {
+    db.setCacheHit(jobId, false);
+  }
+  return { analysis, cacheHit: false };
+}
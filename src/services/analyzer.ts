@@ -0,0 +1,20 @@
+import type { AnalysisUsage, ClaudeAnalysis, ErrorEvent } from '../types.js';
+
+/**
+ * Produces the analysis an issue is filed from. The claude CLI is the real
+ * backend; replay and stub analyzers run the pipeline without it.
+ */
+export interface Analyzer {
+  // Shown in startup and job logs ("claude", "replay:<dir>", "stub")
+  readonly name: string;
+  // jobId names the session log; teamList is the prompt's team section.
+  // onUsage is called for each paid invocation, including those that fail
+  analyze(
+    repoPath: string,
+    payload: Record<string, unknown>,
+    jobId?: number,
+    teamList?: string,
+    event?: ErrorEvent,
+    onUsage?: (usage: AnalysisUsage) => void
+  ): Promise<ClaudeAnalysis>;
+}
@@ -3,6 +3,8 @@ import {
   processChunksWithLineBuffering,
   extractJsonFromText,
   parseNdjsonForResult,
+  buildRepairPrompt,
+  usageFromResult,
 } from './claude.js';
 
 describe('Claude output parsing', () => {
@@ -73,30 +75,27 @@ That's my analysis.`;
       expect(() => extractJsonFromText(text)).toThrow('No valid JSON analysis found');
     });
 
-    it('requires both category and summary fields in markdown blocks', () => {
-      // When JSON is in markdown block, both fields are required
+    it('returns an object missing analysis fields as-is for the schema validator', () => {
       const text = `\`\`\`json
 {
   "category": "bug"
 }
 \`\`\``;
 
-      // Markdown block without summary is skipped, falls through to raw JSON search
-      // which finds it and returns it (raw JSON path doesn't require both fields)
-      const result = extractJsonFromText(text);
-      expect(result.category).toBe('bug');
-      expect(result.summary).toBeUndefined();
+      expect(extractJsonFromText(text)).toEqual({ category: 'bug' });
+      expect(extractJsonFromText('Result: {"name": "not an analysis"}')).toEqual({ name: 'not an analysis' });
     });
 
-    it('validates markdown blocks but accepts raw JSON without both fields', () => {
-      // If only markdown block exists and is invalid, and no raw JSON pattern matches, it throws
-      const text = `\`\`\`json
-{
-  "name": "not an analysis"
-}
-\`\`\``;
+    it('prefers an object with analysis fields over other objects in the text', () => {
+      const text = `The handler returns {"ok": false} on error.
 
-      expect(() => extractJsonFromText(text)).toThrow('No valid JSON analysis found');
+\`\`\`json
+{ "priority": "high" }
+\`\`\`
+
+{"summary": "Missing null check", "priority": "high"}`;
+
+      expect(extractJsonFromText(text)).toEqual({ summary: 'Missing null check', priority: 'high' });
     });
   });
 
@@ -191,6 +190,49 @@ That's my analysis.`;
     });
   });
 
+  describe('buildRepairPrompt', () => {
+    it('lists the violations and quotes the rejected output verbatim', () => {
+      const prompt = buildRepairPrompt(
+        'Problemas:\n{{#each errors}}\n- {{this}}\n{{/each}}\n\nResposta:\n{{output}}',
+        '{ "priority": "$& urgent" }',
+        ['priority must be one of: critical, high, medium, low; got "urgent"', 'summary is required']
+      );
+
+      expect(prompt).toBe([
+        'Problemas:',
+        '- priority must be one of: critical, high, medium, low; got "urgent"',
+        '- summary is required',
+        '',
+        'Resposta:',
+        '{ "priority": "$& urgent" }',
+      ].join('\n'));
+    });
+  });
+
+  describe('usageFromResult', () => {
+    it('reads tokens, cost and turns from the result event', () => {
+      const result = {
+        type: 'result',
+        total_cost_usd: 0.1234,
+        num_turns: 7,
+        duration_ms: 42000,
+        usage: { input_tokens: 12, output_tokens: 900, cache_read_input_tokens: 30000, cache_creation_input_tokens: 4000 },
+      };
+
+      expect(usageFromResult(result, 45000)).toEqual({
+        inputTokens: 12, outputTokens: 900, cacheReadTokens: 30000, cacheCreationTokens: 4000,
+        costUsd: 0.1234, numTurns: 7, durationMs: 42000,
+      });
+      expect(usageFromResult({ type: 'result', cost_usd: 0.5 }, 45000)).toMatchObject({ costUsd: 0.5, durationMs: 45000 });
+    });
+
+    it('reports only the duration when no result event was seen', () => {
+      expect(usageFromResult(null, 1500)).toEqual({
+        inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0, numTurns: 0, durationMs: 1500,
+      });
+    });
+  });
+
   describe('parseNdjsonForResult', () => {
     it('finds result event in NDJSON and extracts JSON from markdown', () => {
       const ndjson = `{"type":"system","data":"init"}
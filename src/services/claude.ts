@@ -2,12 +2,13 @@ import { spawn } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { fileURLToPath } from 'url';
-import type { ClaudeAnalysis, ClaudeSessionEvent } from '../types.js';
+import { validateAnalysis } from '../lib/analysis-schema.js';
+import { defaultTemplates, renderTemplate, type TemplateSet } from '../lib/templates.js';
+import type { Analyzer } from './analyzer.js';
+import type { AnalysisUsage, ClaudeAnalysis, ClaudeSessionEvent, ErrorEvent } from '../types.js';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-// In dist: dist/services/claude.js -> dist/prompts/error-analysis.md
-const PROMPT_TEMPLATE_PATH = path.join(__dirname, '..', 'prompts', 'error-analysis.md');
+// Characters of unparsable output quoted back to Claude in a repair prompt
+const REPAIR_OUTPUT_LIMIT = 20000;
 
 // Prompt injection detection patterns (defense-in-depth)
 const INJECTION_PATTERNS = [
@@ -29,56 +30,278 @@ function containsPromptInjection(payload: Record<string, unknown>): boolean {
 }
 
 export class ClaudeExecutionError extends Error {
-  constructor(message: string, public readonly stderr?: string) {
+  // retryable: false when running the same job again cannot succeed
+  constructor(message: string, public readonly stderr?: string, public readonly retryable = true) {
     super(message);
     this.name = 'ClaudeExecutionError';
   }
 }
 
-export class ClaudeService {
+export interface ClaudeRunOutput {
+  fullOutput: string;
+  // Final "result" event of the stream, if one was seen
+  lastResult: unknown;
+}
+
+// Text of the final result event, when Claude answered with text
+function resultText(lastResult: unknown): string | undefined {
+  const result = (lastResult as Record<string, unknown> | null)?.result;
+  return typeof result === 'string' ? result.slice(-REPAIR_OUTPUT_LIMIT) : undefined;
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+// Exported for testing - tokens, cost and turns of the final result event;
+// durationMs is used when the event has no duration of its own
+export function usageFromResult(lastResult: unknown, durationMs: number): AnalysisUsage {
+  const result = (lastResult ?? {}) as Record<string, unknown>;
+  const usage = (result.usage ?? {}) as Record<string, unknown>;
+  return {
+    inputTokens: count(usage.input_tokens),
+    outputTokens: count(usage.output_tokens),
+    cacheReadTokens: count(usage.cache_read_input_tokens),
+    cacheCreationTokens: count(usage.cache_creation_input_tokens),
+    // Older CLI versions report cost_usd
+    costUsd: count(result.total_cost_usd ?? result.cost_usd),
+    numTurns: count(result.num_turns),
+    durationMs: count(result.duration_ms) || durationMs,
+  };
+}
+
+export interface SessionLog {
+  logFile: string;
+  // Raw output and progress markers
+  logStream: fs.WriteStream;
+  // Structured events shown on the dashboard job page
+  logEvent: (event: ClaudeSessionEvent) => void;
+  // Resolves once both logs are flushed
+  close: () => Promise<void>;
+}
+
+// Where the dashboard reads session logs from
+export const DEFAULT_LOG_DIR = path.join(os.homedir(), '.lineu', 'logs');
+
+// Opens the raw log and the session log of an analysis
+export function openSessionLog(jobId?: number, logDir = DEFAULT_LOG_DIR): SessionLog {
+  fs.mkdirSync(logDir, { recursive: true });
+
+  const logFile = path.join(logDir, `claude-${jobId || Date.now()}.log`);
+  const sessionLogPath = path.join(logDir, `claude-${jobId || Date.now()}.jsonl`);
+  const logStream = fs.createWriteStream(logFile, { flags: 'a' });
+  const sessionLog = fs.createWriteStream(sessionLogPath, { flags: 'w' });
+
+  return {
+    logFile,
+    logStream,
+    logEvent: (event) => {
+      sessionLog.write(JSON.stringify(event) + '\n');
+    },
+    close: async () => {
+      await Promise.all([
+        new Promise<void>(resolve => logStream.end(resolve)),
+        new Promise<void>(resolve => sessionLog.end(resolve)),
+      ]);
+    },
+  };
+}
+
+/**
+ * Reads claude stream-json output as it arrives, turning assistant and tool
+ * events into session log events. Lines may be split across chunks.
+ */
+export class StreamJsonReader {
+  private fullOutput = '';
+  private lastResult: unknown = null;
+  private toolMap = new Map<string, string>(); // tool_use_id -> tool name
+  private lineBuffer = ''; // Buffer for incomplete lines across chunks
+
+  constructor(private logEvent: (event: ClaudeSessionEvent) => void) {}
+
+  push(chunk: string): void {
+    this.fullOutput += chunk;
+
+    // Buffer incomplete lines: prepend any leftover from previous chunk
+    const combined = this.lineBuffer + chunk;
+    const parts = combined.split('\n');
+
+    // Last part may be incomplete (no trailing newline), save for next chunk
+    this.lineBuffer = parts.pop() || '';
+
+    // Process complete lines
+    for (const line of parts) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      try {
+        const event = JSON.parse(line);
+        const ts = new Date().toISOString();
+
+        if (event.type === 'assistant') {
+          const content = event.message?.content;
+          if (Array.isArray(content)) {
+            for (const block of content) {
+              if (block.type === 'text') {
+                this.logEvent({ ts, type: 'text', content: block.text });
+              } else if (block.type === 'tool_use') {
+                // Track tool_use_id -> tool name for matching results
+                if (block.id) {
+                  this.toolMap.set(block.id, block.name);
+                }
+                this.logEvent({ ts, type: 'tool_use', tool: block.name, input: block.input });
+              }
+            }
+          }
+        } else if (event.type === 'user') {
+          const content = event.message?.content;
+          if (Array.isArray(content)) {
+            for (const block of content) {
+              if (block.type === 'tool_result') {
+                const output = typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
+                // Look up tool name from tool_use_id
+                const toolName = block.tool_use_id ? this.toolMap.get(block.tool_use_id) : undefined;
+                this.logEvent({
+                  ts,
+                  type: 'tool_result',
+                  tool: toolName,
+                  output: output.substring(0, 1000),
+                  lines: output.split('\n').length,
+                });
+              }
+            }
+          }
+        } else if (event.type === 'result') {
+          this.lastResult = event;
+        }
+      } catch {
+        // Not JSON, ignore
+      }
+    }
+  }
+
+  end(): ClaudeRunOutput {
+    // Process any remaining content in the line buffer
+    if (this.lineBuffer.trim()) {
+      try {
+        const event = JSON.parse(this.lineBuffer);
+        if (event.type === 'result') {
+          this.lastResult = event;
+        }
+      } catch {
+        // Not valid JSON, ignore
+      }
+      this.lineBuffer = '';
+    }
+    return { fullOutput: this.fullOutput, lastResult: this.lastResult };
+  }
+}
+
+export type OutputCheck =
+  | { valid: true; analysis: ClaudeAnalysis }
+  // previous: the rejected output, quoted back in a repair prompt
+  | { valid: false; errors: string[]; previous: string };
+
+// Parses and validates one invocation's output, logging the outcome
+export function checkOutput(output: ClaudeRunOutput, logEvent: (event: ClaudeSessionEvent) => void): OutputCheck {
+  let parsed: unknown;
+  try {
+    parsed = parseStreamOutput(output.fullOutput, output.lastResult);
+  } catch (err) {
+    const errors = [err instanceof Error ? err.message : String(err)];
+    logEvent({ ts: new Date().toISOString(), type: 'validation', valid: false, errors });
+    return { valid: false, errors, previous: resultText(output.lastResult) ?? output.fullOutput.slice(-REPAIR_OUTPUT_LIMIT) };
+  }
+
+  const validation = validateAnalysis(parsed);
+  logEvent({
+    ts: new Date().toISOString(),
+    type: 'validation',
+    valid: validation.valid,
+    ...(!validation.valid && { errors: validation.errors }),
+    ...(validation.coercions.length > 0 && { coercions: validation.coercions }),
+  });
+
+  return validation.valid
+    ? { valid: true, analysis: validation.analysis }
+    : { valid: false, errors: validation.errors, previous: JSON.stringify(parsed, null, 2) };
+}
+
+/**
+ * Analyzer backed by the claude CLI, run in the repository with read-only tools.
+ */
+export class ClaudeService implements Analyzer {
+  readonly name = 'claude';
   private maxTurns: number;
   private timeout: number;
-  private logDir: string;
 
-  constructor(config: { maxTurns: number; timeout: number }) {
+  constructor(config: { maxTurns: number; timeout: number }, private templates: TemplateSet = defaultTemplates()) {
     this.maxTurns = config.maxTurns;
     this.timeout = config.timeout;
-    this.logDir = path.join(os.homedir(), '.lineu', 'logs');
-
-    // Create logs directory
-    if (!fs.existsSync(this.logDir)) {
-      fs.mkdirSync(this.logDir, { recursive: true });
-    }
   }
 
-  async analyze(repoPath: string, payload: Record<string, unknown>, jobId?: number, teamList?: string): Promise<ClaudeAnalysis> {
+  async analyze(
+    repoPath: string,
+    payload: Record<string, unknown>,
+    jobId?: number,
+    teamList?: string,
+    event?: ErrorEvent,
+    onUsage?: (usage: AnalysisUsage) => void
+  ): Promise<ClaudeAnalysis> {
     // Defense-in-depth: Check for prompt injection attempts
     if (containsPromptInjection(payload)) {
       console.warn(`[Claude] Rejected payload: contains suspicious prompt injection patterns`);
-      throw new ClaudeExecutionError('Payload contains suspicious content');
+      throw new ClaudeExecutionError('Payload contains suspicious content', undefined, false);
     }
 
-    const prompt = this.buildPrompt(payload, teamList);
-    const logFile = path.join(this.logDir, `claude-${jobId || Date.now()}.log`);
-    const sessionLogPath = path.join(this.logDir, `claude-${jobId || Date.now()}.jsonl`);
-    const logStream = fs.createWriteStream(logFile, { flags: 'a' });
-    const sessionLog = fs.createWriteStream(sessionLogPath, { flags: 'w' });
-    const startTime = Date.now();
+    const prompt = this.buildPrompt(payload, teamList, event);
+    const log = openSessionLog(jobId);
 
-    const logEvent = (event: ClaudeSessionEvent) => {
-      sessionLog.write(JSON.stringify(event) + '\n');
-    };
+    console.log(`[Claude] Starting analysis, log: ${log.logFile}`);
+    log.logStream.write(`=== Claude Analysis Started at ${new Date().toISOString()} ===\n`);
+    log.logStream.write(`Repo: ${repoPath}\n`);
+    log.logStream.write(`Prompt:\n${prompt}\n\n`);
 
-    console.log(`[Claude] Starting analysis, log: ${logFile}`);
-    logStream.write(`=== Claude Analysis Started at ${new Date().toISOString()} ===\n`);
-    logStream.write(`Repo: ${repoPath}\n`);
-    logStream.write(`Prompt:\n${prompt}\n\n`);
+    try {
+      let output = await this.run(prompt, repoPath, this.maxTurns, log, onUsage);
+      let attempt = checkOutput(output, log.logEvent);
+
+      // Feed the violations back once; the repair needs no further investigation
+      if (!attempt.valid) {
+        log.logEvent({ ts: new Date().toISOString(), type: 'repair', errors: attempt.errors });
+        log.logStream.write(`\n=== Repairing invalid output: ${attempt.errors.join('; ')} ===\n`);
+        console.warn(`[Claude] Output failed validation, asking for a repair: ${attempt.errors.join('; ')}`);
+
+        const repairPrompt = buildRepairPrompt(this.templates.templates['analysis-repair'].source, attempt.previous, attempt.errors);
+        output = await this.run(repairPrompt, repoPath, 1, log, onUsage);
+        attempt = checkOutput(output, log.logEvent);
+      }
+
+      if (!attempt.valid) {
+        throw new ClaudeExecutionError(`Invalid Claude output: ${attempt.errors.join('; ')}`, output.fullOutput);
+      }
+      return attempt.analysis;
+    } finally {
+      await log.close();
+    }
+  }
+
+  // Runs one claude invocation, streaming its events into the logs. Usage is
+  // reported whenever the process exits, since failed invocations are paid too
+  private run(
+    prompt: string,
+    repoPath: string,
+    maxTurns: number,
+    log: SessionLog,
+    onUsage?: (usage: AnalysisUsage) => void
+  ): Promise<ClaudeRunOutput> {
+    const { logStream, logEvent } = log;
+    const startTime = Date.now();
 
     return new Promise((resolve, reject) => {
       const proc = spawn('claude', [
         '-p', prompt,
         '--output-format', 'stream-json',
-        '--max-turns', String(this.maxTurns),
+        '--max-turns', String(maxTurns),
         '--verbose',
         '--allowedTools', 'Read,Glob,Grep,LS',  // Restrict to read-only tools for security
       ], {
@@ -86,86 +309,27 @@ export class ClaudeService {
         stdio: ['ignore', 'pipe', 'pipe'],
       });
 
-      // Manual timeout
+      // Manual timeout; the logs are closed by the time the killed process exits
+      let timedOut = false;
       const timeoutId = this.timeout > 0 ? setTimeout(() => {
+        timedOut = true;
         logEvent({ ts: new Date().toISOString(), type: 'error', message: `Timeout after ${this.timeout}ms` });
         logStream.write(`\n=== TIMEOUT after ${this.timeout}ms ===\n`);
-        logStream.end();
-        sessionLog.end();
         proc.kill('SIGTERM');
         reject(new ClaudeExecutionError(`Claude timed out after ${this.timeout}ms`));
       }, this.timeout) : null;
 
-      let fullOutput = '';
-      let lastResult: unknown = null;
-      const toolMap = new Map<string, string>(); // tool_use_id -> tool name
-      let lineBuffer = ''; // Buffer for incomplete lines across chunks
+      const reader = new StreamJsonReader(logEvent);
 
       proc.stdout.on('data', (data) => {
         const chunk = data.toString();
-        fullOutput += chunk;
+        reader.push(chunk);
 
         // Log raw output
         logStream.write(chunk);
 
         // Also print to console for real-time visibility
         process.stdout.write(chunk);
-
-        // Buffer incomplete lines: prepend any leftover from previous chunk
-        const combined = lineBuffer + chunk;
-        const parts = combined.split('\n');
-
-        // Last part may be incomplete (no trailing newline), save for next chunk
-        lineBuffer = parts.pop() || '';
-
-        // Process complete lines
-        for (const line of parts) {
-          const trimmed = line.trim();
-          if (!trimmed) continue;
-          try {
-            const event = JSON.parse(line);
-            const ts = new Date().toISOString();
-
-            if (event.type === 'assistant') {
-              const content = event.message?.content;
-              if (Array.isArray(content)) {
-                for (const block of content) {
-                  if (block.type === 'text') {
-                    logEvent({ ts, type: 'text', content: block.text });
-                  } else if (block.type === 'tool_use') {
-                    // Track tool_use_id -> tool name for matching results
-                    if (block.id) {
-                      toolMap.set(block.id, block.name);
-                    }
-                    logEvent({ ts, type: 'tool_use', tool: block.name, input: block.input });
-                  }
-                }
-              }
-            } else if (event.type === 'user') {
-              const content = event.message?.content;
-              if (Array.isArray(content)) {
-                for (const block of content) {
-                  if (block.type === 'tool_result') {
-                    const output = typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
-                    // Look up tool name from tool_use_id
-                    const toolName = block.tool_use_id ? toolMap.get(block.tool_use_id) : undefined;
-                    logEvent({
-                      ts,
-                      type: 'tool_result',
-                      tool: toolName,
-                      output: output.substring(0, 1000),
-                      lines: output.split('\n').length,
-                    });
-                  }
-                }
-              }
-            } else if (event.type === 'result') {
-              lastResult = event;
-            }
-          } catch {
-            // Not JSON, ignore
-          }
-        }
       });
 
       proc.stderr.on('data', (data) => {
@@ -175,176 +339,87 @@ export class ClaudeService {
       });
 
       proc.on('error', (err) => {
+        if (timeoutId) clearTimeout(timeoutId);
         logEvent({ ts: new Date().toISOString(), type: 'error', message: err.message });
         logStream.write(`\n=== ERROR: ${err.message} ===\n`);
-        logStream.end();
-        sessionLog.end();
         reject(new ClaudeExecutionError(`Failed to spawn claude: ${err.message}`));
       });
 
       proc.on('close', (code) => {
         if (timeoutId) clearTimeout(timeoutId);
-
-        // Process any remaining content in the line buffer
-        if (lineBuffer.trim()) {
-          try {
-            const event = JSON.parse(lineBuffer);
-            if (event.type === 'result') {
-              lastResult = event;
-            }
-          } catch {
-            // Not valid JSON, ignore
-          }
-        }
-
-        logEvent({ ts: new Date().toISOString(), type: 'result', duration_ms: Date.now() - startTime });
+        if (timedOut) return;
+
+        const output = reader.end();
+        const usage = usageFromResult(output.lastResult, Date.now() - startTime);
+        logEvent({
+          ts: new Date().toISOString(),
+          type: 'result',
+          duration_ms: usage.durationMs,
+          cost_usd: usage.costUsd,
+          input_tokens: usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens,
+          output_tokens: usage.outputTokens,
+          num_turns: usage.numTurns,
+        });
+        onUsage?.(usage);
         logStream.write(`\n=== Claude exited with code ${code} ===\n`);
-        logStream.end();
-        sessionLog.end();
 
         if (code !== 0) {
-          reject(new ClaudeExecutionError(`Claude exited with code ${code}`, fullOutput));
+          reject(new ClaudeExecutionError(`Claude exited with code ${code}`, output.fullOutput));
         } else {
-          try {
-            resolve(this.parseStreamOutput(fullOutput, lastResult));
-          } catch (err) {
-            reject(new ClaudeExecutionError(`Failed to parse Claude output: ${err}`, fullOutput));
-          }
+          resolve(output);
         }
       });
     });
   }
 
-  private buildPrompt(payload: Record<string, unknown>, teamList?: string): string {
-    const template = fs.readFileSync(PROMPT_TEMPLATE_PATH, 'utf-8');
-
-    // Simple mustache-style template rendering
-    let result = template
-      .replace('{{payload}}', JSON.stringify(payload, null, 2))
-      .replace('{{teamList}}', teamList || '');
-
-    // Handle conditional section {{#teamSection}}...{{/teamSection}}
-    if (teamList) {
-      result = result
-        .replace('{{#teamSection}}', '')
-        .replace('{{/teamSection}}', '');
-    } else {
-      result = result.replace(/\{\{#teamSection\}\}[\s\S]*?\{\{\/teamSection\}\}/g, '');
-    }
-
-    return result;
+  private buildPrompt(payload: Record<string, unknown>, teamList?: string, event?: ErrorEvent): string {
+    return this.templates.render('analysis-prompt', {
+      // Normalized events are far more compact than raw source payloads
+      payload: event ?? payload,
+      event,
+      teamList,
+    });
   }
+}
 
-  private parseStreamOutput(fullOutput: string, lastResult: unknown): ClaudeAnalysis {
-    // Try to extract from last result event
-    if (lastResult && typeof lastResult === 'object') {
-      const result = lastResult as Record<string, unknown>;
-      if (result.result) {
-        const content = result.result;
-        if (typeof content === 'string') {
-          return this.extractJsonFromText(content);
-        }
-        if (typeof content === 'object' && content !== null) {
-          const obj = content as Record<string, unknown>;
-          if (obj.category && obj.summary) {
-            return obj as unknown as ClaudeAnalysis;
-          }
-        }
+function parseStreamOutput(fullOutput: string, lastResult: unknown): Record<string, unknown> {
+  // Try to extract from last result event
+  if (lastResult && typeof lastResult === 'object') {
+    const result = lastResult as Record<string, unknown>;
+    if (result.result) {
+      const content = result.result;
+      if (typeof content === 'string') {
+        return extractJsonFromText(content);
       }
-    }
-
-    // Fallback: parse NDJSON lines to find result event
-    // This handles cases where streaming didn't capture lastResult
-    const lines = fullOutput.split('\n');
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      try {
-        const event = JSON.parse(line);
-        if (event.type === 'result' && event.result) {
-          if (typeof event.result === 'string') {
-            return this.extractJsonFromText(event.result);
-          }
-        }
-      } catch {
-        // Not valid JSON, continue
+      if (isJsonObject(content)) {
+        return content;
       }
     }
-
-    // Last resort: try to find JSON in raw output (may fail due to escaping)
-    return this.extractJsonFromText(fullOutput);
   }
 
-  private extractJsonFromText(text: string): ClaudeAnalysis {
-    // Try to find JSON block in markdown - use greedy match to get the LAST complete block
-    const jsonBlockMatches = text.matchAll(/```json\s*([\s\S]*?)```/g);
-    for (const match of jsonBlockMatches) {
-      try {
-        const parsed = JSON.parse(match[1].trim());
-        if (parsed.category && parsed.summary) {
-          return parsed;
-        }
-      } catch {
-        // Continue to next match
-      }
-    }
-
-    // Try to find balanced JSON object starting with { and containing required fields
-    // Look for the pattern anywhere in the text
-    const patterns = ['{\n  "category"', '{"category"', '{ "category"'];
-    for (const pattern of patterns) {
-      const startIdx = text.indexOf(pattern);
-      if (startIdx !== -1) {
-        try {
-          return this.extractBalancedJson(text, startIdx);
-        } catch {
-          // Continue to next pattern
+  // Fallback: parse NDJSON lines to find result event
+  // This handles cases where streaming didn't capture lastResult
+  const lines = fullOutput.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    try {
+      const event = JSON.parse(line);
+      if (event.type === 'result' && event.result) {
+        if (typeof event.result === 'string') {
+          return extractJsonFromText(event.result);
         }
       }
+    } catch {
+      // Not valid JSON, continue
     }
-
-    throw new Error('No valid JSON analysis found in output');
   }
 
-  private extractBalancedJson(text: string, startIdx: number): ClaudeAnalysis {
-    let depth = 0;
-    let inString = false;
-    let escape = false;
-
-    for (let i = startIdx; i < text.length; i++) {
-      const char = text[i];
-
-      if (escape) {
-        escape = false;
-        continue;
-      }
-
-      if (char === '\\' && inString) {
-        escape = true;
-        continue;
-      }
-
-      if (char === '"' && !escape) {
-        inString = !inString;
-        continue;
-      }
-
-      if (!inString) {
-        if (char === '{') depth++;
-        if (char === '}') {
-          depth--;
-          if (depth === 0) {
-            const jsonStr = text.slice(startIdx, i + 1);
-            return JSON.parse(jsonStr);
-          }
-        }
-      }
-    }
-
-    throw new Error('Unbalanced JSON in output');
-  }
+  // Last resort: try to find JSON in raw output (may fail due to escaping)
+  return extractJsonFromText(fullOutput);
 }
 
+
 // Exported for testing - simulates line buffering across chunks
 export function processChunksWithLineBuffering(chunks: string[]): { lines: string[]; lastResult: unknown } {
   let lineBuffer = '';
@@ -387,39 +462,53 @@ export function processChunksWithLineBuffering(chunks: string[]): { lines: strin
   return { lines: allLines, lastResult };
 }
 
-// Exported for testing - extracts JSON from text (markdown blocks or raw)
-export function extractJsonFromText(text: string): ClaudeAnalysis {
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Exported for testing - extracts the JSON object from text (markdown blocks
+// first, then raw), preferring one with analysis fields. Fields are checked by
+// the schema validator, so an incomplete object still gets a repair attempt.
+export function extractJsonFromText(text: string): Record<string, unknown> {
+  const looksLikeAnalysis = (obj: Record<string, unknown>) => 'category' in obj || 'summary' in obj;
+  let fallback: Record<string, unknown> | undefined;
+
   // Try to find JSON block in markdown
   const jsonBlockMatches = text.matchAll(/```json\s*([\s\S]*?)```/g);
   for (const match of jsonBlockMatches) {
     try {
       const parsed = JSON.parse(match[1].trim());
-      if (parsed.category && parsed.summary) {
-        return parsed;
+      if (isJsonObject(parsed)) {
+        if (looksLikeAnalysis(parsed)) return parsed;
+        fallback ??= parsed;
       }
     } catch {
       // Continue to next match
     }
   }
 
-  // Try to find balanced JSON object
-  const patterns = ['{\n  "category"', '{"category"', '{ "category"'];
-  for (const pattern of patterns) {
-    const startIdx = text.indexOf(pattern);
-    if (startIdx !== -1) {
-      try {
-        return extractBalancedJson(text, startIdx);
-      } catch {
-        // Continue to next pattern
-      }
+  // Try to find a balanced JSON object
+  for (let startIdx = text.indexOf('{'); startIdx !== -1; startIdx = text.indexOf('{', startIdx + 1)) {
+    try {
+      const parsed = extractBalancedJson(text, startIdx);
+      if (looksLikeAnalysis(parsed)) return parsed;
+      fallback ??= parsed;
+    } catch {
+      // Continue from the next brace
     }
   }
 
+  if (fallback) return fallback;
   throw new Error('No valid JSON analysis found in output');
 }
 
+// Exported for testing - fills the repair template with the rejected output and its violations
+export function buildRepairPrompt(template: string, previous: string, errors: string[]): string {
+  return renderTemplate(template, { errors, output: previous });
+}
+
 // Exported for testing - parses NDJSON to find result event
-export function parseNdjsonForResult(fullOutput: string): ClaudeAnalysis | null {
+export function parseNdjsonForResult(fullOutput: string): Record<string, unknown> | null {
   const lines = fullOutput.split('\n');
   for (let i = lines.length - 1; i >= 0; i--) {
     const line = lines[i].trim();
@@ -438,7 +527,7 @@ export function parseNdjsonForResult(fullOutput: string): ClaudeAnalysis | null
   return null;
 }
 
-function extractBalancedJson(text: string, startIdx: number): ClaudeAnalysis {
+function extractBalancedJson(text: string, startIdx: number): Record<string, unknown> {
   let depth = 0;
   let inString = false;
   let escape = false;
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { GitHubIssuesService } from './github.js';
+import { TrackerHttpError } from './tracker.js';
+import type { ClaudeAnalysis } from '../types.js';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+type Route = (req: RecordedRequest) => { status: number; body?: unknown; headers?: Record<string, string> };
+
+// Local stand-in for the GitHub REST API: routes are keyed by "METHOD /path"
+function startStandIn(routes: Record<string, Route>): Promise<{ url: string; requests: RecordedRequest[]; close: () => Promise<void> }> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const recorded = { method: req.method!, url: req.url!, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(recorded);
+      const route = routes[`${req.method} ${req.url!.split('?')[0]}`];
+      const response = route ? route(recorded) : { status: 404, body: { message: 'Not Found' } };
+      res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(response.body !== undefined ? JSON.stringify(response.body) : '');
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+const analysis: ClaudeAnalysis = {
+  category: 'bug',
+  priority: 'high',
+  summary: 'Null user in checkout',
+  affected_files: ['src/checkout.ts'],
+  root_cause: { hypothesis: 'user is not loaded', confidence: 'high', evidence: 'stack trace' },
+  fix: { suggestion: 'Check user', files_to_modify: ['src/checkout.ts'] },
+  investigation_log: ['Read checkout.ts'],
+  suggested_team: 'acme/api',
+};
+
+describe('GitHubIssuesService', () => {
+  let standIn: Awaited<ReturnType<typeof startStandIn>>;
+  let routes: Record<string, Route>;
+  let github: GitHubIssuesService;
+
+  beforeEach(async () => {
+    routes = {};
+    standIn = await startStandIn(routes);
+    github = new GitHubIssuesService({ token: 'ghp_test', apiUrl: standIn.url });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('loads allowed repositories as teams and reports missing ones', async () => {
+    routes['GET /repos/acme/api'] = () => ({ status: 200, body: { full_name: 'acme/api', description: 'Public API' } });
+    github.setAllowedTeams(['acme/api', 'acme/gone']);
+
+    const result = await github.fetchTeams();
+
+    expect(result).toEqual({ success: true, count: 1 });
+    expect(github.getTeamListForPrompt()).toBe('- acme/api: Public API');
+    expect(github.findTeam('acme/gone')).toBeNull();
+    expect(standIn.requests[0].headers.authorization).toBe('Bearer ghp_test');
+  });
+
+  it('reads every page of repositories and labels', async () => {
+    // 100 items per page, then a short last page
+    const paged = <T>(items: T[]): Route => req => {
+      const page = Number(new URL(req.url, 'http://localhost').searchParams.get('page'));
+      return { status: 200, body: items.slice((page - 1) * 100, page * 100) };
+    };
+    const repos = Array.from({ length: 130 }, (_, i) => ({ full_name: `acme/repo-${i}`, description: null }));
+    routes['GET /user/repos'] = paged(repos);
+    routes['GET /repos/acme/repo-129/labels'] = paged(Array.from({ length: 101 }, (_, i) => ({ name: `label-${i}` })));
+    routes['POST /repos/acme/repo-129/issues'] = () => ({ status: 201, body: { number: 1, html_url: 'https://github.com/acme/repo-129/issues/1' } });
+    github.setLabelMapping({ category: { bug: ['label-100'] }, priority: {}, source: {}, environment: {}, service: {}, createMissing: false });
+
+    expect(await github.fetchTeams()).toEqual({ success: true, count: 130 });
+    await github.resolveLabels();
+    await github.createIssue('acme/repo-129', {}, analysis, 'fp-1');
+
+    expect(standIn.requests.filter(r => r.url.startsWith('/user/repos')).map(r => r.url)).toEqual([
+      '/user/repos?sort=pushed&per_page=100&page=1',
+      '/user/repos?sort=pushed&per_page=100&page=2',
+    ]);
+    const issue = standIn.requests.find(r => r.url === '/repos/acme/repo-129/issues')!;
+    expect((issue.body as { labels: string[] }).labels).toEqual(['priority: high', 'label-100']);
+  });
+
+  it('creates issues with a priority label and returns owner/name#number', async () => {
+    routes['POST /repos/acme/api/issues'] = () => ({
+      status: 201,
+      body: { number: 42, html_url: 'https://github.com/acme/api/issues/42', state: 'open', labels: [] },
+    });
+    github.setPrefix('LINEU');
+
+    const issue = await github.createIssue('acme/api', { message: 'boom' }, analysis, 'fp-1', {
+      previousIssue: { id: 'acme/api#7', identifier: 'acme/api#7', regression: true },
+    });
+
+    expect(issue).toEqual({ id: 'acme/api#42', identifier: 'acme/api#42', url: 'https://github.com/acme/api/issues/42' });
+    const body = standIn.requests[0].body as { title: string; body: string; labels: string[] };
+    expect(body.title).toBe('LINEU: [REGRESSION] [BUG] Null user in checkout');
+    expect(body.body).toContain('foi corrigido em acme/api#7');
+    expect(body.labels).toEqual(['priority: high']);
+  });
+
+  it('assigns the routed assignee and describes the routing', async () => {
+    routes['POST /repos/acme/api/issues'] = () => ({ status: 201, body: { number: 43, html_url: 'https://github.com/acme/api/issues/43' } });
+    routes['POST /repos/acme/api/issues/43/assignees'] = () => ({ status: 201, body: { number: 43, assignees: [{ login: 'Maria' }] } });
+
+    await github.createIssue('acme/api', {}, analysis, 'fp-1', {
+      routing: { source: 'codeowners', team: 'acme/api', assignee: 'maria', reason: '@acme/api owns 1 of 1 affected files' },
+    });
+
+    expect((standIn.requests[0].body as { body: string }).body).toContain('**Responsável**: maria');
+    expect(standIn.requests[1].body).toEqual({ assignees: ['maria'] });
+  });
+
+  it('applies mapped labels, creating missing ones when asked and skipping the rest', async () => {
+    routes['GET /repos/acme/api'] = () => ({ status: 200, body: { full_name: 'acme/api', description: null } });
+    routes['GET /repos/acme/api/labels'] = () => ({ status: 200, body: [{ name: 'bug' }] });
+    routes['POST /repos/acme/api/labels'] = req => (req.body as { name: string }).name === 'Checkout'
+      ? { status: 201, body: { name: 'Checkout' } }
+      : { status: 422, body: { message: 'Validation Failed' } };
+    routes['POST /repos/acme/api/issues'] = () => ({ status: 201, body: { number: 1, html_url: 'https://github.com/acme/api/issues/1' } });
+    github.setAllowedTeams(['acme/api']);
+    github.setLabelMapping({
+      category: { bug: ['Bug'] },
+      priority: {},
+      source: {},
+      environment: { production: ['Prod'] },
+      service: { checkout: ['Checkout'] },
+      createMissing: true,
+    });
+    await github.fetchTeams();
+
+    await github.resolveLabels();
+    await github.createIssue('acme/api', { environment: 'production', service: 'checkout' }, analysis, 'fp-1');
+
+    const issue = standIn.requests.find(r => r.url === '/repos/acme/api/issues')!;
+    // "Bug" matches the existing "bug" label; "Prod" could not be created
+    expect((issue.body as { labels: string[] }).labels).toEqual(['priority: high', 'bug', 'Checkout']);
+  });
+
+  it('maps issue states, including deleted and foreign issue IDs', async () => {
+    routes['GET /repos/acme/api/issues/1'] = () => ({ status: 200, body: { state: 'open', labels: [] } });
+    routes['GET /repos/acme/api/issues/2'] = () => ({ status: 200, body: { state: 'closed', state_reason: 'completed', labels: [] } });
+    routes['GET /repos/acme/api/issues/3'] = () => ({ status: 200, body: { state: 'closed', state_reason: 'not_planned', labels: [] } });
+    routes['GET /repos/acme/api/issues/4'] = () => ({ status: 410, body: { message: 'This issue was deleted' } });
+
+    expect(await github.getIssueState('acme/api#1')).toBe('open');
+    expect(await github.getIssueState('acme/api#2')).toBe('completed');
+    expect(await github.getIssueState('acme/api#3')).toBe('canceled');
+    expect(await github.getIssueState('acme/api#4')).toBe('missing');
+    // Linear issue linked before switching trackers
+    expect(await github.getIssueState('3f1c9a52-6b1e-4c4e-9a0e-3c1f1f3e2b10')).toBe('missing');
+  });
+
+  it('reopens issues and explains the regression', async () => {
+    routes['PATCH /repos/acme/api/issues/2'] = () => ({ status: 200, body: { state: 'open', labels: [] } });
+    routes['POST /repos/acme/api/issues/2/comments'] = () => ({ status: 201, body: { id: 1 } });
+
+    await github.reopenIssue('acme/api#2', { payload: { message: 'boom' } });
+
+    expect(standIn.requests[0].body).toEqual({ state: 'open', state_reason: 'reopened' });
+    expect((standIn.requests[1].body as { body: string }).body).toContain('## Regressão');
+  });
+
+  it('replaces a lower priority label and leaves more urgent issues alone', async () => {
+    routes['GET /repos/acme/api/issues/5'] = () => ({ status: 200, body: { state: 'open', labels: [{ name: 'priority: medium' }, { name: 'bug' }] } });
+    routes['DELETE /repos/acme/api/issues/5/labels/priority%3A%20medium'] = () => ({ status: 200, body: [] });
+    routes['POST /repos/acme/api/issues/5/labels'] = () => ({ status: 200, body: [] });
+    routes['POST /repos/acme/api/issues/5/comments'] = () => ({ status: 201, body: { id: 1 } });
+    routes['GET /repos/acme/api/issues/6'] = () => ({ status: 200, body: { state: 'open', labels: [{ name: 'priority: critical' }] } });
+
+    expect(await github.raisePriority('acme/api#5', 1, 80)).toBe(true);
+    expect(standIn.requests.map(r => `${r.method} ${r.url}`)).toEqual([
+      'GET /repos/acme/api/issues/5',
+      'DELETE /repos/acme/api/issues/5/labels/priority%3A%20medium',
+      'POST /repos/acme/api/issues/5/labels',
+      'POST /repos/acme/api/issues/5/comments',
+    ]);
+    expect(standIn.requests[2].body).toEqual({ labels: ['priority: critical'] });
+
+    expect(await github.raisePriority('acme/api#6', 2, 80)).toBe(false);
+  });
+
+  it('surfaces rate limits with the time to wait', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 120;
+    routes['POST /repos/acme/api/issues/1/comments'] = () => ({
+      status: 403,
+      body: { message: 'API rate limit exceeded' },
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) },
+    });
+
+    const err = await github.commentOccurrences(
+      'acme/api#1',
+      { reason: 'summary' },
+      {
+        fingerprint: 'fp-1', linear_issue_id: 'acme/api#1', linear_identifier: 'acme/api#1', count: 20,
+        notified_count: 10, notified_at: null, priority_bumped_at: null, hour_count: 3,
+        first_seen: '2026-01-01 00:00:00', last_seen: '2026-01-02 00:00:00',
+      },
+      { payload: { message: 'boom' } }
+    ).catch(e => e);
+
+    expect(err).toBeInstanceOf(TrackerHttpError);
+    expect(err.status).toBe(403);
+    expect(err.message).toContain('API rate limit exceeded');
+    expect(err.retryAfter).toBeGreaterThan(100);
+  });
+
+  it('builds web links for github.com and GitHub Enterprise', () => {
+    expect(new GitHubIssuesService({ token: 't' }).issueUrl('acme/api#42')).toBe('https://github.com/acme/api/issues/42');
+    expect(new GitHubIssuesService({ token: 't', apiUrl: 'https://git.acme.dev/api/v3' }).issueUrl('acme/api#42'))
+      .toBe('https://git.acme.dev/acme/api/issues/42');
+  });
+});
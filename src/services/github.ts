@@ -0,0 +1,215 @@
+import type { OccurrenceComment } from '../lib/occurrence-updates.js';
+import type {
+  ClaudeAnalysis, IssueContext, IssueState, LatestOccurrence, OccurrenceUpdateCandidate, TeamInfo, TrackerIssue,
+} from '../types.js';
+import { BaseIssueTracker, requestJson, TrackerHttpError } from './tracker.js';
+import {
+  buildIssueDescription, buildIssueTitle, buildOccurrenceComment, buildPriorityComment, buildRegressionComment,
+} from './issue-content.js';
+
+const DEFAULT_API_URL = 'https://api.github.com';
+// Largest page GitHub serves; a shorter page is the last one
+const PAGE_SIZE = 100;
+
+// GitHub has no issue priority; it is kept in a "priority: <name>" label
+const PRIORITY_LABEL_PREFIX = 'priority: ';
+// Index + 1 is the Linear-style priority number (1 = urgent)
+const PRIORITY_NAMES = ['critical', 'high', 'medium', 'low'];
+
+interface GitHubRepo {
+  full_name: string;
+  description: string | null;
+  archived?: boolean;
+  has_issues?: boolean;
+}
+
+interface GitHubIssue {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  state_reason?: 'completed' | 'not_planned' | 'reopened' | null;
+  labels: Array<{ name: string }>;
+  assignees?: Array<{ login: string }>;
+}
+
+/**
+ * Files issues in GitHub repositories. Teams are repositories, keyed by
+ * "owner/name"; issue IDs and identifiers are "owner/name#number".
+ */
+export class GitHubIssuesService extends BaseIssueTracker {
+  readonly kind = 'github';
+  private token: string;
+  private apiUrl: string;
+
+  constructor(config: { token: string; apiUrl?: string; concurrency?: number }) {
+    super('GitHub', config.concurrency);
+    this.token = config.token;
+    this.apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+  }
+
+  private request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    return this.api(() => requestJson<T>(method, `${this.apiUrl}${path}`, {
+      Authorization: `Bearer ${this.token}`,
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      'User-Agent': 'lineu',
+    }, body));
+  }
+
+  // Every page of a list endpoint, e.g. an account with more than 100 repositories
+  private async requestAll<T>(path: string): Promise<T[]> {
+    const separator = path.includes('?') ? '&' : '?';
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.request<T[]>('GET', `${path}${separator}per_page=${PAGE_SIZE}&page=${page}`);
+      items.push(...batch);
+      if (batch.length < PAGE_SIZE) return items;
+    }
+  }
+
+  protected async listTeams(allowedKeys: string[] | null): Promise<TeamInfo[]> {
+    let repos: GitHubRepo[];
+    if (allowedKeys) {
+      repos = [];
+      for (const key of allowedKeys) {
+        try {
+          repos.push(await this.request<GitHubRepo>('GET', `/repos/${key}`));
+        } catch (err) {
+          // Reported as not found by fetchTeams
+          if (!(err instanceof TrackerHttpError && err.status === 404)) throw err;
+        }
+      }
+    } else {
+      repos = await this.requestAll<GitHubRepo>('/user/repos?sort=pushed');
+    }
+
+    return repos
+      .filter(repo => !repo.archived && repo.has_issues !== false)
+      .map(repo => ({ id: repo.full_name, key: repo.full_name, name: repo.description || repo.full_name }));
+  }
+
+  protected async listLabels(team: TeamInfo): Promise<Array<{ id: string; name: string }>> {
+    const labels = await this.requestAll<{ name: string }>(`/repos/${team.id}/labels`);
+    return labels.map(label => ({ id: label.name, name: label.name }));
+  }
+
+  protected async createLabel(team: TeamInfo, name: string): Promise<string> {
+    const label = await this.request<{ name: string }>('POST', `/repos/${team.id}/labels`, { name });
+    return label.name;
+  }
+
+  async createIssue(
+    teamId: string,
+    payload: Record<string, unknown>,
+    analysis: ClaudeAnalysis,
+    fingerprint: string,
+    context: IssueContext = {}
+  ): Promise<TrackerIssue> {
+    if (context.routing?.project) {
+      console.warn(`[GitHub] Projects are not supported, ignoring project "${context.routing.project}"`);
+    }
+
+    // The description mentions the previous issue as owner/name#number, which GitHub links
+    const issue = await this.request<GitHubIssue>('POST', `/repos/${teamId}/issues`, {
+      title: buildIssueTitle(analysis, this.prefix, context),
+      body: buildIssueDescription(payload, analysis, fingerprint, context, this.templates),
+      labels: [`${PRIORITY_LABEL_PREFIX}${analysis.priority}`, ...this.issueLabels(teamId, analysis, payload, context)],
+    });
+
+    const identifier = `${teamId}#${issue.number}`;
+    if (context.routing?.assignee) {
+      await this.assign(identifier, context.routing.assignee);
+    }
+    return { id: identifier, identifier, url: issue.html_url };
+  }
+
+  async getIssueState(issueId: string): Promise<IssueState> {
+    let issue: GitHubIssue;
+    try {
+      issue = await this.request<GitHubIssue>('GET', this.issuePath(issueId));
+    } catch (err) {
+      // 410: the issue was deleted
+      if (err instanceof TrackerHttpError && (err.status === 404 || err.status === 410)) {
+        return 'missing';
+      }
+      throw err;
+    }
+
+    if (issue.state === 'open') return 'open';
+    return issue.state_reason === 'not_planned' ? 'canceled' : 'completed';
+  }
+
+  async reopenIssue(issueId: string, latest: LatestOccurrence): Promise<void> {
+    await this.request('PATCH', this.issuePath(issueId), { state: 'open', state_reason: 'reopened' });
+    await this.comment(issueId, buildRegressionComment(latest, this.templates));
+  }
+
+  async commentOccurrences(
+    issueId: string,
+    comment: OccurrenceComment,
+    occurrence: OccurrenceUpdateCandidate,
+    latest: LatestOccurrence
+  ): Promise<void> {
+    await this.comment(issueId, buildOccurrenceComment(comment, occurrence, latest, this.templates));
+  }
+
+  /**
+   * Replaces the issue's priority label. Issues already labeled as urgent or
+   * more are left alone.
+   */
+  async raisePriority(issueId: string, priority: number, hourCount: number): Promise<boolean> {
+    const issue = await this.request<GitHubIssue>('GET', this.issuePath(issueId));
+    const current = issue.labels
+      .filter(label => label.name.startsWith(PRIORITY_LABEL_PREFIX))
+      .map(label => label.name);
+    const currentPriority = Math.min(
+      ...current.map(name => PRIORITY_NAMES.indexOf(name.slice(PRIORITY_LABEL_PREFIX.length)) + 1).filter(p => p > 0)
+    );
+    if (currentPriority <= priority) {
+      return false;
+    }
+
+    for (const name of current) {
+      await this.request('DELETE', `${this.issuePath(issueId)}/labels/${encodeURIComponent(name)}`);
+    }
+    await this.request('POST', `${this.issuePath(issueId)}/labels`, {
+      labels: [`${PRIORITY_LABEL_PREFIX}${PRIORITY_NAMES[priority - 1]}`],
+    });
+    await this.comment(issueId, buildPriorityComment(hourCount, this.templates));
+    return true;
+  }
+
+  issueUrl(identifier: string): string {
+    const [repo, number] = identifier.split('#');
+    // GitHub Enterprise serves the API under /api/v3 of the web host
+    const webUrl = this.apiUrl === DEFAULT_API_URL ? 'https://github.com' : this.apiUrl.replace(/\/api\/v3$/, '');
+    return `${webUrl}/${repo}/issues/${number}`;
+  }
+
+  private async comment(issueId: string, body: string): Promise<void> {
+    await this.request('POST', `${this.issuePath(issueId)}/comments`, { body });
+  }
+
+  // GitHub skips logins that cannot be assigned; other failures don't fail the job either
+  private async assign(issueId: string, login: string): Promise<void> {
+    try {
+      const issue = await this.request<GitHubIssue>('POST', `${this.issuePath(issueId)}/assignees`, { assignees: [login] });
+      if (!issue.assignees?.some(a => a.login.toLowerCase() === login.toLowerCase())) {
+        console.warn(`[GitHub] ${login} cannot be assigned to ${issueId}, leaving it unassigned`);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      console.warn(`[GitHub] Failed to assign ${issueId} to ${login}: ${msg}`);
+    }
+  }
+
+  // owner/name#number → /repos/owner/name/issues/number
+  private issuePath(issueId: string): string {
+    const [repo, number] = issueId.split('#');
+    if (!repo?.includes('/') || !/^\d+$/.test(number ?? '')) {
+      // e.g. an issue linked before switching trackers: treated like a deleted issue
+      throw new TrackerHttpError(`Not a GitHub issue ID: ${issueId}`, 404);
+    }
+    return `/repos/${repo}/issues/${number}`;
+  }
+}
@@ -0,0 +1,84 @@
+import type { OccurrenceComment } from '../lib/occurrence-updates.js';
+import { defaultTemplates, type TemplateSet } from '../lib/templates.js';
+import type {
+  ClaudeAnalysis, IssueContext, LatestOccurrence, OccurrenceUpdateCandidate,
+} from '../types.js';
+
+// Maximum stack frames rendered in the issue description
+const MAX_DESCRIPTION_FRAMES = 10;
+
+// Maximum characters of the latest payload quoted in occurrence comments
+const MAX_EXCERPT_LENGTH = 1000;
+
+// Display names for event sources, used in link titles
+const SOURCE_NAMES: Record<string, string> = {
+  sentry: 'Sentry',
+  newrelic: 'New Relic',
+};
+
+export function buildSourceLinkTitle(source: string): string {
+  return `${SOURCE_NAMES[source] || source} issue`;
+}
+
+export function buildIssueTitle(analysis: ClaudeAnalysis, prefix: string | null, context: IssueContext = {}): string {
+  const regression = context.previousIssue?.regression ? '[REGRESSION] ' : '';
+  const baseTitle = `${regression}[${analysis.category.toUpperCase()}] ${analysis.summary}`;
+  return prefix ? `${prefix}: ${baseTitle}` : baseTitle;
+}
+
+export function buildRegressionComment(latest: LatestOccurrence, templates: TemplateSet = defaultTemplates()): string {
+  return templates.render('regression-comment', excerptContext(latest));
+}
+
+export function buildPriorityComment(hourCount: number, templates: TemplateSet = defaultTemplates()): string {
+  return templates.render('priority-comment', { hourCount });
+}
+
+export function buildOccurrenceComment(
+  comment: OccurrenceComment,
+  occurrence: OccurrenceUpdateCandidate,
+  latest: LatestOccurrence,
+  templates: TemplateSet = defaultTemplates()
+): string {
+  return templates.render('occurrence-comment', {
+    // Unset for the daily summary
+    threshold: comment.reason === 'threshold' ? comment.threshold : undefined,
+    occurrence,
+    newSinceNotified: occurrence.count - occurrence.notified_count,
+    ...excerptContext(latest),
+  });
+}
+
+// The latest event, else its raw payload as truncated JSON
+function excerptContext(latest: LatestOccurrence): { event?: LatestOccurrence['event']; payloadExcerpt?: string } {
+  if (latest.event) return { event: latest.event };
+  let json = JSON.stringify(latest.payload, null, 2);
+  if (json.length > MAX_EXCERPT_LENGTH) json = `${json.slice(0, MAX_EXCERPT_LENGTH)}\n...`;
+  return { payloadExcerpt: json };
+}
+
+/**
+ * Markdown body of a new issue, shared by every tracker. Rendered from the
+ * issue template; the analysis fields are under analysis, and
+ * investigationLog also covers the legacy investigation_steps.
+ */
+export function buildIssueDescription(
+  payload: Record<string, unknown>,
+  analysis: ClaudeAnalysis,
+  fingerprint: string,
+  context: IssueContext = {},
+  templates: TemplateSet = defaultTemplates()
+): string {
+  const { event, previousIssue, routing } = context;
+
+  return templates.render('issue', {
+    analysis,
+    investigationLog: analysis.investigation_log || analysis.investigation_steps || [],
+    fingerprint,
+    // Normalized events replace the (often huge) raw source payload
+    payload,
+    event: event && { ...event, frames: event.frames.slice(0, MAX_DESCRIPTION_FRAMES) },
+    previousIssue,
+    routing,
+  });
+}
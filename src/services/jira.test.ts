@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { JiraService } from './jira.js';
+import type { ClaudeAnalysis } from '../types.js';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+type Route = (req: RecordedRequest) => { status: number; body?: unknown };
+
+// Local stand-in for the Jira REST API: routes are keyed by "METHOD /path"
+function startStandIn(routes: Record<string, Route>): Promise<{ url: string; requests: RecordedRequest[]; close: () => Promise<void> }> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const recorded = { method: req.method!, url: req.url!, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(recorded);
+      const route = routes[`${req.method} ${req.url!.split('?')[0]}`];
+      const response = route ? route(recorded) : { status: 404, body: { errorMessages: ['Issue does not exist'], errors: {} } };
+      res.writeHead(response.status, { 'Content-Type': 'application/json' });
+      res.end(response.body !== undefined ? JSON.stringify(response.body) : '');
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+const analysis: ClaudeAnalysis = {
+  category: 'database',
+  priority: 'critical',
+  summary: 'Deadlock on orders',
+  affected_files: [],
+  root_cause: { hypothesis: 'lock order', confidence: 'medium', evidence: 'logs' },
+  fix: { suggestion: 'Lock in id order', files_to_modify: [] },
+  investigation_log: [],
+  suggested_team: 'OPS',
+};
+
+describe('JiraService', () => {
+  let standIn: Awaited<ReturnType<typeof startStandIn>>;
+  let routes: Record<string, Route>;
+  let jira: JiraService;
+
+  beforeEach(async () => {
+    routes = {};
+    standIn = await startStandIn(routes);
+    jira = new JiraService({ url: `${standIn.url}/`, email: 'bot@acme.dev', apiToken: 'secret', issueType: 'Bug' });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('lists projects as teams with basic auth', async () => {
+    routes['GET /rest/api/2/project'] = () => ({
+      status: 200,
+      body: [{ id: '10000', key: 'ENG', name: 'Engineering' }, { id: '10001', key: 'OPS', name: 'Operations' }],
+    });
+
+    expect(await jira.fetchTeams()).toEqual({ success: true, count: 2 });
+    expect(jira.findTeam('OPS')).toEqual({ id: '10001', key: 'OPS' });
+    expect(standIn.requests[0].headers.authorization).toBe(`Basic ${Buffer.from('bot@acme.dev:secret').toString('base64')}`);
+  });
+
+  it('fails team loading when credentials are rejected', async () => {
+    routes['GET /rest/api/2/project'] = () => ({ status: 401, body: { errorMessages: ['Unauthorized'] } });
+
+    expect(await jira.fetchTeams()).toEqual({ success: false, count: 0 });
+  });
+
+  it('creates issues and links the source and the previous issue', async () => {
+    routes['POST /rest/api/2/issue'] = () => ({ status: 201, body: { id: '20001', key: 'OPS-12' } });
+    routes['POST /rest/api/2/issue/20001/remotelink'] = () => ({ status: 201, body: { id: 1 } });
+    routes['POST /rest/api/2/issueLink'] = () => ({ status: 201 });
+
+    const issue = await jira.createIssue('10001', { message: 'deadlock' }, analysis, 'fp-1', {
+      event: { source: 'sentry', message: 'deadlock', frames: [], tags: {}, url: 'https://sentry.io/issues/1' },
+      previousIssue: { id: '19999', identifier: 'OPS-3', regression: false },
+    });
+
+    expect(issue).toEqual({ id: '20001', identifier: 'OPS-12', url: `${standIn.url}/browse/OPS-12` });
+    const { fields } = standIn.requests[0].body as { fields: Record<string, unknown> };
+    expect(fields).toMatchObject({
+      project: { id: '10001' },
+      summary: '[DATABASE] Deadlock on orders',
+      issuetype: { name: 'Bug' },
+      priority: { name: 'Highest' },
+    });
+    expect(fields.description).toContain('Este erro já foi reportado em OPS-3');
+    expect(standIn.requests[1].body).toEqual({ object: { url: 'https://sentry.io/issues/1', title: 'Sentry issue' } });
+    expect(standIn.requests[2].body).toEqual({
+      type: { name: 'Relates' },
+      inwardIssue: { id: '20001' },
+      outwardIssue: { id: '19999' },
+    });
+  });
+
+  it('does not fail issue creation when linking fails', async () => {
+    routes['POST /rest/api/2/issue'] = () => ({ status: 201, body: { id: '20002', key: 'OPS-13' } });
+    routes['POST /rest/api/2/issueLink'] = () => ({ status: 400, body: { errorMessages: ['No link issue type named Relates'] } });
+
+    const issue = await jira.createIssue('10001', {}, analysis, 'fp-1', {
+      previousIssue: { id: '19999', identifier: 'OPS-3', regression: true },
+    });
+
+    expect(issue.identifier).toBe('OPS-13');
+  });
+
+  it('maps status categories and resolutions to issue states', async () => {
+    const issue = (category: string, resolution: string | null) => () => ({
+      status: 200,
+      body: { fields: { status: { statusCategory: { key: category } }, resolution: resolution && { name: resolution } } },
+    });
+    routes['GET /rest/api/2/issue/1'] = issue('indeterminate', null);
+    routes['GET /rest/api/2/issue/2'] = issue('done', 'Done');
+    routes['GET /rest/api/2/issue/3'] = issue('done', "Won't Do");
+
+    expect(await jira.getIssueState('1')).toBe('open');
+    expect(await jira.getIssueState('2')).toBe('completed');
+    expect(await jira.getIssueState('3')).toBe('canceled');
+    expect(await jira.getIssueState('4')).toBe('missing');
+  });
+
+  it('reopens issues through a transition to a to-do status', async () => {
+    routes['GET /rest/api/2/issue/2/transitions'] = () => ({
+      status: 200,
+      body: {
+        transitions: [
+          { id: '31', to: { statusCategory: { key: 'indeterminate' } } },
+          { id: '11', to: { statusCategory: { key: 'new' } } },
+        ],
+      },
+    });
+    routes['POST /rest/api/2/issue/2/transitions'] = () => ({ status: 204 });
+    routes['POST /rest/api/2/issue/2/comment'] = () => ({ status: 201, body: { id: '1' } });
+
+    await jira.reopenIssue('2', { payload: { message: 'deadlock' } });
+
+    expect(standIn.requests[1].body).toEqual({ transition: { id: '11' } });
+    expect((standIn.requests[2].body as { body: string }).body).toContain('## Regressão');
+  });
+
+  it('raises priority only when the issue is less urgent', async () => {
+    routes['GET /rest/api/2/issue/5'] = () => ({ status: 200, body: { fields: { priority: { name: 'Medium' } } } });
+    routes['PUT /rest/api/2/issue/5'] = () => ({ status: 204 });
+    routes['POST /rest/api/2/issue/5/comment'] = () => ({ status: 201, body: { id: '1' } });
+    routes['GET /rest/api/2/issue/6'] = () => ({ status: 200, body: { fields: { priority: { name: 'Highest' } } } });
+
+    expect(await jira.raisePriority('5', 2, 40)).toBe(true);
+    expect(standIn.requests[1].body).toEqual({ fields: { priority: { name: 'High' } } });
+    expect(await jira.raisePriority('6', 2, 40)).toBe(false);
+  });
+});
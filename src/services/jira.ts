@@ -0,0 +1,223 @@
+import type { OccurrenceComment } from '../lib/occurrence-updates.js';
+import type {
+  ClaudeAnalysis, IssueContext, IssueState, LatestOccurrence, OccurrenceUpdateCandidate, TeamInfo, TrackerIssue,
+} from '../types.js';
+import { BaseIssueTracker, requestJson, TrackerHttpError } from './tracker.js';
+import {
+  buildIssueDescription, buildIssueTitle, buildOccurrenceComment, buildPriorityComment, buildRegressionComment,
+  buildSourceLinkTitle,
+} from './issue-content.js';
+
+// Jira's default priority scheme, most urgent first; index + 1 is the Linear-style number
+const PRIORITY_NAMES = ['Highest', 'High', 'Medium', 'Low', 'Lowest'];
+
+const ANALYSIS_PRIORITIES: Record<ClaudeAnalysis['priority'], string> = {
+  critical: 'Highest',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+// Resolutions of done issues that were not fixed
+const CANCELED_RESOLUTIONS = new Set(["won't do", "won't fix", 'duplicate', 'cannot reproduce', 'declined']);
+
+// Status categories an issue is moved back to when reopened, in order of preference
+const REOPEN_CATEGORIES = ['new', 'indeterminate'];
+
+// Jira caps summaries at 255 characters
+const MAX_SUMMARY_LENGTH = 255;
+
+interface JiraProject {
+  id: string;
+  key: string;
+  name: string;
+}
+
+interface JiraIssueFields {
+  status?: { statusCategory?: { key: string } };
+  resolution?: { name: string } | null;
+  priority?: { name: string } | null;
+}
+
+interface JiraTransition {
+  id: string;
+  to: { statusCategory?: { key: string } };
+}
+
+/**
+ * Files issues in Jira projects through REST API v2, which takes descriptions
+ * and comments as plain text. Teams are projects, keyed by project key; issue
+ * IDs are Jira's numeric IDs and identifiers are issue keys (ENG-123).
+ */
+export class JiraService extends BaseIssueTracker {
+  readonly kind = 'jira';
+  private url: string;
+  private authorization: string;
+  private issueType: string;
+
+  constructor(config: { url: string; email: string; apiToken: string; issueType: string; concurrency?: number }) {
+    super('Jira', config.concurrency);
+    this.url = config.url.replace(/\/+$/, '');
+    this.authorization = `Basic ${Buffer.from(`${config.email}:${config.apiToken}`).toString('base64')}`;
+    this.issueType = config.issueType;
+  }
+
+  private request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    return this.api(() => requestJson<T>(method, `${this.url}/rest/api/2${path}`, {
+      Authorization: this.authorization,
+    }, body));
+  }
+
+  protected async listTeams(allowedKeys: string[] | null): Promise<TeamInfo[]> {
+    if (!allowedKeys) {
+      const projects = await this.request<JiraProject[]>('GET', '/project');
+      return projects.map(p => ({ id: p.id, key: p.key, name: p.name }));
+    }
+
+    const projects: TeamInfo[] = [];
+    for (const key of allowedKeys) {
+      try {
+        const p = await this.request<JiraProject>('GET', `/project/${encodeURIComponent(key)}`);
+        projects.push({ id: p.id, key: p.key, name: p.name });
+      } catch (err) {
+        // Reported as not found by fetchTeams
+        if (!(err instanceof TrackerHttpError && err.status === 404)) throw err;
+      }
+    }
+    return projects;
+  }
+
+  // Jira labels exist as soon as an issue uses them, but cannot contain spaces
+  protected async listLabels(): Promise<Array<{ id: string; name: string }>> {
+    return this.labelNames()
+      .filter(name => !/\s/.test(name))
+      .map(name => ({ id: name, name }));
+  }
+
+  protected async createLabel(_team: TeamInfo, name: string): Promise<string> {
+    throw new Error(`Jira labels cannot contain spaces: "${name}"`);
+  }
+
+  async createIssue(
+    teamId: string,
+    payload: Record<string, unknown>,
+    analysis: ClaudeAnalysis,
+    fingerprint: string,
+    context: IssueContext = {}
+  ): Promise<TrackerIssue> {
+    if (context.routing?.project) {
+      // The team already is the project
+      console.warn(`[Jira] Routing projects are not supported, ignoring project "${context.routing.project}"`);
+    }
+
+    const labels = this.issueLabels(teamId, analysis, payload, context);
+    const issue = await this.request<{ id: string; key: string }>('POST', '/issue', {
+      fields: {
+        project: { id: teamId },
+        summary: buildIssueTitle(analysis, this.prefix, context).slice(0, MAX_SUMMARY_LENGTH),
+        description: buildIssueDescription(payload, analysis, fingerprint, context, this.templates),
+        issuetype: { name: this.issueType },
+        priority: { name: ANALYSIS_PRIORITIES[analysis.priority] },
+        ...(labels.length > 0 && { labels }),
+      },
+    });
+
+    if (context.event?.url) {
+      await this.bestEffort(`attach link ${context.event.url}`, () => this.request('POST', `/issue/${issue.id}/remotelink`, {
+        object: { url: context.event!.url, title: buildSourceLinkTitle(context.event!.source) },
+      }));
+    }
+
+    if (context.routing?.assignee) {
+      // Account ID; an unknown account would reject the whole issue if set on creation
+      await this.bestEffort(`assign issue ${issue.key} to ${context.routing.assignee}`, () => this.request('PUT', `/issue/${issue.id}/assignee`, {
+        accountId: context.routing!.assignee,
+      }));
+    }
+
+    if (context.previousIssue) {
+      await this.bestEffort(`relate issue ${issue.key} to ${context.previousIssue.identifier}`, () => this.request('POST', '/issueLink', {
+        type: { name: 'Relates' },
+        inwardIssue: { id: issue.id },
+        outwardIssue: { id: context.previousIssue!.id },
+      }));
+    }
+
+    return { id: issue.id, identifier: issue.key, url: this.issueUrl(issue.key) };
+  }
+
+  async getIssueState(issueId: string): Promise<IssueState> {
+    let fields: JiraIssueFields;
+    try {
+      ({ fields } = await this.request<{ fields: JiraIssueFields }>('GET', `/issue/${encodeURIComponent(issueId)}?fields=status,resolution`));
+    } catch (err) {
+      if (err instanceof TrackerHttpError && err.status === 404) {
+        return 'missing';
+      }
+      throw err;
+    }
+
+    if (fields.status?.statusCategory?.key !== 'done') return 'open';
+    const resolution = fields.resolution?.name.toLowerCase();
+    return resolution && CANCELED_RESOLUTIONS.has(resolution) ? 'canceled' : 'completed';
+  }
+
+  // Applies the first transition back to a to-do (or in-progress) status and explains why
+  async reopenIssue(issueId: string, latest: LatestOccurrence): Promise<void> {
+    const { transitions } = await this.request<{ transitions: JiraTransition[] }>('GET', `/issue/${issueId}/transitions`);
+
+    const target = REOPEN_CATEGORIES
+      .map(category => transitions.find(t => t.to.statusCategory?.key === category))
+      .find(transition => transition !== undefined);
+    if (!target) {
+      throw new Error(`No transition to an open status found for issue ${issueId}`);
+    }
+
+    await this.request('POST', `/issue/${issueId}/transitions`, { transition: { id: target.id } });
+    await this.comment(issueId, buildRegressionComment(latest, this.templates));
+  }
+
+  async commentOccurrences(
+    issueId: string,
+    comment: OccurrenceComment,
+    occurrence: OccurrenceUpdateCandidate,
+    latest: LatestOccurrence
+  ): Promise<void> {
+    await this.comment(issueId, buildOccurrenceComment(comment, occurrence, latest, this.templates));
+  }
+
+  /**
+   * Raises the issue to the given priority (1 = Highest, 4 = Low). Issues
+   * already as urgent are left alone.
+   */
+  async raisePriority(issueId: string, priority: number, hourCount: number): Promise<boolean> {
+    const { fields } = await this.request<{ fields: JiraIssueFields }>('GET', `/issue/${issueId}?fields=priority`);
+    const current = fields.priority ? PRIORITY_NAMES.indexOf(fields.priority.name) + 1 : 0;
+    // 0: no priority, or one outside the default scheme
+    if (current !== 0 && current <= priority) {
+      return false;
+    }
+
+    await this.request('PUT', `/issue/${issueId}`, { fields: { priority: { name: PRIORITY_NAMES[priority - 1] } } });
+    await this.comment(issueId, buildPriorityComment(hourCount, this.templates));
+    return true;
+  }
+
+  issueUrl(identifier: string): string {
+    return `${this.url}/browse/${identifier}`;
+  }
+
+  private async comment(issueId: string, body: string): Promise<void> {
+    await this.request('POST', `/issue/${issueId}/comment`, { body });
+  }
+
+  // Links and assignees are extras: failures don't fail the job
+  private async bestEffort(action: string, call: () => Promise<unknown>): Promise<void> {
+    try {
+      await call();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      console.warn(`[Jira] Failed to ${action}: ${msg}`);
+    }
+  }
+}
@@ -1,91 +1,59 @@
-import { LinearClient } from '@linear/sdk';
-import type { ClaudeAnalysis, LinearIssue, TeamInfo } from '../types.js';
-
-export class LinearService {
+import { IssueRelationType, LinearClient, LinearError, LinearErrorType } from '@linear/sdk';
+import type { OccurrenceComment } from '../lib/occurrence-updates.js';
+import type {
+  ClaudeAnalysis, IssueContext, IssueState, LatestOccurrence, OccurrenceUpdateCandidate, TeamInfo, TrackerIssue,
+} from '../types.js';
+import { BaseIssueTracker } from './tracker.js';
+import {
+  buildIssueDescription, buildIssueTitle, buildOccurrenceComment, buildPriorityComment, buildRegressionComment,
+  buildSourceLinkTitle,
+} from './issue-content.js';
+
+// Workflow state types an issue is moved back to when reopened, in order of preference
+const REOPEN_STATE_TYPES = ['unstarted', 'backlog', 'triage'];
+
+export class LinearService extends BaseIssueTracker {
+  readonly kind = 'linear';
   private client: LinearClient;
-  private teams: Map<string, TeamInfo> = new Map();
-  private allowedTeamKeys: Set<string> | null = null;
-  private prefix: string | null = null;
+  // User IDs by configured assignee; null when no user matched
+  private users: Map<string, string | null> = new Map();
+  // Project IDs by routed project name; null when no project matched
+  private projects: Map<string, string | null> = new Map();
 
-  constructor(config: { apiKey: string }) {
+  constructor(config: { apiKey: string; concurrency?: number }) {
+    super('Linear', config.concurrency);
     this.client = new LinearClient({ apiKey: config.apiKey });
   }
 
-  setAllowedTeams(keys: string[]): void {
-    this.allowedTeamKeys = new Set(keys);
-    console.log(`[Linear] Filtering to teams: ${keys.join(', ')}`);
+  protected async listTeams(): Promise<TeamInfo[]> {
+    const result = await this.api(() => this.client.teams({ first: 100 }));
+    return result.nodes.map(team => ({ id: team.id, key: team.key, name: team.name }));
   }
 
-  setPrefix(prefix: string | null): void {
-    this.prefix = prefix;
-    if (prefix) {
-      console.log(`[Linear] Issue prefix set to: ${prefix}`);
-    }
+  // Team labels and workspace labels
+  protected async listLabels(team: TeamInfo): Promise<Array<{ id: string; name: string }>> {
+    const result = await this.api(() => this.client.issueLabels({
+      first: 250,
+      filter: { or: [{ team: { id: { eq: team.id } } }, { team: { null: true } }] },
+    }));
+    return result.nodes.map(label => ({ id: label.id, name: label.name }));
   }
 
-  async fetchTeams(): Promise<{ success: boolean; count: number }> {
-    try {
-      const result = await this.client.teams({ first: 100 });
-      for (const team of result.nodes) {
-        if (this.allowedTeamKeys && !this.allowedTeamKeys.has(team.key)) {
-          continue;
-        }
-        this.teams.set(team.key, {
-          id: team.id,
-          key: team.key,
-          name: team.name,
-        });
-      }
-
-      if (this.allowedTeamKeys) {
-        for (const key of this.allowedTeamKeys) {
-          if (!this.teams.has(key)) {
-            console.warn(`[Linear] Team "${key}" not found or deactivated`);
-          }
-        }
-      }
-
-      console.log(`[Linear] Loaded ${this.teams.size} teams`);
-      return { success: true, count: this.teams.size };
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Unknown error';
-      console.error(`[Linear] Failed to fetch teams: ${msg}`);
-      return { success: false, count: 0 };
+  protected async createLabel(team: TeamInfo, name: string): Promise<string> {
+    const result = await this.api(() => this.client.createIssueLabel({ name, teamId: team.id }));
+    if (!result.issueLabelId) {
+      throw new Error('Linear API returned no label');
     }
-  }
-
-  getTeamListForPrompt(): string {
-    if (this.teams.size === 0) return '';
-    return Array.from(this.teams.values())
-      .map(t => `- ${t.key}: ${t.name}`)
-      .join('\n');
-  }
-
-  getDefaultTeam(): { id: string; key: string } | null {
-    const first = this.teams.values().next().value;
-    return first ? { id: first.id, key: first.key } : null;
-  }
-
-  resolveTeamId(suggestedKey: string | null): { id: string; key: string } | null {
-    // Try suggested team first
-    if (suggestedKey) {
-      const team = this.teams.get(suggestedKey);
-      if (team) {
-        return { id: team.id, key: team.key };
-      }
-      console.warn(`[Linear] Team "${suggestedKey}" not found, using fallback`);
-    }
-
-    // Fallback to first team
-    return this.getDefaultTeam();
+    return result.issueLabelId;
   }
 
   async createIssue(
     teamId: string,
     payload: Record<string, unknown>,
     analysis: ClaudeAnalysis,
-    fingerprint: string
-  ): Promise<LinearIssue> {
+    fingerprint: string,
+    context: IssueContext = {}
+  ): Promise<TrackerIssue> {
     const priorityMap: Record<string, number> = {
       critical: 1,
       high: 2,
@@ -93,21 +61,32 @@ export class LinearService {
       low: 4,
     };
 
-    const baseTitle = `[${analysis.category.toUpperCase()}] ${analysis.summary}`;
-    const title = this.prefix ? `${this.prefix}: ${baseTitle}` : baseTitle;
-
-    const result = await this.client.createIssue({
+    const labelIds = this.issueLabels(teamId, analysis, payload, context);
+    const assigneeId = context.routing?.assignee ? await this.resolveAssignee(context.routing.assignee) : undefined;
+    const projectId = context.routing?.project ? await this.resolveProject(context.routing.project) : undefined;
+    const result = await this.api(() => this.client.createIssue({
       teamId,
-      title,
-      description: this.buildDescription(payload, analysis, fingerprint),
+      title: buildIssueTitle(analysis, this.prefix, context),
+      description: buildIssueDescription(payload, analysis, fingerprint, context, this.templates),
       priority: priorityMap[analysis.priority],
-    });
+      ...(labelIds.length > 0 && { labelIds }),
+      ...(assigneeId && { assigneeId }),
+      ...(projectId && { projectId }),
+    }));
 
-    const issue = await result.issue;
+    const issue = await this.api(() => result.issue ?? Promise.resolve(undefined));
     if (!issue) {
       throw new Error('Linear API returned no issue');
     }
 
+    if (context.event?.url) {
+      await this.attachLink(issue.id, context.event.url, buildSourceLinkTitle(context.event.source));
+    }
+
+    if (context.previousIssue) {
+      await this.relateIssue(issue.id, context.previousIssue.id);
+    }
+
     return {
       id: issue.id,
       identifier: issue.identifier,
@@ -115,110 +94,155 @@ export class LinearService {
     };
   }
 
-  private buildDescription(
-    payload: Record<string, unknown>,
-    analysis: ClaudeAnalysis,
-    fingerprint: string
-  ): string {
-    const files = analysis.affected_files.length > 0
-      ? analysis.affected_files.map(f => `- \`${f}\``).join('\n')
-      : '- Não identificado';
-
-    // Support both new and legacy formats
-    const investigationSteps = analysis.investigation_log || analysis.investigation_steps || [];
-    const steps = investigationSteps
-      .map((s, i) => `${i + 1}. ${s}`)
-      .join('\n');
-
-    // Build exception section
-    const exceptionSection = analysis.exception
-      ? `## Exception\n\n**${analysis.exception.type}**: ${analysis.exception.message}\n\n`
-      : '';
-
-    // Build stack trace section
-    const stackTraceSection = analysis.stack_trace_summary
-      ? `### Stack Trace (Resumo)\n\`\`\`\n${analysis.stack_trace_summary}\n\`\`\`\n\n`
-      : '';
-
-    // Build root cause section (support both new and legacy)
-    const rootCauseContent = analysis.root_cause
-      ? `**Hipótese**: ${analysis.root_cause.hypothesis}\n\n**Confiança**: ${analysis.root_cause.confidence}\n\n**Evidência**: ${analysis.root_cause.evidence}`
-      : analysis.root_cause_hypothesis || 'Não identificada';
-
-    // Build impact section
-    const impactSection = analysis.impact
-      ? `### Impacto\n\n**Descrição**: ${analysis.impact.description}\n\n**Escopo**: ${analysis.impact.scope}\n\n`
-      : '';
-
-    // Build fix section (support both new and legacy)
-    let fixSection = '';
-    if (analysis.fix) {
-      fixSection = `### Correção Proposta\n\n${analysis.fix.suggestion}\n\n`;
-      if (analysis.fix.code_example) {
-        fixSection += `**Exemplo de código**:\n\`\`\`\n${analysis.fix.code_example}\n\`\`\`\n\n`;
-      }
-      if (analysis.fix.files_to_modify.length > 0) {
-        fixSection += `**Arquivos a modificar**: ${analysis.fix.files_to_modify.map(f => `\`${f}\``).join(', ')}\n\n`;
-      }
-    } else if (analysis.suggested_fix) {
-      fixSection = `### Sugestão de Fix\n\n${analysis.suggested_fix}\n\n`;
-    }
-
-    // Build prevention section
-    const preventionSection = analysis.prevention
-      ? `### Prevenção\n\n**Teste sugerido**: ${analysis.prevention.test_suggestion}\n\n${analysis.prevention.monitoring_suggestion ? `**Monitoramento**: ${analysis.prevention.monitoring_suggestion}\n\n` : ''}`
-      : '';
-
-    // Build code snippets section (support both new and legacy)
-    let codeSection = '';
-    if (analysis.related_code_snippets && analysis.related_code_snippets.length > 0) {
-      codeSection = '### Código Relacionado\n\n';
-      for (const snippet of analysis.related_code_snippets) {
-        codeSection += `**${snippet.file}** (linhas ${snippet.lines})\n`;
-        codeSection += `*${snippet.relevance}*\n\`\`\`\n${snippet.code}\n\`\`\`\n\n`;
+  /**
+   * State of an issue for deduplication. Issues that no longer exist (deleted,
+   * or not visible to the API key) are 'missing'.
+   */
+  async getIssueState(issueId: string): Promise<IssueState> {
+    let issue;
+    try {
+      issue = await this.api(() => this.client.issue(issueId));
+    } catch (err) {
+      if (err instanceof LinearError && err.type === LinearErrorType.InvalidInput) {
+        return 'missing';
       }
-    } else if (analysis.related_code) {
-      codeSection = `### Código Relacionado\n\`\`\`\n${analysis.related_code}\n\`\`\`\n\n`;
+      throw err;
     }
 
-    // Build additional context section
-    const additionalContextSection = analysis.additional_context
-      ? `### Contexto Adicional\n\n${analysis.additional_context}\n\n`
-      : '';
-
-    return `${exceptionSection}## Análise (Claude Code)
-
-${stackTraceSection}### Causa Raiz
+    const state = await this.api(() => issue.state ?? Promise.resolve(undefined));
+    if (state?.type === 'completed') return 'completed';
+    if (state?.type === 'canceled') return 'canceled';
+    return 'open';
+  }
 
-${rootCauseContent}
+  // Moves a completed issue back to the team's first open state and explains why
+  async reopenIssue(issueId: string, latest: LatestOccurrence): Promise<void> {
+    const issue = await this.api(() => this.client.issue(issueId));
+    const teamId = issue.teamId;
+    if (!teamId) {
+      throw new Error(`Issue ${issue.identifier} has no team`);
+    }
+    const states = await this.api(() => this.client.workflowStates({
+      filter: { team: { id: { eq: teamId } } },
+    }));
+
+    const target = REOPEN_STATE_TYPES
+      .map(type => states.nodes.filter(s => s.type === type).sort((a, b) => a.position - b.position)[0])
+      .find(state => state !== undefined);
+    if (!target) {
+      throw new Error(`No open workflow state found for issue ${issue.identifier}`);
+    }
 
-${impactSection}### Arquivos Afetados
+    await this.api(() => this.client.updateIssue(issueId, { stateId: target.id }));
+    await this.api(() => this.client.createComment({
+      issueId,
+      body: buildRegressionComment(latest, this.templates),
+    }));
+  }
 
-${files}
+  // Tells an existing issue that its error keeps happening
+  async commentOccurrences(
+    issueId: string,
+    comment: OccurrenceComment,
+    occurrence: OccurrenceUpdateCandidate,
+    latest: LatestOccurrence
+  ): Promise<void> {
+    const body = buildOccurrenceComment(comment, occurrence, latest, this.templates);
+    await this.api(() => this.client.createComment({ issueId, body }));
+  }
 
-${codeSection}${fixSection}${preventionSection}### Investigação Realizada
+  /**
+   * Raises the issue to the given priority (1 = urgent, 4 = low). Issues that
+   * are already as urgent are left alone. Returns whether the issue changed.
+   */
+  async raisePriority(issueId: string, priority: number, hourCount: number): Promise<boolean> {
+    const issue = await this.api(() => this.client.issue(issueId));
+    // 0 means no priority
+    if (issue.priority !== 0 && issue.priority <= priority) {
+      return false;
+    }
 
-${steps}
+    await this.api(() => this.client.updateIssue(issueId, { priority }));
+    await this.api(() => this.client.createComment({
+      issueId,
+      body: buildPriorityComment(hourCount, this.templates),
+    }));
+    return true;
+  }
 
-${additionalContextSection}---
+  issueUrl(identifier: string): string {
+    return `https://linear.app/issue/${identifier}`;
+  }
 
-## Payload Original
+  /**
+   * ID of the user matching an assignee by email, display name or name.
+   * Unknown users are warned about and the issue is created unassigned.
+   */
+  private async resolveAssignee(assignee: string): Promise<string | undefined> {
+    if (!this.users.has(assignee)) {
+      try {
+        const result = await this.api(() => this.client.users({
+          first: 1,
+          filter: {
+            or: [
+              { email: { eqIgnoreCase: assignee } },
+              { displayName: { eqIgnoreCase: assignee } },
+              { name: { eqIgnoreCase: assignee } },
+            ],
+          },
+        }));
+        this.users.set(assignee, result.nodes[0]?.id ?? null);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : 'Unknown error';
+        console.warn(`[Linear] Failed to look up user "${assignee}": ${msg}`);
+        return undefined;
+      }
+    }
 
-\`\`\`json
-${JSON.stringify(payload, null, 2)}
-\`\`\`
+    const id = this.users.get(assignee);
+    if (!id) {
+      console.warn(`[Linear] User "${assignee}" not found, creating the issue unassigned`);
+    }
+    return id ?? undefined;
+  }
 
----
+  // ID of the project with this name; unknown projects are warned about and left off the issue
+  private async resolveProject(name: string): Promise<string | undefined> {
+    if (!this.projects.has(name)) {
+      try {
+        const result = await this.api(() => this.client.projects({ first: 1, filter: { name: { eqIgnoreCase: name } } }));
+        this.projects.set(name, result.nodes[0]?.id ?? null);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : 'Unknown error';
+        console.warn(`[Linear] Failed to look up project "${name}": ${msg}`);
+        return undefined;
+      }
+    }
 
-### Ação Necessária
+    const id = this.projects.get(name);
+    if (!id) {
+      console.warn(`[Linear] Project "${name}" not found, creating the issue without it`);
+    }
+    return id ?? undefined;
+  }
 
-- [ ] Investigar causa raiz
-- [ ] Implementar correção
-- [ ] Adicionar teste para prevenir regressão
-- [ ] Validar em produção
+  // Links the source issue to the Linear issue; failures don't fail the job
+  private async attachLink(issueId: string, url: string, title: string): Promise<void> {
+    try {
+      await this.api(() => this.client.attachmentLinkURL(issueId, url, { title }));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      console.warn(`[Linear] Failed to attach link ${url}: ${msg}`);
+    }
+  }
 
----
-*Fingerprint: \`${fingerprint}\`*
-*Analisado por Claude Code*`;
+  // Links a new issue to the previous issue of its fingerprint; failures don't fail the job
+  private async relateIssue(issueId: string, relatedIssueId: string): Promise<void> {
+    try {
+      await this.api(() => this.client.createIssueRelation({ issueId, relatedIssueId, type: IssueRelationType.Related }));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      console.warn(`[Linear] Failed to relate issue ${issueId} to ${relatedIssueId}: ${msg}`);
+    }
   }
 }
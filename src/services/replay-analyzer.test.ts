@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ReplayAnalyzer } from './replay-analyzer.js';
+import { ClaudeExecutionError } from './claude.js';
+import type { ClaudeSessionEvent } from '../types.js';
+
+function analysisJson(summary: string, priority = 'high'): string {
+  return JSON.stringify({
+    category: 'bug',
+    priority,
+    summary,
+    affected_files: ['src/checkout.ts'],
+    root_cause: { hypothesis: 'user is not loaded', confidence: 'high', evidence: 'stack trace' },
+    fix: { suggestion: 'Check user', files_to_modify: ['src/checkout.ts'] },
+    investigation_log: ['Read checkout.ts'],
+    suggested_team: 'ENG',
+  });
+}
+
+// A recorded claude --output-format stream-json session
+function session(result: string): string {
+  return [
+    JSON.stringify({ type: 'system', subtype: 'init' }),
+    JSON.stringify({ type: 'assistant', message: { content: [{ type: 'tool_use', id: 't1', name: 'Grep', input: { pattern: 'checkout' } }] } }),
+    JSON.stringify({ type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: 'src/checkout.ts:12' }] } }),
+    JSON.stringify({ type: 'result', result: '```json\n' + result + '\n```' }),
+  ].join('\n') + '\n';
+}
+
+describe('ReplayAnalyzer', () => {
+  let dir: string;
+  let logDir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lineu-replay-'));
+    logDir = path.join(dir, 'logs');
+    fs.writeFileSync(path.join(dir, 'a-first.jsonl'), session(analysisJson('First')));
+    fs.writeFileSync(path.join(dir, 'b-second.jsonl'), session(analysisJson('Second', 'Urgent')));
+    fs.writeFileSync(path.join(dir, 'TypeError.jsonl'), session(analysisJson('Type error')));
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a session');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('plays sessions in name order and prefers the one named after the exception type', async () => {
+    const analyzer = new ReplayAnalyzer(dir, logDir);
+    const summaries = [];
+    for (let i = 0; i < 4; i++) {
+      summaries.push((await analyzer.analyze('/repo', {}, i + 1)).summary);
+    }
+    const typeError = await analyzer.analyze('/repo', {}, 5, undefined, { source: 'sentry', exceptionType: 'TypeError', frames: [], tags: {} });
+
+    expect(analyzer.name).toBe(`replay:${dir}`);
+    expect(summaries).toEqual(['Type error', 'First', 'Second', 'Type error']);
+    expect(typeError.summary).toBe('Type error');
+  });
+
+  it('validates the replayed output and writes the session log', async () => {
+    const analyzer = new ReplayAnalyzer(dir, logDir);
+    await analyzer.analyze('/repo', {}, 1);
+    await analyzer.analyze('/repo', {}, 2);
+    const replayed = await analyzer.analyze('/repo', {}, 3);
+
+    expect(replayed.priority).toBe('critical');
+    const events = fs.readFileSync(path.join(logDir, 'claude-3.jsonl'), 'utf-8').trim().split('\n')
+      .map(line => JSON.parse(line) as ClaudeSessionEvent);
+    expect(events.map(e => e.type)).toEqual(['tool_use', 'tool_result', 'result', 'validation']);
+    expect(events[3]).toMatchObject({ valid: true, coercions: ['priority: "Urgent" coerced to "critical"'] });
+  });
+
+  it('fails invalid sessions permanently', async () => {
+    fs.writeFileSync(path.join(dir, 'Broken.jsonl'), session('{"category": "bug", "summary": "No fields"}'));
+    const analyzer = new ReplayAnalyzer(dir, logDir);
+
+    const err = await analyzer.analyze('/repo', {}, 1, undefined, { source: 'generic', exceptionType: 'Broken', frames: [], tags: {} })
+      .catch(e => e);
+
+    expect(err).toBeInstanceOf(ClaudeExecutionError);
+    expect(err.retryable).toBe(false);
+    expect(err.message).toMatch(/^Invalid recorded session Broken\.jsonl: priority is required/);
+  });
+
+  it('requires a directory with recorded sessions', () => {
+    expect(() => new ReplayAnalyzer(path.join(dir, 'missing'))).toThrow('Replay directory not found');
+    expect(() => new ReplayAnalyzer(logDir + '-none')).toThrow('Replay directory not found');
+    fs.mkdirSync(logDir);
+    expect(() => new ReplayAnalyzer(logDir)).toThrow(`No recorded sessions (*.jsonl) in ${logDir}`);
+  });
+});
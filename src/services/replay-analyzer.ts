@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { checkOutput, ClaudeExecutionError, DEFAULT_LOG_DIR, openSessionLog, StreamJsonReader } from './claude.js';
+import type { Analyzer } from './analyzer.js';
+import type { ClaudeAnalysis, ErrorEvent } from '../types.js';
+
+/**
+ * Plays back recorded claude stream-json sessions (*.jsonl) instead of running
+ * the CLI. A session named after the event's exception type is used when there
+ * is one (TypeError.jsonl); otherwise sessions are played in name order, cycling.
+ * Replays go through the same session log and validation as live analyses.
+ */
+export class ReplayAnalyzer implements Analyzer {
+  readonly name: string;
+  private sessions: string[];
+  private next = 0;
+
+  constructor(private dir: string, private logDir = DEFAULT_LOG_DIR) {
+    this.name = `replay:${dir}`;
+
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir);
+    } catch {
+      throw new Error(`Replay directory not found: ${dir}`);
+    }
+    this.sessions = files.filter(f => f.endsWith('.jsonl')).sort();
+    if (this.sessions.length === 0) {
+      throw new Error(`No recorded sessions (*.jsonl) in ${dir}`);
+    }
+  }
+
+  private pickSession(event?: ErrorEvent): string {
+    const named = event?.exceptionType && `${event.exceptionType}.jsonl`;
+    if (named && this.sessions.includes(named)) return named;
+    return this.sessions[this.next++ % this.sessions.length];
+  }
+
+  async analyze(
+    _repoPath: string,
+    _payload: Record<string, unknown>,
+    jobId?: number,
+    _teamList?: string,
+    event?: ErrorEvent
+  ): Promise<ClaudeAnalysis> {
+    const session = this.pickSession(event);
+    const log = openSessionLog(jobId, this.logDir);
+    const startTime = Date.now();
+
+    console.log(`[Replay] Playing back ${session}, log: ${log.logFile}`);
+    log.logStream.write(`=== Replay of ${path.join(this.dir, session)} at ${new Date().toISOString()} ===\n`);
+
+    try {
+      const recorded = fs.readFileSync(path.join(this.dir, session), 'utf-8');
+      log.logStream.write(recorded);
+
+      const reader = new StreamJsonReader(log.logEvent);
+      reader.push(recorded);
+      const output = reader.end();
+      log.logEvent({ ts: new Date().toISOString(), type: 'result', duration_ms: Date.now() - startTime });
+
+      const attempt = checkOutput(output, log.logEvent);
+      if (!attempt.valid) {
+        // Playing the same recording again cannot fix it
+        throw new ClaudeExecutionError(`Invalid recorded session ${session}: ${attempt.errors.join('; ')}`, undefined, false);
+      }
+      return attempt.analysis;
+    } finally {
+      await log.close();
+    }
+  }
+}
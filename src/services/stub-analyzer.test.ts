@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { StubAnalyzer, stubAnalysis } from './stub-analyzer.js';
+
+describe('stubAnalysis', () => {
+  it('classifies the error and points at its in-app frames', () => {
+    const analysis = stubAnalysis({}, {
+      source: 'sentry',
+      exceptionType: 'PG::TRDeadlockDetected',
+      message: 'deadlock detected',
+      frames: [
+        { file: 'app/models/order.rb', line: 42, inApp: true },
+        { file: 'gems/activerecord/base.rb', line: 7, inApp: false },
+        { file: 'app/models/order.rb', line: 42, inApp: true },
+      ],
+      tags: {},
+    });
+
+    expect(analysis).toMatchObject({
+      category: 'database',
+      priority: 'high',
+      summary: 'PG::TRDeadlockDetected: deadlock detected',
+      affected_files: ['app/models/order.rb:42'],
+      fix: { files_to_modify: ['app/models/order.rb'] },
+      suggested_team: null,
+    });
+    expect(analysis.investigation_log).toEqual(['Stub analyzer: rule database']);
+  });
+
+  it('falls back to a medium priority bug', () => {
+    expect(stubAnalysis({ message: 'Something odd happened' })).toMatchObject({
+      category: 'bug',
+      priority: 'medium',
+      summary: 'Error: Something odd happened',
+      affected_files: [],
+    });
+  });
+});
+
+describe('StubAnalyzer', () => {
+  it('extracts the event from generic payloads', async () => {
+    const analysis = await new StubAnalyzer().analyze('/repo', {
+      message: 'connect ECONNREFUSED 10.0.0.1:5432',
+      stack: 'Error: connect ECONNREFUSED 10.0.0.1:5432\n    at TCPConnectWrap.afterConnect (src/db/pool.js:12:5)',
+    });
+
+    expect(analysis).toMatchObject({ category: 'external-service', priority: 'high', affected_files: ['src/db/pool.js:12'] });
+  });
+});
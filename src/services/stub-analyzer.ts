@@ -0,0 +1,73 @@
+import { parseGenericPayload } from '../adapters/generic.js';
+import type { Analyzer } from './analyzer.js';
+import type { ClaudeAnalysis, ErrorEvent } from '../types.js';
+
+interface StubRule {
+  name: string;
+  // Tested against "ExceptionType: message"
+  pattern: RegExp;
+  category: ClaudeAnalysis['category'];
+  priority: ClaudeAnalysis['priority'];
+}
+
+// First match wins; unmatched errors are medium priority bugs
+const STUB_RULES: StubRule[] = [
+  { name: 'out-of-resources', pattern: /out of memory|\bOOM\b|ENOSPC|ENOMEM|no space left/i, category: 'infrastructure', priority: 'critical' },
+  { name: 'database', pattern: /deadlock|\bSQL|database|PG::|ActiveRecord|Sequel|constraint violation/i, category: 'database', priority: 'high' },
+  { name: 'network', pattern: /ETIMEDOUT|ECONNREFUSED|ECONNRESET|ENOTFOUND|socket hang up|timed? ?out|\b50[234]\b/i, category: 'external-service', priority: 'high' },
+  { name: 'security', pattern: /forbidden|unauthori[sz]ed|csrf|injection|permission denied/i, category: 'security', priority: 'high' },
+  { name: 'configuration', pattern: /environment variable|missing (config|key|setting)|not configured|ENOENT/i, category: 'configuration', priority: 'medium' },
+  { name: 'performance', pattern: /slow|latency|took \d+ ?m?s|too many requests/i, category: 'performance', priority: 'medium' },
+];
+
+const SUMMARY_LIMIT = 80;
+
+/**
+ * Deterministic analyzer for offline runs and tests: classifies the error with
+ * fixed rules and points at the in-app frames of its stack trace. It reads no
+ * code, suggests no team and writes no session log.
+ */
+export class StubAnalyzer implements Analyzer {
+  readonly name = 'stub';
+
+  async analyze(
+    _repoPath: string,
+    payload: Record<string, unknown>,
+    _jobId?: number,
+    _teamList?: string,
+    event?: ErrorEvent
+  ): Promise<ClaudeAnalysis> {
+    return stubAnalysis(payload, event ?? parseGenericPayload(payload) ?? undefined);
+  }
+}
+
+// Exported for testing
+export function stubAnalysis(payload: Record<string, unknown>, event?: ErrorEvent): ClaudeAnalysis {
+  const type = event?.exceptionType ?? 'Error';
+  const message = event?.message ?? (typeof payload.message === 'string' ? payload.message : 'Unknown error');
+  const text = `${type}: ${message}`;
+  const rule = STUB_RULES.find(r => r.pattern.test(text));
+
+  const frames = event?.frames ?? [];
+  const inApp = frames.some(f => f.inApp) ? frames.filter(f => f.inApp) : frames;
+  const files = [...new Set(inApp.filter(f => f.file).map(f => (f.line ? `${f.file}:${f.line}` : f.file!)))];
+
+  return {
+    category: rule?.category ?? 'bug',
+    priority: rule?.priority ?? 'medium',
+    summary: text.length > SUMMARY_LIMIT ? `${text.slice(0, SUMMARY_LIMIT - 3)}...` : text,
+    exception: { type, message },
+    affected_files: files,
+    root_cause: {
+      hypothesis: `${type} raised${files.length > 0 ? ` at ${files[0]}` : ''}`,
+      confidence: 'low',
+      evidence: rule ? `Stub rule ${rule.name} matched "${text}"` : 'No stub rule matched',
+    },
+    fix: {
+      suggestion: 'Investigate the affected files (stub analysis, no code was read)',
+      files_to_modify: [...new Set(files.map(f => f.replace(/:\d+$/, '')))],
+    },
+    investigation_log: [`Stub analyzer: ${rule ? `rule ${rule.name}` : 'no rule matched'}`],
+    suggested_team: null,
+  };
+}
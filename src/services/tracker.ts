@@ -0,0 +1,308 @@
+import { createLimiter, type Limiter } from '../lib/limiter.js';
+import { mappedLabelNames, selectLabels } from '../lib/labels.js';
+import type { OccurrenceComment } from '../lib/occurrence-updates.js';
+import type { TemplateSet } from '../lib/templates.js';
+import type {
+  ClaudeAnalysis, IssueContext, IssueState, LabelMapping, LatestOccurrence, OccurrenceUpdateCandidate,
+  TeamInfo, TrackerIssue, TrackerKind,
+} from '../types.js';
+
+/**
+ * Where issues are filed. Routing targets ("teams") are Linear teams,
+ * GitHub repositories or Jira projects, listed to Claude by key.
+ */
+export interface IssueTracker {
+  readonly kind: TrackerKind;
+  // Restricts routing to these team keys
+  setAllowedTeams(keys: string[]): void;
+  setPrefix(prefix: string | null): void;
+  setLabelMapping(mapping: LabelMapping): void;
+  // Templates issue descriptions are rendered from; the built-in default language when unset
+  setTemplates(templates: TemplateSet): void;
+  // Also resolves these label names (labels of routing rules)
+  addLabels(names: string[]): void;
+  fetchTeams(): Promise<{ success: boolean; count: number }>;
+  // Looks up the mapped and added labels in every fetched team; call after fetchTeams
+  resolveLabels(): Promise<void>;
+  getTeamListForPrompt(): string;
+  // The team with exactly this key, or null when it is not available
+  findTeam(key: string): { id: string; key: string } | null;
+  createIssue(
+    teamId: string,
+    payload: Record<string, unknown>,
+    analysis: ClaudeAnalysis,
+    fingerprint: string,
+    context?: IssueContext
+  ): Promise<TrackerIssue>;
+  // Issues that no longer exist are 'missing'
+  getIssueState(issueId: string): Promise<IssueState>;
+  reopenIssue(issueId: string, latest: LatestOccurrence): Promise<void>;
+  commentOccurrences(
+    issueId: string,
+    comment: OccurrenceComment,
+    occurrence: OccurrenceUpdateCandidate,
+    latest: LatestOccurrence
+  ): Promise<void>;
+  // priority: 1 = urgent to 4 = low. Returns whether the issue changed
+  raisePriority(issueId: string, priority: number, hourCount: number): Promise<boolean>;
+  // Web page of an issue, from its identifier
+  issueUrl(identifier: string): string;
+}
+
+/**
+ * Team routing, label mapping, issue prefix and API concurrency shared by the trackers.
+ * Subclasses list their teams and implement the issue operations.
+ */
+export abstract class BaseIssueTracker implements IssueTracker {
+  abstract readonly kind: TrackerKind;
+  protected teams: Map<string, TeamInfo> = new Map();
+  protected allowedTeamKeys: Set<string> | null = null;
+  protected prefix: string | null = null;
+  protected labelMapping: LabelMapping | null = null;
+  protected templates: TemplateSet | undefined;
+  private addedLabels: string[] = [];
+  // Label IDs by team ID, then by lowercased label name
+  private labels: Map<string, Map<string, string>> = new Map();
+  // Bounds concurrent API calls so a burst of jobs does not trip the tracker's rate limit
+  private limiter: Limiter;
+
+  // name: prefix of log lines, e.g. "Linear"
+  constructor(protected readonly name: string, concurrency = 2) {
+    this.limiter = createLimiter(concurrency);
+  }
+
+  protected api<T>(call: () => Promise<T>): Promise<T> {
+    return this.limiter.run(call);
+  }
+
+  /**
+   * Teams the tracker can file issues in. allowedKeys is passed so trackers
+   * that cannot list everything (GitHub) can look each allowed team up.
+   */
+  protected abstract listTeams(allowedKeys: string[] | null): Promise<TeamInfo[]>;
+
+  // Labels available to issues of the team
+  protected abstract listLabels(team: TeamInfo): Promise<Array<{ id: string; name: string }>>;
+
+  // Creates a label in the team and returns its ID
+  protected abstract createLabel(team: TeamInfo, name: string): Promise<string>;
+
+  setAllowedTeams(keys: string[]): void {
+    this.allowedTeamKeys = new Set(keys);
+    console.log(`[${this.name}] Filtering to teams: ${keys.join(', ')}`);
+  }
+
+  setPrefix(prefix: string | null): void {
+    this.prefix = prefix;
+    if (prefix) {
+      console.log(`[${this.name}] Issue prefix set to: ${prefix}`);
+    }
+  }
+
+  setLabelMapping(mapping: LabelMapping): void {
+    this.labelMapping = mapping;
+  }
+
+  setTemplates(templates: TemplateSet): void {
+    this.templates = templates;
+  }
+
+  addLabels(names: string[]): void {
+    this.addedLabels.push(...names);
+  }
+
+  // Every label name issues can get, without duplicates
+  protected labelNames(): string[] {
+    return [...new Set([...(this.labelMapping ? mappedLabelNames(this.labelMapping) : []), ...this.addedLabels])];
+  }
+
+  /**
+   * Resolves every mapped label in every team, creating missing ones when
+   * the mapping asks for it. Labels that stay missing are only warned about:
+   * issues are created without them.
+   */
+  async resolveLabels(): Promise<void> {
+    const names = this.labelNames();
+    if (names.length === 0) return;
+
+    for (const team of this.teams.values()) {
+      let existing: Map<string, string>;
+      try {
+        existing = new Map((await this.listLabels(team)).map(label => [label.name.toLowerCase(), label.id]));
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : 'Unknown error';
+        console.warn(`[${this.name}] Failed to load labels of team ${team.key}: ${msg}`);
+        continue;
+      }
+
+      for (const name of names) {
+        if (existing.has(name.toLowerCase())) continue;
+        if (!this.labelMapping?.createMissing) {
+          console.warn(`[${this.name}] Label "${name}" not found in team ${team.key}`);
+          continue;
+        }
+        try {
+          existing.set(name.toLowerCase(), await this.createLabel(team, name));
+          console.log(`[${this.name}] Created label "${name}" in team ${team.key}`);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : 'Unknown error';
+          console.warn(`[${this.name}] Failed to create label "${name}" in team ${team.key}: ${msg}`);
+        }
+      }
+      this.labels.set(team.id, existing);
+    }
+  }
+
+  // IDs of the mapped and routed labels for a new issue; unresolved labels are skipped
+  protected issueLabels(
+    teamId: string,
+    analysis: ClaudeAnalysis,
+    payload: Record<string, unknown>,
+    context: IssueContext
+  ): string[] {
+    const names = new Set([
+      ...(this.labelMapping ? selectLabels(this.labelMapping, analysis, payload, context.event) : []),
+      ...(context.routing?.labels ?? []),
+    ]);
+    const resolved = this.labels.get(teamId);
+    const ids: string[] = [];
+    for (const name of names) {
+      const id = resolved?.get(name.toLowerCase());
+      if (id) {
+        ids.push(id);
+      } else {
+        console.warn(`[${this.name}] Label "${name}" is not available, creating the issue without it`);
+      }
+    }
+    return ids;
+  }
+
+  async fetchTeams(): Promise<{ success: boolean; count: number }> {
+    try {
+      const allowed = this.allowedTeamKeys ? [...this.allowedTeamKeys] : null;
+      for (const team of await this.listTeams(allowed)) {
+        if (this.allowedTeamKeys && !this.allowedTeamKeys.has(team.key)) {
+          continue;
+        }
+        this.teams.set(team.key, team);
+      }
+
+      if (this.allowedTeamKeys) {
+        for (const key of this.allowedTeamKeys) {
+          if (!this.teams.has(key)) {
+            console.warn(`[${this.name}] Team "${key}" not found or deactivated`);
+          }
+        }
+      }
+
+      console.log(`[${this.name}] Loaded ${this.teams.size} teams`);
+      return { success: true, count: this.teams.size };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      console.error(`[${this.name}] Failed to fetch teams: ${msg}`);
+      return { success: false, count: 0 };
+    }
+  }
+
+  getTeamListForPrompt(): string {
+    if (this.teams.size === 0) return '';
+    return Array.from(this.teams.values())
+      .map(t => `- ${t.key}: ${t.name}`)
+      .join('\n');
+  }
+
+  findTeam(key: string): { id: string; key: string } | null {
+    const team = this.teams.get(key);
+    return team ? { id: team.id, key: team.key } : null;
+  }
+
+  abstract createIssue(
+    teamId: string,
+    payload: Record<string, unknown>,
+    analysis: ClaudeAnalysis,
+    fingerprint: string,
+    context?: IssueContext
+  ): Promise<TrackerIssue>;
+  abstract getIssueState(issueId: string): Promise<IssueState>;
+  abstract reopenIssue(issueId: string, latest: LatestOccurrence): Promise<void>;
+  abstract commentOccurrences(
+    issueId: string,
+    comment: OccurrenceComment,
+    occurrence: OccurrenceUpdateCandidate,
+    latest: LatestOccurrence
+  ): Promise<void>;
+  abstract raisePriority(issueId: string, priority: number, hourCount: number): Promise<boolean>;
+  abstract issueUrl(identifier: string): string;
+}
+
+// Non-2xx response of a REST tracker API (GitHub, Jira)
+export class TrackerHttpError extends Error {
+  // retryAfter: seconds the API asked us to wait (rate limits)
+  constructor(message: string, public readonly status: number, public readonly retryAfter?: number) {
+    super(message);
+    this.name = 'TrackerHttpError';
+  }
+}
+
+// Seconds to wait from Retry-After, or from GitHub's exhausted rate limit window
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter && /^\d+$/.test(retryAfter)) {
+    return parseInt(retryAfter, 10);
+  }
+  const reset = headers.get('x-ratelimit-reset');
+  if (headers.get('x-ratelimit-remaining') === '0' && reset && /^\d+$/.test(reset)) {
+    return Math.max(1, parseInt(reset, 10) - Math.floor(Date.now() / 1000));
+  }
+  return undefined;
+}
+
+// Error text of GitHub ({ message }) and Jira ({ errorMessages, errors }) responses
+function describeError(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    const messages = [
+      ...(typeof parsed.message === 'string' ? [parsed.message] : []),
+      ...(Array.isArray(parsed.errorMessages) ? parsed.errorMessages : []),
+      ...Object.entries((parsed.errors ?? {}) as Record<string, unknown>)
+        .filter(([, v]) => typeof v === 'string')
+        .map(([k, v]) => `${k}: ${v}`),
+    ];
+    if (messages.length > 0) return messages.join('; ');
+  } catch {
+    // Not JSON
+  }
+  return body.slice(0, 200);
+}
+
+/**
+ * JSON request to a REST tracker API. Returns undefined for empty responses
+ * (204) and throws TrackerHttpError for non-2xx responses.
+ */
+export async function requestJson<T>(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Accept: 'application/json',
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    const path = new URL(url).pathname;
+    throw new TrackerHttpError(
+      `${method} ${path} failed with ${response.status}: ${describeError(text)}`,
+      response.status,
+      response.status === 429 || response.status === 403 ? parseRetryAfter(response.headers) : undefined
+    );
+  }
+  return (text ? JSON.parse(text) : undefined) as T;
+}
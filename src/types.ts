@@ -13,19 +13,82 @@ export interface LineuConfig {
     maxTurns: number;
     timeout: number;
   };
-  linear: {
+  // Issue tracker receiving the issues; only its section below is set
+  tracker: TrackerKind;
+  linear?: {
     apiKey: string;
+    // Linear API calls in flight at once, shared by the worker and the dashboard
+    concurrency: number;
+    // Signing secret of the Linear webhook; /webhook/linear is only enabled when set
+    webhookSecret?: string;
+  };
+  github?: {
+    token: string;
+    // REST API root, e.g. https://github.example.com/api/v3 for GitHub Enterprise
+    apiUrl: string;
+    // GitHub API calls in flight at once, shared by the worker and the dashboard
+    concurrency: number;
+  };
+  jira?: {
+    // Site root, e.g. https://acme.atlassian.net
+    url: string;
+    email: string;
+    apiToken: string;
+    // Issue type of created issues
+    issueType: string;
+    // Jira API calls in flight at once, shared by the worker and the dashboard
+    concurrency: number;
   };
   deduplication: {
     windowDays: number;
+    // In-app stack frames used by the stacktrace fingerprint strategy
+    frameLimit: number;
+    // How long a checked issue state is trusted before asking the tracker again (ms)
+    issueStateTtl: number;
   };
   worker: {
     pollInterval: number;
+    // Jobs analyzed by Claude at the same time
+    concurrency: number;
     gitPullInterval: number;
+    // How long a claimed job stays owned by a worker without a heartbeat (ms)
+    leaseDuration: number;
+    // Attempts before a transiently failing job becomes dead
+    maxAttempts: number;
+    // First retry delay, doubled after each attempt (ms)
+    retryDelay: number;
   };
 }
 
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'duplicate';
+export type JobStatus =
+  | 'pending' | 'processing' | 'completed' | 'failed' | 'dead' | 'duplicate' | 'resolved' | 'regression' | 'skipped'
+  | 'suppressed';
+
+// How a job's fingerprint was computed, see src/lib/fingerprint.ts
+export type FingerprintStrategy = 'rule' | 'external' | 'stacktrace' | 'message' | 'labels' | 'payload';
+
+export interface JobStats {
+  total: number;
+  pending: number;
+  completed: number;
+  failed: number;
+  // Transiently failing jobs that ran out of attempts
+  dead: number;
+  duplicate: number;
+  resolved: number;
+  // Errors that came back after their issue was completed
+  regression: number;
+  // Analyzed errors dropped by a routing rule with skip
+  skipped: number;
+  // Webhook events dropped by an ignore rule or a snooze, never analyzed
+  suppressed: number;
+  // Linear issues linked to fingerprints, by mirrored state
+  open_issues: number;
+  completed_issues: number;
+  canceled_issues: number;
+  // Webhook requests rejected by source authentication
+  rejected: number;
+}
 
 export interface Job {
   id: number;
@@ -34,13 +97,33 @@ export interface Job {
   status: JobStatus;
   error?: string;
   analysis?: string;
+  event?: string;
+  alert_state?: AlertState;
+  source?: string;
+  fingerprint_strategy?: FingerprintStrategy;
+  worker_id?: string;
+  claimed_at?: string;
+  lease_expires_at?: string;
+  attempts?: number;
+  next_attempt_at?: string;
+  // Identifier of the completed issue this job is a regression of
+  regression_of?: string;
+  // RoutingDecision as JSON
+  routing?: string;
+  // Why a suppressed event was dropped ("ignore rule bot-404s", "snoozed until ...")
+  suppressed_by?: string;
+  // 1 when the analysis was reused from the analysis cache
+  cache_hit?: number;
+  // 1 when a re-run asked for a fresh analysis; cleared once the job is analyzed
+  bypass_cache?: number;
+  // Issue in the configured tracker (the column names predate GitHub and Jira support)
   linear_issue_id?: string;
   linear_identifier?: string;
   created_at?: string;
   processed_at?: string;
 }
 
-export type ClaudeEventType = 'text' | 'tool_use' | 'tool_result' | 'result' | 'error';
+export type ClaudeEventType = 'text' | 'tool_use' | 'tool_result' | 'result' | 'error' | 'validation' | 'repair' | 'cache';
 
 export interface ClaudeSessionEvent {
   ts: string;
@@ -52,12 +135,54 @@ export interface ClaudeSessionEvent {
   lines?: number;
   duration_ms?: number;
   message?: string;
+  // validation: outcome of checking the output against the analysis schema
+  valid?: boolean;
+  // validation/repair: schema violations fed back to Claude
+  errors?: string[];
+  // validation: near misses fixed without asking Claude
+  coercions?: string[];
+  // cache: job whose analysis was reused, null when it came from lineu test
+  source_job?: number | null;
+  // result: usage reported by Claude for the invocation
+  cost_usd?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  num_turns?: number;
 }
 
 export interface ClaimedJob {
   id: number;
   payload: string;
   fingerprint: string;
+  event: string | null;
+  // Number of times the job has been claimed, including this one
+  attempts: number;
+  bypass_cache: number;
+}
+
+export interface StackFrame {
+  file?: string;
+  function?: string;
+  line?: number;
+  column?: number;
+  inApp?: boolean;
+}
+
+// State reported by alerting sources (e.g. New Relic ACTIVATED/CLOSED)
+export type AlertState = 'firing' | 'resolved';
+
+// Canonical error event extracted from a source-specific webhook payload
+export interface ErrorEvent {
+  source: string;
+  exceptionType?: string;
+  message?: string;
+  // Most recent call first
+  frames: StackFrame[];
+  environment?: string;
+  release?: string;
+  tags: Record<string, string>;
+  url?: string;
+  alertState?: AlertState;
 }
 
 export interface DashboardJob {
@@ -66,6 +191,13 @@ export interface DashboardJob {
   status: string;
   error: string | null;
   linear_identifier: string | null;
+  alert_state: AlertState | null;
+  source: string | null;
+  fingerprint_strategy: FingerprintStrategy | null;
+  // Current state of the fingerprint's issue, as mirrored from Linear
+  issue_state: IssueState | null;
+  issue_state_name: string | null;
+  issue_assignee: string | null;
   created_at: string;
   processed_at: string | null;
   duration_seconds: number | null;
@@ -76,6 +208,46 @@ export interface TimelineEntry {
   total: number;
   completed: number;
   failed: number;
+  suppressed: number;
+}
+
+export interface OccurrenceBucket {
+  hour: string;
+  count: number;
+}
+
+export interface OccurrenceValue {
+  value: string;
+  count: number;
+  last_seen: string;
+}
+
+// How often a fingerprint fires, across all of its webhook hits
+export interface OccurrenceSummary {
+  fingerprint: string;
+  count: number;
+  first_seen: string;
+  last_seen: string;
+  // Last 24 hours, oldest first; hours without hits are omitted
+  hourly: OccurrenceBucket[];
+  environments: OccurrenceValue[];
+  hosts: OccurrenceValue[];
+}
+
+// A fingerprint with a Linear issue and hits the issue may not know about yet
+export interface OccurrenceUpdateCandidate {
+  fingerprint: string;
+  linear_issue_id: string;
+  linear_identifier: string;
+  count: number;
+  // Count already reported on the issue (the count when it was created, at first)
+  notified_count: number;
+  notified_at: string | null;
+  priority_bumped_at: string | null;
+  // Occurrences in the current hour (UTC)
+  hour_count: number;
+  first_seen: string;
+  last_seen: string;
 }
 
 export interface ClaudeAnalysis {
@@ -122,19 +294,307 @@ export interface ClaudeAnalysis {
   related_code?: string;
 }
 
-export interface LinearIssue {
+// What a cached analysis is valid for: the same error, code and prompts
+export interface AnalysisCacheKey {
+  fingerprint: string;
+  headSha: string;
+  templateHash: string;
+  repairTemplateHash: string;
+  // Hash of the team list the analysis could suggest a team from
+  teamsHash: string;
+  // Analyzer name; replayed and stub analyses never stand in for Claude's
+  analyzer: string;
+}
+
+export interface CachedAnalysis {
+  // ClaudeAnalysis JSON
+  analysis: string;
+  // Job the analysis was made for; null for lineu test
+  job_id: number | null;
+  created_at: string;
+}
+
+// Tokens, cost and time of one claude invocation, from the final result event of its stream
+export interface AnalysisUsage {
+  // Input tokens not read from or written to the prompt cache
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
+// Usage summed over claude invocations, repairs and retries included
+export interface UsageTotals {
+  // Jobs with at least one invocation
+  jobs: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+  num_turns: number;
+  duration_ms: number;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  // Day (YYYY-MM-DD, UTC), team key or analysis category; null when the job has none
+  key: string | null;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  // Last 30 days
+  days: UsageBreakdown[];
+  teams: UsageBreakdown[];
+  categories: UsageBreakdown[];
+}
+
+// Spend of the current UTC day and month
+export interface Spend {
+  today: number;
+  month: number;
+}
+
+// Analysis spend caps in USD
+export interface BudgetConfig {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+export interface BudgetStatus {
+  daily_usd: number | null;
+  monthly_usd: number | null;
+  spent_today_usd: number;
+  spent_month_usd: number;
+  // Cap that was reached; analysis is paused while one is
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+export type TrackerKind = 'linear' | 'github' | 'jira';
+
+// Language of the built-in prompt and issue templates
+export type TemplateLanguage = 'en' | 'pt-BR';
+
+// Issue created in the tracker. id is what the tracker API addresses the
+// issue by; identifier is the human-readable reference (ENG-123, org/repo#45)
+export interface TrackerIssue {
   id: string;
   identifier: string;
   url: string;
 }
 
+// Most recent hit of a fingerprint, quoted in comments on its issue
+export interface LatestOccurrence {
+  payload: Record<string, unknown>;
+  event?: ErrorEvent;
+}
+
+// Issue state as far as deduplication is concerned
+export type IssueState = 'open' | 'completed' | 'canceled' | 'missing';
+
+// Issue fields mirrored from a Linear webhook event
+export interface IssueMirror {
+  issueId: string;
+  identifier: string | null;
+  state: IssueState;
+  // Workflow state name, e.g. "Won't Fix"
+  stateName: string | null;
+  assignee: string | null;
+  // Team key
+  team: string | null;
+  closedAt: string | null;
+}
+
+// What to do when an error comes back after its issue was completed
+export type RegressionAction = 'reopen' | 'new_issue';
+
+// Issue linked to a fingerprint, regardless of the deduplication window
+export interface FingerprintIssue {
+  hash: string;
+  linear_issue_id: string;
+  linear_identifier: string;
+  created_at: string;
+  // Last checked state, null when never checked or older than the state TTL
+  issue_state: IssueState | null;
+}
+
+// Extra context used when creating an issue
+export interface IssueContext {
+  event?: ErrorEvent;
+  // Earlier issue of the same fingerprint, linked as related
+  previousIssue?: { id: string; identifier: string; regression: boolean };
+  routing?: RoutingDecision;
+}
+
+// Tracker team and assignee of a CODEOWNERS owner (@user or @org/team)
+export interface OwnerMapping {
+  team?: string;
+  // Linear user email or name, GitHub login or Jira account ID
+  assignee?: string;
+}
+
+// rule: a routing rule set the team; codeowners: affected files matched an owner
+// in config.yml; suggested: Claude's suggested_team; default: routing.default_team;
+// unrouted: no rule, owner, suggested or default team was available
+export type RoutingSource = 'rule' | 'codeowners' | 'suggested' | 'default' | 'unrouted';
+
+// How the team (and assignee) of an issue was chosen, stored with the job
+export interface RoutingDecision {
+  source: RoutingSource;
+  team: string | null;
+  assignee?: string;
+  reason: string;
+  // Routing rule that fired, and what it set besides the team
+  rule?: string;
+  project?: string;
+  priority?: ClaudeAnalysis['priority'];
+  labels?: string[];
+  // A rule drops the error, or no team was available: no issue is created
+  skip?: boolean;
+}
+
+// Conditions of a routing rule; every one given must match
+export interface RoutingRuleMatch {
+  // Dot paths into the raw payload and into the normalized ErrorEvent
+  payload: FingerprintRuleMatch[];
+  event: FingerprintRuleMatch[];
+  // Any of these analysis categories
+  category?: string[];
+  // Any affected file matching any of these globs
+  files?: string[];
+  // Any of these services (see errorService)
+  service?: string[];
+}
+
+/**
+ * Routing rule from config.yml. The first matching rule fires; a rule without
+ * a team leaves team selection to CODEOWNERS and the suggested team.
+ */
+export interface RoutingRule {
+  name: string;
+  match: RoutingRuleMatch;
+  team?: string;
+  // Linear project name
+  project?: string;
+  priority?: ClaudeAnalysis['priority'];
+  labels?: string[];
+  skip?: boolean;
+}
+
+/**
+ * Ignore rule from config.yml. Events matching every condition given are
+ * recorded as suppressed instead of being queued.
+ */
+export interface IgnoreRule {
+  name: string;
+  // Against the event message
+  message?: RegExp;
+  exceptionType?: string[];
+  // See errorService
+  service?: string[];
+  environment?: string[];
+}
+
+// Fingerprint snoozed from the dashboard: its events are suppressed until `until` (UTC)
+export interface Snooze {
+  fingerprint: string;
+  until: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface RoutingConfig {
+  // Team used when no rule, owner or suggestion picks an available team
+  defaultTeam?: string;
+  rules: RoutingRule[];
+}
+
+// Routing target: a Linear team, a GitHub repository or a Jira project
 export interface TeamInfo {
   id: string;
   key: string;
   name: string;
 }
 
+// Webhook routes that can be protected by a source
+export type WebhookRoute = 'generic' | 'sentry' | 'newrelic' | 'alertmanager';
+
+// Signature schemes: HMAC-SHA256 of the raw body, Sentry's sentry-hook-signature, static bearer token
+export type WebhookVerification = 'hmac' | 'sentry' | 'bearer';
+
+export interface WebhookSource {
+  name: string;
+  route: WebhookRoute;
+  verify: WebhookVerification;
+  secret: string;
+  // HMAC only: header carrying the signature, and header carrying the signed
+  // timestamp (unset when replay protection is turned off)
+  header?: string;
+  timestampHeader?: string;
+  // Maximum age of a signed timestamp, in seconds
+  tolerance: number;
+}
+
+// Payload condition of a fingerprint rule: the value at a dot path must match the pattern
+export interface FingerprintRuleMatch {
+  path: string;
+  pattern: RegExp;
+}
+
+/**
+ * Fingerprint rule from config.yml. The first rule whose conditions all match
+ * decides the fingerprint, using exactly one of fields, ignore or group.
+ */
+export interface FingerprintRule {
+  name: string;
+  match: FingerprintRuleMatch[];
+  // Dot paths whose values are hashed
+  fields?: string[];
+  // Field names ignored, in addition to the default dynamic fields, when hashing the payload
+  ignore?: string[];
+  // Fixed fingerprint shared by every matching payload
+  group?: string;
+}
+
+// Comments posted on an existing issue as its error keeps happening
+export interface OccurrenceUpdateConfig {
+  // Occurrence counts that trigger a comment, ascending
+  thresholds: number[];
+  // Comment once a day with the occurrences since the last comment
+  dailySummary: boolean;
+  // Raise the issue priority once occurrences in one hour reach perHour
+  priorityBump?: { perHour: number; priority: number };
+}
+
+// Label names applied to new issues, keyed by the value of each attribute
+export interface LabelMapping {
+  category: Record<string, string[]>;
+  priority: Record<string, string[]>;
+  // ErrorEvent source (sentry, newrelic, ...)
+  source: Record<string, string[]>;
+  environment: Record<string, string[]>;
+  // Value of the event's "service" tag, or of a top-level "service" payload field
+  service: Record<string, string[]>;
+  // Create labels missing from a team at startup instead of skipping them
+  createMissing: boolean;
+}
+
 export interface ConfigFileResult {
-  teams: string[];
+  teams?: string[];
   prefix?: string;
+  sources?: WebhookSource[];
+  fingerprint?: FingerprintRule[];
+  occurrenceUpdates?: OccurrenceUpdateConfig;
+  regressions?: RegressionAction;
+  labels?: LabelMapping;
+  // Keyed by CODEOWNERS owner
+  owners?: Record<string, OwnerMapping>;
+  routing?: RoutingConfig;
+  ignore?: IgnoreRule[];
+  language?: TemplateLanguage;
+  budget?: BudgetConfig;
 }
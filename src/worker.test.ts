@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createDatabase, type LineuDatabase } from './db.js';
+import { startWorker, type Worker } from './worker.js';
+import type { Analyzer } from './services/analyzer.js';
+import type { IssueTracker } from './services/tracker.js';
+import type { ClaudeAnalysis, LineuConfig } from './types.js';
+
+const analysis: ClaudeAnalysis = {
+  category: 'bug',
+  priority: 'medium',
+  summary: 'Boom',
+  affected_files: [],
+  root_cause: { hypothesis: 'h', confidence: 'low', evidence: 'e' },
+  fix: { suggestion: 's', files_to_modify: [] },
+  investigation_log: [],
+  suggested_team: 'ENG',
+};
+
+// Routing only needs to find the suggested team in dry-run mode
+const tracker = {
+  kind: 'linear',
+  getTeamListForPrompt: () => '- ENG: Engineering',
+  findTeam: (key: string) => key === 'ENG' ? { id: 'team-1', key } : null,
+} as unknown as IssueTracker;
+
+describe('startWorker', () => {
+  let dir: string;
+  let db: LineuDatabase;
+  let worker: Worker | undefined;
+  // Analyses in progress, finished by calling their entry
+  let pending: Array<() => void>;
+  let running: number;
+  let maxRunning: number;
+
+  const analyzer: Analyzer = {
+    name: 'stub',
+    analyze: () => new Promise(resolve => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      pending.push(() => {
+        running--;
+        resolve(analysis);
+      });
+    }),
+  };
+
+  const config = (concurrency: number): LineuConfig => ({
+    server: { port: 3000 },
+    repo: { path: dir },
+    database: { path: path.join(dir, 'lineu.db') },
+    claude: { maxTurns: 10, timeout: 30000 },
+    tracker: 'linear',
+    deduplication: { windowDays: 7, frameLimit: 5, issueStateTtl: 300000 },
+    worker: { pollInterval: 1000, concurrency, gitPullInterval: 600000, leaseDuration: 60000, maxAttempts: 5, retryDelay: 60000 },
+  });
+
+  // Finishes the oldest analysis in progress and lets its job settle
+  const finishNext = async () => {
+    pending.shift()!();
+    await vi.advanceTimersByTimeAsync(0);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lineu-worker-'));
+    db = createDatabase(path.join(dir, 'lineu.db'));
+    pending = [];
+    running = 0;
+    maxRunning = 0;
+  });
+
+  afterEach(() => {
+    worker?.stop();
+    worker = undefined;
+    vi.useRealTimers();
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs at most worker.concurrency jobs at a time, even across ticks', async () => {
+    const ids = ['a', 'b', 'c'].map(fingerprint => db.insertJob({ message: 'Boom' }, fingerprint));
+    worker = startWorker(config(2), db, analyzer, tracker, { dryRun: true });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(running).toBe(2);
+
+    // Busy slots are not started again on the next tick
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(running).toBe(2);
+
+    // A slot that finishes its job claims the next one
+    await finishNext();
+    expect(running).toBe(2);
+    await finishNext();
+    await finishNext();
+
+    expect(maxRunning).toBe(2);
+    expect(ids.map(id => db.getJob(id)?.status)).toEqual(['completed', 'completed', 'completed']);
+  });
+
+  it('frees slots once the queue is drained, so later jobs are picked up', async () => {
+    worker = startWorker(config(1), db, analyzer, tracker, { dryRun: true });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(running).toBe(0);
+
+    const first = db.insertJob({ message: 'Boom' }, 'a');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(running).toBe(1);
+    await finishNext();
+    expect(db.getJob(first)?.status).toBe('completed');
+
+    const second = db.insertJob({ message: 'Boom' }, 'b');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(running).toBe(1);
+    await finishNext();
+    expect(db.getJob(second)?.status).toBe('completed');
+    expect(maxRunning).toBe(1);
+  });
+});
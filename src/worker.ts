@@ -1,37 +1,147 @@
 import { spawn } from 'child_process';
-import type { LineuConfig, ClaimedJob } from './types.js';
+import crypto from 'crypto';
+import os from 'os';
+import type {
+  LineuConfig, ClaimedJob, ErrorEvent, IssueContext, OccurrenceUpdateConfig, OwnerMapping, RegressionAction,
+  RoutingConfig, BudgetConfig, BudgetStatus, AnalysisUsage,
+} from './types.js';
 import type { LineuDatabase } from './db.js';
-import type { ClaudeService } from './services/claude.js';
-import type { LinearService } from './services/linear.js';
+import type { Analyzer } from './services/analyzer.js';
+import { analyzeWithCache, type AnalysisCacheOptions } from './services/analysis-cache.js';
+import type { IssueTracker } from './services/tracker.js';
+import { classifyFailure, retryDelay } from './lib/retry.js';
+import { DEFAULT_OCCURRENCE_UPDATES, planOccurrenceUpdate } from './lib/occurrence-updates.js';
+import { loadCodeowners } from './lib/codeowners.js';
+import { routeIssue, routedAnalysis, type RoutingOptions } from './lib/routing.js';
+import { budgetWarning, checkBudget } from './lib/budget.js';
 
 export interface Worker {
   stop: () => void;
 }
 
+// The worker no longer holds the job: its lease expired and the job was
+// released to pending, or claimed by another worker
+class LeaseLostError extends Error {
+  constructor(jobId: number) {
+    super(`Lease on job ${jobId} lost`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+// Identifies the process holding a job lease
+function createWorkerId(): string {
+  return `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Returns processing jobs with an expired (or missing) lease to pending,
+ * or marks them dead once they used all their attempts.
+ * Used at startup to recover jobs orphaned by a crash, and on every poll.
+ */
+export function recoverExpiredJobs(db: LineuDatabase, config: LineuConfig, context: string): number[] {
+  const { released, dead } = db.releaseExpiredLeases(config.worker.maxAttempts);
+  if (released.length > 0) {
+    console.warn(`[Worker] ${context}: returned ${released.length} job(s) with expired lease to pending: ${released.join(', ')}`);
+  }
+  if (dead.length > 0) {
+    console.error(`[Worker] ${context}: ${dead.length} job(s) with expired lease out of attempts, marked dead: ${dead.join(', ')}`);
+  }
+  return released;
+}
+
 export interface WorkerOptions {
   dryRun?: boolean;
+  occurrenceUpdates?: OccurrenceUpdateConfig;
+  // What to do when an error comes back after its issue was completed (default: reopen)
+  regressions?: RegressionAction;
+  // Tracker team and assignee of CODEOWNERS owners
+  owners?: Record<string, OwnerMapping>;
+  routing?: RoutingConfig;
+  // Reuses analyses of unchanged code; the cache is off when unset
+  analysisCache?: Pick<AnalysisCacheOptions, 'templateHash' | 'repairTemplateHash' | 'bypass'>;
+  // Spend caps; once one is reached, jobs stay pending until the next UTC day or month
+  budget?: BudgetConfig;
 }
 
 export function startWorker(
   config: LineuConfig,
   db: LineuDatabase,
-  claude: ClaudeService,
-  linear: LinearService,
+  analyzer: Analyzer,
+  tracker: IssueTracker,
   options: WorkerOptions = {}
 ): Worker {
   let running = true;
-  const { dryRun = false } = options;
+  // Drain loops in progress; ticks only start loops for free slots, so a slow
+  // drain never overlaps a second one beyond config.worker.concurrency
+  let activeSlots = 0;
+  // Occurrence updates can take several tracker calls; one pass at a time
+  let notifying = false;
+  const {
+    dryRun = false, occurrenceUpdates = DEFAULT_OCCURRENCE_UPDATES, regressions = 'reopen', owners = {}, routing, analysisCache,
+    budget,
+  } = options;
+  const routingOptions = { owners, rules: routing?.rules ?? [], defaultTeam: routing?.defaultTeam };
+  const workerId = createWorkerId();
+
+  // Cap currently pausing analysis; reaching or leaving one is logged once
+  let pausedBy: BudgetStatus['exceeded'] = null;
 
   if (dryRun) {
-    console.log('[Worker] Running in DRY-RUN mode - no Linear issues will be created');
+    console.log('[Worker] Running in DRY-RUN mode - no issues will be created');
   }
 
+  // Checked before every claim: jobs already analyzing finish, so spend can
+  // overshoot a cap by the jobs in flight
+  const withinBudget = () => {
+    const status = checkBudget(budget, db);
+    if (!status) return true;
+    if (status.exceeded !== pausedBy) {
+      if (status.exceeded) {
+        console.warn(`[Worker] ${budgetWarning(status)} - analysis paused, jobs stay queued`);
+      } else {
+        console.log('[Worker] Spend is back under budget - analysis resumed');
+      }
+      pausedBy = status.exceeded;
+    }
+    return status.exceeded === null;
+  };
+
+  // Claims and processes jobs until the queue has nothing claimable.
+  // Claims are single SQLite statements, so two slots never take the same
+  // row, and rows whose fingerprint is already processing are skipped.
+  const drain = async () => {
+    let job: ClaimedJob | undefined;
+    while (running && withinBudget() && (job = db.claimNextJob(workerId, config.worker.leaseDuration))) {
+      await processJob(workerId, job, config, db, analyzer, tracker, dryRun, regressions, routingOptions, analysisCache);
+    }
+  };
+
   // Process pending jobs at configured interval
   const processInterval = setInterval(() => {
     if (!running) return;
-    processJobs(config, db, claude, linear, dryRun).catch(err => {
-      console.error('Worker error:', err);
-    });
+    recoverExpiredJobs(db, config, 'Lease reaper');
+
+    while (activeSlots < config.worker.concurrency) {
+      activeSlots++;
+      drain()
+        .catch(err => {
+          console.error('Worker error:', err);
+        })
+        .finally(() => {
+          activeSlots--;
+        });
+    }
+
+    if (!dryRun && !notifying) {
+      notifying = true;
+      notifyOccurrences(db, tracker, occurrenceUpdates)
+        .catch(err => {
+          console.error('Occurrence update error:', err);
+        })
+        .finally(() => {
+          notifying = false;
+        });
+    }
   }, config.worker.pollInterval);
 
   // Git pull at configured interval
@@ -54,72 +164,208 @@ export function startWorker(
   };
 }
 
-async function processJobs(
-  config: LineuConfig,
-  db: LineuDatabase,
-  claude: ClaudeService,
-  linear: LinearService,
-  dryRun: boolean
-): Promise<void> {
-  let job: ClaimedJob | undefined;
-
-  while ((job = db.claimNextJob())) {
-    await processJob(job, config, db, claude, linear, dryRun);
-  }
-}
-
 async function processJob(
+  workerId: string,
   job: ClaimedJob,
   config: LineuConfig,
   db: LineuDatabase,
-  claude: ClaudeService,
-  linear: LinearService,
-  dryRun: boolean
+  analyzer: Analyzer,
+  tracker: IssueTracker,
+  dryRun: boolean,
+  regressions: RegressionAction,
+  routingOptions: Omit<RoutingOptions, 'codeowners'>,
+  analysisCache: WorkerOptions['analysisCache']
 ): Promise<void> {
   const payload = JSON.parse(job.payload) as Record<string, unknown>;
+  const event = job.event ? JSON.parse(job.event) as ErrorEvent : undefined;
+
+  if (job.attempts > 1) {
+    console.log(`[Job ${job.id}] Attempt ${job.attempts}`);
+  }
+
+  // Heartbeat: keep the lease while the job runs (Claude analysis can take minutes)
+  const { leaseDuration } = config.worker;
+  const heartbeat = setInterval(() => {
+    if (!db.renewLease(job.id, workerId, leaseDuration)) {
+      console.warn(`[Job ${job.id}] Lease lost - the job may be picked up again by another worker`);
+    }
+  }, Math.max(1000, Math.floor(leaseDuration / 3)));
+
+  // Renewed right before every tracker change, so a worker that lost the job
+  // never files or reopens an issue for it
+  const holdLease = () => {
+    if (!db.renewLease(job.id, workerId, leaseDuration)) {
+      throw new LeaseLostError(job.id);
+    }
+  };
+
+  // Outcomes only apply while the job is still held
+  const settle = (applied: boolean) => {
+    if (!applied) {
+      console.warn(`[Job ${job.id}] Lease lost - outcome discarded, the job was released or reclaimed`);
+    }
+    return applied;
+  };
 
   try {
-    // 1. Check for duplicate
-    const existing = db.findFingerprint(job.fingerprint, config.deduplication.windowDays);
+    // 1. Check the issue already linked to the fingerprint
+    let previousIssue: IssueContext['previousIssue'];
+    const linked = db.getFingerprintIssue(job.fingerprint, config.deduplication.issueStateTtl);
 
-    if (existing) {
-      console.log(`[Job ${job.id}] Duplicate → ${existing.linear_identifier}`);
-      db.markDuplicate(job.id, existing.linear_identifier);
-      return;
+    if (linked) {
+      let state = linked.issue_state;
+      if (!state) {
+        state = await tracker.getIssueState(linked.linear_issue_id);
+        db.updateIssueState(job.fingerprint, state);
+      }
+
+      if (state === 'open' && db.findFingerprint(job.fingerprint, config.deduplication.windowDays)) {
+        console.log(`[Job ${job.id}] Duplicate → ${linked.linear_identifier}`);
+        settle(db.markDuplicate(job.id, linked.linear_identifier, workerId));
+        return;
+      }
+
+      if (state === 'completed' && regressions === 'reopen') {
+        if (dryRun) {
+          console.log(`[Job ${job.id}] DRY-RUN: Regression, would reopen ${linked.linear_identifier}`);
+          settle(db.markRegression(job.id, job.fingerprint, linked.linear_identifier, false, workerId));
+        } else {
+          console.log(`[Job ${job.id}] Regression → reopening ${linked.linear_identifier}`);
+          holdLease();
+          await tracker.reopenIssue(linked.linear_issue_id, { payload, event });
+          settle(db.markRegression(job.id, job.fingerprint, linked.linear_identifier, true, workerId));
+        }
+        return;
+      }
+
+      // Open past the window, canceled, or a regression with regressions: new_issue:
+      // a new issue is created, related to the previous one
+      if (state !== 'missing') {
+        previousIssue = {
+          id: linked.linear_issue_id,
+          identifier: linked.linear_identifier,
+          regression: state === 'completed',
+        };
+      }
     }
 
     // 2. Get team context
-    const teamList = linear.getTeamListForPrompt();
+    const teamList = tracker.getTeamListForPrompt();
 
-    // 3. Execute Claude Code
-    console.log(`[Job ${job.id}] Analyzing with Claude Code...`);
-    const analysis = await claude.analyze(config.repo.path, payload, job.id, teamList);
+    // 3. Analyze (Claude Code, or a replay/stub analyzer), reusing the cached
+    // analysis of the fingerprint when the code and prompt have not changed
+    console.log(`[Job ${job.id}] Analyzing with ${analyzer.name}${analysisCache && job.bypass_cache ? ' (re-run, cache bypassed)' : ''}...`);
+    const onUsage = (usage: AnalysisUsage) => db.recordUsage(usage, job.id);
+    const request = { repoPath: config.repo.path, fingerprint: job.fingerprint, payload, jobId: job.id, teamList, event, onUsage };
+    const analysis = analysisCache
+      ? (await analyzeWithCache(db, analyzer, request, { ...analysisCache, bypass: analysisCache.bypass || job.bypass_cache === 1 })).analysis
+      : await analyzer.analyze(config.repo.path, payload, job.id, teamList, event, onUsage);
 
-    // 4. Resolve team (with fallback to first team)
-    const team = linear.resolveTeamId(analysis.suggested_team);
-    if (!team) {
-      throw new Error('No teams available in Linear');
+    // 4. Route: routing rules, CODEOWNERS owner of the affected files, suggested team,
+    // or default team; skipped when none is available. CODEOWNERS is read on every job
+    // since git pull keeps the checkout current
+    const route = routeIssue(tracker, { payload, event, analysis }, {
+      ...routingOptions,
+      codeowners: loadCodeowners(config.repo.path),
+    });
+    db.setRouting(job.id, route.routing);
+    if (route.team === null) {
+      console.log(`[Job ${job.id}] ${route.routing.reason}`);
+      settle(db.markSkipped(job.id, JSON.stringify(analysis), workerId));
+      return;
     }
+    const { team, routing } = route;
+    console.log(`[Job ${job.id}] Routed to ${team.key}${routing.assignee ? ` (${routing.assignee})` : ''}: ${routing.reason}${routing.rule ? ` [rule ${routing.rule}]` : ''}`);
 
-    // 5. Create Linear issue (or skip in dry-run mode)
+    // 5. Create the issue (or skip in dry-run mode)
     if (dryRun) {
       console.log(`[Job ${job.id}] DRY-RUN: Would create issue in team ${team.key}`);
       console.log(`[Job ${job.id}] Analysis:`, JSON.stringify(analysis, null, 2));
-      db.markCompletedDryRun(job.id, JSON.stringify(analysis));
-      console.log(`[Job ${job.id}] Completed (dry-run)`);
+      if (settle(db.markCompletedDryRun(job.id, JSON.stringify(analysis), workerId))) {
+        console.log(`[Job ${job.id}] Completed (dry-run)`);
+      }
     } else {
-      console.log(`[Job ${job.id}] Creating Linear issue in team ${team.key}...`);
-      const issue = await linear.createIssue(team.id, payload, analysis, job.fingerprint);
+      console.log(`[Job ${job.id}] Creating ${tracker.kind} issue in team ${team.key}...`);
+      holdLease();
+      const issue = await tracker.createIssue(team.id, payload, routedAnalysis(analysis, routing), job.fingerprint, {
+        event, previousIssue, routing,
+      });
 
       // 6. Save fingerprint and mark complete (atomic transaction)
-      db.completeJobWithFingerprint(job.id, job.fingerprint, issue.id, issue.identifier, JSON.stringify(analysis));
-      console.log(`[Job ${job.id}] Completed → ${issue.identifier}`);
+      const regressionOf = previousIssue?.regression ? previousIssue.identifier : undefined;
+      if (!db.completeJobWithFingerprint(job.id, job.fingerprint, issue.id, issue.identifier, JSON.stringify(analysis), regressionOf, workerId)) {
+        console.warn(`[Job ${job.id}] Lease lost while ${issue.identifier} was being created - the issue is not linked to the job`);
+        return;
+      }
+      console.log(`[Job ${job.id}] Completed → ${issue.identifier}${regressionOf ? ` (regression of ${regressionOf})` : ''}`);
     }
 
   } catch (err) {
+    if (err instanceof LeaseLostError) {
+      console.warn(`[Job ${job.id}] Lease lost - abandoned before changing the ${tracker.kind} issue`);
+      return;
+    }
+
     const message = err instanceof Error ? err.message : 'Unknown error';
-    console.error(`[Job ${job.id}] Failed: ${message}`);
-    db.markFailed(job.id, message);
+    const { maxAttempts, retryDelay: baseDelay } = config.worker;
+
+    if (classifyFailure(err) === 'permanent') {
+      console.error(`[Job ${job.id}] Failed permanently: ${message}`);
+      settle(db.markFailed(job.id, message, workerId));
+    } else if (job.attempts >= maxAttempts) {
+      console.error(`[Job ${job.id}] Dead after ${job.attempts} attempts: ${message}`);
+      settle(db.markDead(job.id, message, workerId));
+    } else {
+      const delay = retryDelay(err, job.attempts, baseDelay);
+      console.warn(`[Job ${job.id}] Failed (attempt ${job.attempts}/${maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+      settle(db.markRetry(job.id, message, delay, workerId));
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Posts throttled comments (and priority bumps) on the tracker issues of
+ * fingerprints that keep firing after their issue was created.
+ */
+async function notifyOccurrences(
+  db: LineuDatabase,
+  tracker: IssueTracker,
+  config: OccurrenceUpdateConfig
+): Promise<void> {
+  for (const candidate of db.getOccurrenceUpdateCandidates()) {
+    const plan = planOccurrenceUpdate(candidate, config);
+    if (!plan) continue;
+
+    const { fingerprint, linear_issue_id: issueId, linear_identifier: identifier } = candidate;
+    try {
+      if (plan.comment) {
+        const latest = db.getLatestOccurrence(fingerprint);
+        const payload = latest ? JSON.parse(latest.payload) as Record<string, unknown> : {};
+        const event = latest?.event ? JSON.parse(latest.event) as ErrorEvent : undefined;
+        await tracker.commentOccurrences(issueId, plan.comment, candidate, { payload, event });
+        db.markOccurrenceNotified(fingerprint, candidate.count);
+        console.log(`[Occurrences] ${identifier}: commented (${candidate.count} occurrences)`);
+      }
+      if (plan.priority !== undefined) {
+        const raised = await tracker.raisePriority(issueId, plan.priority, candidate.hour_count);
+        db.markPriorityBumped(fingerprint);
+        if (raised) {
+          console.log(`[Occurrences] ${identifier}: priority raised to ${plan.priority} (${candidate.hour_count} this hour)`);
+        }
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      if (classifyFailure(err) === 'permanent') {
+        // e.g. the issue was deleted: give up instead of retrying on every poll
+        if (plan.comment) db.markOccurrenceNotified(fingerprint, candidate.count);
+        if (plan.priority !== undefined) db.markPriorityBumped(fingerprint);
+        console.warn(`[Occurrences] ${identifier}: update skipped: ${message}`);
+      } else {
+        console.warn(`[Occurrences] ${identifier}: update failed, retrying on next poll: ${message}`);
+      }
+    }
   }
 }
 